@@ -1,12 +1,17 @@
 import React from 'react';
 import { StatusBar } from 'expo-status-bar';
+import Constants, { ExecutionEnvironment } from 'expo-constants';
+import { ShareIntentProvider } from 'expo-share-intent';
 import AppNavigator from './src/navigation/AppNavigator';
 
+// The share extension is native code, so it's switched off when running in Expo Go
+const shareIntentDisabled = Constants.executionEnvironment === ExecutionEnvironment.StoreClient;
+
 export default function App() {
   return (
-    <>
+    <ShareIntentProvider options={{ disabled: shareIntentDisabled }}>
       <StatusBar style="light" backgroundColor="#007AFF" />
       <AppNavigator />
-    </>
+    </ShareIntentProvider>
   );
 }
@@ -0,0 +1,314 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Animated,
+  PanResponder,
+  GestureResponderEvent,
+} from 'react-native';
+import { JobApplication, ApplicationStatus, APPLICATION_STATUSES } from '../types';
+import { getStatusColor } from '../utils/applicationStatus';
+
+const COLUMN_WIDTH = 260;
+const COLUMN_GAP = 12;
+const BOARD_PADDING = 16;
+// Dragging this close to either edge scrolls the board sideways
+const EDGE_SCROLL_ZONE = 40;
+const EDGE_SCROLL_STEP = 16;
+
+interface ApplicationBoardProps {
+  applications: JobApplication[];
+  onMove: (application: JobApplication, status: ApplicationStatus) => void;
+  onOpen: (application: JobApplication) => void;
+}
+
+// Pipeline board with one column per status. Long-press a card to pick it up,
+// then drag it onto another column to change its status.
+export default function ApplicationBoard({ applications, onMove, onOpen }: ApplicationBoardProps) {
+  const [dragging, setDragging] = useState<JobApplication | null>(null);
+  const [hoverStatus, setHoverStatus] = useState<ApplicationStatus | null>(null);
+  const dragPosition = useRef(new Animated.ValueXY()).current;
+
+  // The pan responder is created once, so it reads live values from refs
+  const draggingRef = useRef<JobApplication | null>(null);
+  const hoverRef = useRef<ApplicationStatus | null>(null);
+  const capturedRef = useRef(false);
+  const boardFrame = useRef({ x: 0, y: 0, width: 0 });
+  const scrollX = useRef(0);
+  const boardRef = useRef<View>(null);
+  const scrollRef = useRef<ScrollView>(null);
+  const onMoveRef = useRef(onMove);
+  onMoveRef.current = onMove;
+
+  const statusAt = (pageX: number): ApplicationStatus => {
+    const contentX = pageX - boardFrame.current.x + scrollX.current - BOARD_PADDING;
+    const index = Math.floor(contentX / (COLUMN_WIDTH + COLUMN_GAP));
+    return APPLICATION_STATUSES[Math.max(0, Math.min(APPLICATION_STATUSES.length - 1, index))];
+  };
+
+  const moveCardTo = (pageX: number, pageY: number) => {
+    dragPosition.setValue({
+      x: pageX - boardFrame.current.x - COLUMN_WIDTH / 2,
+      y: pageY - boardFrame.current.y - 30,
+    });
+  };
+
+  const endDrag = () => {
+    draggingRef.current = null;
+    hoverRef.current = null;
+    capturedRef.current = false;
+    setDragging(null);
+    setHoverStatus(null);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      // Only take over the gesture once a card has been picked up
+      onStartShouldSetPanResponderCapture: () => false,
+      onMoveShouldSetPanResponderCapture: () => !!draggingRef.current,
+      onPanResponderGrant: () => {
+        capturedRef.current = true;
+      },
+      onPanResponderMove: (_, gesture) => {
+        moveCardTo(gesture.moveX, gesture.moveY);
+
+        const status = statusAt(gesture.moveX);
+        if (status !== hoverRef.current) {
+          hoverRef.current = status;
+          setHoverStatus(status);
+        }
+
+        const { x, width } = boardFrame.current;
+        if (gesture.moveX < x + EDGE_SCROLL_ZONE) {
+          scrollRef.current?.scrollTo({ x: Math.max(0, scrollX.current - EDGE_SCROLL_STEP), animated: false });
+        } else if (gesture.moveX > x + width - EDGE_SCROLL_ZONE) {
+          scrollRef.current?.scrollTo({ x: scrollX.current + EDGE_SCROLL_STEP, animated: false });
+        }
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const application = draggingRef.current;
+        const status = statusAt(gesture.moveX);
+        endDrag();
+        if (application && status !== application.application_status) {
+          onMoveRef.current(application, status);
+        }
+      },
+      onPanResponderTerminate: endDrag,
+    })
+  ).current;
+
+  const measureBoard = () => {
+    boardRef.current?.measureInWindow((x, y, width) => {
+      boardFrame.current = { x, y, width };
+    });
+  };
+
+  const startDrag = (application: JobApplication, event: GestureResponderEvent) => {
+    measureBoard();
+    moveCardTo(event.nativeEvent.pageX, event.nativeEvent.pageY);
+    draggingRef.current = application;
+    hoverRef.current = application.application_status;
+    setDragging(application);
+    setHoverStatus(application.application_status);
+  };
+
+  const handlePressOut = () => {
+    // Let go without moving: put the card back. Once the board has taken over
+    // the gesture the release is handled by the pan responder instead.
+    if (draggingRef.current && !capturedRef.current) {
+      endDrag();
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    if (!dateString) return 'No date';
+    return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  };
+
+  const renderCard = (application: JobApplication, lifted = false) => (
+    <View
+      style={[
+        styles.card,
+        { borderLeftColor: getStatusColor(application.application_status) },
+        lifted && styles.cardLifted,
+      ]}
+    >
+      <Text style={styles.company} numberOfLines={1}>{application.company}</Text>
+      <Text style={styles.position} numberOfLines={2}>{application.job_title}</Text>
+      <Text style={styles.date}>Applied {formatDate(application.date_applied)}</Text>
+    </View>
+  );
+
+  return (
+    <View ref={boardRef} style={styles.board} onLayout={measureBoard} {...panResponder.panHandlers}>
+      <ScrollView
+        ref={scrollRef}
+        horizontal
+        scrollEnabled={!dragging}
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.columns}
+        onScroll={(event) => {
+          scrollX.current = event.nativeEvent.contentOffset.x;
+        }}
+        scrollEventThrottle={16}
+      >
+        {APPLICATION_STATUSES.map((status) => {
+          const items = applications.filter((application) => application.application_status === status);
+          const isDropTarget = !!dragging && hoverStatus === status && dragging.application_status !== status;
+
+          return (
+            <View key={status} style={[styles.column, isDropTarget && styles.columnDropTarget]}>
+              <View style={styles.columnHeader}>
+                <View style={[styles.statusDot, { backgroundColor: getStatusColor(status) }]} />
+                <Text style={styles.columnTitle}>{status}</Text>
+                <View style={styles.countBadge}>
+                  <Text style={styles.countText}>{items.length}</Text>
+                </View>
+              </View>
+
+              <ScrollView
+                style={styles.columnBody}
+                scrollEnabled={!dragging}
+                nestedScrollEnabled
+                showsVerticalScrollIndicator={false}
+              >
+                {items.map((application) => (
+                  <TouchableOpacity
+                    key={application.id}
+                    style={dragging?.id === application.id && styles.cardPlaceholder}
+                    onPress={() => onOpen(application)}
+                    onLongPress={(event) => startDrag(application, event)}
+                    onPressOut={handlePressOut}
+                    delayLongPress={250}
+                  >
+                    {renderCard(application)}
+                  </TouchableOpacity>
+                ))}
+                {items.length === 0 && (
+                  <Text style={styles.emptyColumn}>
+                    {dragging ? 'Drop here' : 'No applications'}
+                  </Text>
+                )}
+              </ScrollView>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {dragging && (
+        <Animated.View
+          pointerEvents="none"
+          style={[styles.dragOverlay, { transform: dragPosition.getTranslateTransform() }]}
+        >
+          {renderCard(dragging, true)}
+        </Animated.View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  board: {
+    flex: 1,
+  },
+  columns: {
+    padding: BOARD_PADDING,
+    paddingTop: 8,
+    gap: COLUMN_GAP,
+  },
+  column: {
+    width: COLUMN_WIDTH,
+    backgroundColor: '#E5E5EA',
+    borderRadius: 12,
+    padding: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  columnDropTarget: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E3F0FF',
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+    paddingVertical: 6,
+    marginBottom: 4,
+    gap: 8,
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  columnTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  countBadge: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  columnBody: {
+    flex: 1,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    borderLeftWidth: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.08,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardLifted: {
+    width: COLUMN_WIDTH - 20,
+    shadowOpacity: 0.25,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  cardPlaceholder: {
+    opacity: 0.3,
+  },
+  company: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+    marginBottom: 2,
+  },
+  position: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginBottom: 6,
+  },
+  date: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  emptyColumn: {
+    fontSize: 13,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  dragOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+  },
+});
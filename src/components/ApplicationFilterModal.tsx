@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { APPLICATION_STATUSES, INTERVIEW_STAGES } from '../types';
+import {
+  ApplicationFilters,
+  ApplicationSort,
+  SalaryFilter,
+  DEFAULT_FILTERS,
+  DEFAULT_SORT,
+  SORT_OPTIONS,
+} from '../utils/applicationFilters';
+
+interface ApplicationFilterModalProps {
+  visible: boolean;
+  filters: ApplicationFilters;
+  sort: ApplicationSort;
+  onApply: (filters: ApplicationFilters, sort: ApplicationSort) => void;
+  onSavePreset: (name: string, filters: ApplicationFilters, sort: ApplicationSort) => void;
+  onClose: () => void;
+}
+
+const SALARY_OPTIONS: { value: SalaryFilter; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'with', label: 'Has salary' },
+  { value: 'without', label: 'No salary' },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+export default function ApplicationFilterModal({
+  visible,
+  filters,
+  sort,
+  onApply,
+  onSavePreset,
+  onClose,
+}: ApplicationFilterModalProps) {
+  // Edits stay local until Apply so Cancel leaves the list untouched
+  const [draftFilters, setDraftFilters] = useState<ApplicationFilters>(filters);
+  const [draftSort, setDraftSort] = useState<ApplicationSort>(sort);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setDraftFilters(filters);
+      setDraftSort(sort);
+      setPresetName('');
+    }
+  }, [visible]);
+
+  const validateDates = () => {
+    for (const value of [draftFilters.appliedFrom, draftFilters.appliedTo]) {
+      if (value && !DATE_PATTERN.test(value)) {
+        Alert.alert('Error', 'Dates must be in YYYY-MM-DD format');
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const cleanedFilters = (): ApplicationFilters => ({
+    ...draftFilters,
+    appliedFrom: draftFilters.appliedFrom || undefined,
+    appliedTo: draftFilters.appliedTo || undefined,
+  });
+
+  const handleApply = () => {
+    if (!validateDates()) return;
+    onApply(cleanedFilters(), draftSort);
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) {
+      Alert.alert('Error', 'Please enter a name for this preset');
+      return;
+    }
+    if (!validateDates()) return;
+    onSavePreset(presetName.trim(), cleanedFilters(), draftSort);
+    setPresetName('');
+  };
+
+  const handleReset = () => {
+    setDraftFilters(DEFAULT_FILTERS);
+    setDraftSort(DEFAULT_SORT);
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Filter & Sort</Text>
+          <TouchableOpacity onPress={handleApply}>
+            <Text style={styles.modalSaveButton}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.modalContent}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Sort By</Text>
+            <View style={styles.chipRow}>
+              {SORT_OPTIONS.map((option) =>
+                renderChip(option.label, draftSort.field === option.field, () =>
+                  setDraftSort({ ...draftSort, field: option.field })
+                )
+              )}
+            </View>
+            <View style={[styles.chipRow, styles.directionRow]}>
+              {renderChip('Ascending', draftSort.direction === 'asc', () =>
+                setDraftSort({ ...draftSort, direction: 'asc' })
+              )}
+              {renderChip('Descending', draftSort.direction === 'desc', () =>
+                setDraftSort({ ...draftSort, direction: 'desc' })
+              )}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Status</Text>
+            <View style={styles.chipRow}>
+              {APPLICATION_STATUSES.map((status) =>
+                renderChip(status, draftFilters.statuses.includes(status), () =>
+                  setDraftFilters({ ...draftFilters, statuses: toggle(draftFilters.statuses, status) })
+                )
+              )}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Interview Stage</Text>
+            <View style={styles.chipRow}>
+              {INTERVIEW_STAGES.map((stage) =>
+                renderChip(stage, draftFilters.stages.includes(stage), () =>
+                  setDraftFilters({ ...draftFilters, stages: toggle(draftFilters.stages, stage) })
+                )
+              )}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Date Applied</Text>
+            <View style={styles.dateRow}>
+              <TextInput
+                style={[styles.textInput, styles.dateInput]}
+                value={draftFilters.appliedFrom || ''}
+                onChangeText={(text) => setDraftFilters({ ...draftFilters, appliedFrom: text })}
+                placeholder="From YYYY-MM-DD"
+                placeholderTextColor="#8E8E93"
+              />
+              <Text style={styles.dateSeparator}>–</Text>
+              <TextInput
+                style={[styles.textInput, styles.dateInput]}
+                value={draftFilters.appliedTo || ''}
+                onChangeText={(text) => setDraftFilters({ ...draftFilters, appliedTo: text })}
+                placeholder="To YYYY-MM-DD"
+                placeholderTextColor="#8E8E93"
+              />
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Salary</Text>
+            <View style={styles.chipRow}>
+              {SALARY_OPTIONS.map((option) =>
+                renderChip(option.label, draftFilters.salary === option.value, () =>
+                  setDraftFilters({ ...draftFilters, salary: option.value })
+                )
+              )}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Save as Preset</Text>
+            <View style={styles.presetRow}>
+              <TextInput
+                style={[styles.textInput, styles.presetInput]}
+                value={presetName}
+                onChangeText={setPresetName}
+                placeholder="e.g., Active interviews"
+                placeholderTextColor="#8E8E93"
+              />
+              <TouchableOpacity style={styles.presetSaveButton} onPress={handleSavePreset}>
+                <Ionicons name="bookmark" size={18} color="white" />
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <Text style={styles.resetButtonText}>Reset Filters</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  modalCancelButton: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  modalSaveButton: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 24,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  directionRow: {
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '500',
+  },
+  textInput: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1D1D1F',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  dateSeparator: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  presetInput: {
+    flex: 1,
+  },
+  presetSaveButton: {
+    backgroundColor: '#007AFF',
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  resetButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 40,
+  },
+  resetButtonText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,399 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import {
+  JobApplication,
+  JobApplicationCreate,
+  ApplicationStatus,
+  InterviewStage,
+  APPLICATION_STATUSES,
+  INTERVIEW_STAGES,
+} from '../types';
+
+// Editable fields shared by the add and edit application screens. Dates are
+// kept as YYYY-MM-DD strings while editing and converted on save.
+export interface ApplicationFormValues {
+  jobUrl: string;
+  jobTitle: string;
+  company: string;
+  location: string;
+  jobDescription: string;
+  salary: string;
+  dateApplied: string;
+  dateJobPosted: string;
+  applicationStatus: ApplicationStatus;
+  interviewStage: InterviewStage;
+  notes: string;
+  referredBy: string;
+  referralRelationship: string;
+  referralDate: string;
+  referralNotes: string;
+}
+
+const toDateInput = (value?: string) => (value ? value.split('T')[0] : '');
+
+const toIsoDate = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+export const emptyApplicationForm = (): ApplicationFormValues => ({
+  jobUrl: '',
+  jobTitle: '',
+  company: '',
+  location: '',
+  jobDescription: '',
+  salary: '',
+  dateApplied: new Date().toISOString().split('T')[0],
+  dateJobPosted: '',
+  applicationStatus: 'Applied',
+  interviewStage: 'None',
+  notes: '',
+  referredBy: '',
+  referralRelationship: '',
+  referralDate: '',
+  referralNotes: '',
+});
+
+export const applicationToFormValues = (application: JobApplication): ApplicationFormValues => ({
+  jobUrl: application.job_url || '',
+  jobTitle: application.job_title,
+  company: application.company,
+  location: application.location || '',
+  jobDescription: application.job_description || '',
+  salary: application.salary || '',
+  dateApplied: toDateInput(application.date_applied),
+  dateJobPosted: toDateInput(application.date_job_posted),
+  applicationStatus: application.application_status,
+  interviewStage: application.interview_stage,
+  notes: application.notes || '',
+  referredBy: application.referred_by || '',
+  referralRelationship: application.referral_relationship || '',
+  referralDate: toDateInput(application.referral_date),
+  referralNotes: application.referral_notes || '',
+});
+
+export const formValuesToApplication = (values: ApplicationFormValues): JobApplicationCreate => ({
+  job_title: values.jobTitle,
+  company: values.company,
+  job_description: values.jobDescription,
+  location: values.location,
+  salary: values.salary,
+  job_url: values.jobUrl,
+  date_applied: new Date(values.dateApplied).toISOString(),
+  date_job_posted: toIsoDate(values.dateJobPosted),
+  application_status: values.applicationStatus,
+  interview_stage: values.interviewStage,
+  notes: values.notes,
+  referred_by: values.referredBy || undefined,
+  referral_relationship: values.referralRelationship || undefined,
+  referral_date: toIsoDate(values.referralDate),
+  referral_notes: values.referralNotes || undefined,
+});
+
+// Returns a message describing the first invalid field, or null when the form can be saved
+export const validateApplicationForm = (values: ApplicationFormValues): string | null => {
+  if (!values.jobTitle.trim() || !values.company.trim()) {
+    return 'Job title and company are required';
+  }
+  for (const [label, value] of [
+    ['Date applied', values.dateApplied],
+    ['Date job posted', values.dateJobPosted],
+    ['Referral date', values.referralDate],
+  ]) {
+    if (value && Number.isNaN(new Date(value).getTime())) {
+      return `${label} must be a valid date (YYYY-MM-DD)`;
+    }
+  }
+  if (!values.dateApplied) {
+    return 'Date applied is required';
+  }
+  return null;
+};
+
+// Only the fields that changed. Optional fields that were cleared are sent as
+// null so the server blanks them instead of ignoring them.
+export const diffApplicationForm = (
+  initial: ApplicationFormValues,
+  current: ApplicationFormValues
+): Partial<JobApplicationCreate> => {
+  const before: Record<string, unknown> = { ...formValuesToApplication(initial) };
+  const after: Record<string, unknown> = { ...formValuesToApplication(current) };
+  const changes: Record<string, unknown> = {};
+  for (const field of Object.keys({ ...before, ...after })) {
+    if (before[field] !== after[field]) {
+      changes[field] = after[field] ?? null;
+    }
+  }
+  return changes as Partial<JobApplicationCreate>;
+};
+
+export const isApplicationFormDirty = (initial: ApplicationFormValues, current: ApplicationFormValues) =>
+  (Object.keys(initial) as (keyof ApplicationFormValues)[]).some((field) => initial[field] !== current[field]);
+
+interface ApplicationFormProps {
+  values: ApplicationFormValues;
+  onChange: <K extends keyof ApplicationFormValues>(field: K, value: ApplicationFormValues[K]) => void;
+  // The add screen shows the URL alongside its scraping controls instead
+  showJobUrl?: boolean;
+  // Rendered under the company field (e.g. matching existing companies)
+  companyHint?: React.ReactNode;
+}
+
+export default function ApplicationForm({ values, onChange, showJobUrl = true, companyHint }: ApplicationFormProps) {
+  return (
+    <>
+      {/* Basic Information */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Basic Information</Text>
+
+        <Text style={styles.label}>Job Title *</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., Senior Software Engineer"
+          value={values.jobTitle}
+          onChangeText={(text) => onChange('jobTitle', text)}
+        />
+
+        <Text style={styles.label}>Company *</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., Google"
+          value={values.company}
+          onChangeText={(text) => onChange('company', text)}
+        />
+        {companyHint}
+
+        <Text style={styles.label}>Location</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., San Francisco, CA"
+          value={values.location}
+          onChangeText={(text) => onChange('location', text)}
+        />
+
+        <Text style={styles.label}>Salary</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., $120,000 - $150,000"
+          value={values.salary}
+          onChangeText={(text) => onChange('salary', text)}
+        />
+
+        {showJobUrl && (
+          <>
+            <Text style={styles.label}>Job URL</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Link to the job posting"
+              value={values.jobUrl}
+              onChangeText={(text) => onChange('jobUrl', text)}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          </>
+        )}
+      </View>
+
+      {/* Dates */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Important Dates</Text>
+
+        <Text style={styles.label}>Date Applied *</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="YYYY-MM-DD"
+          value={values.dateApplied}
+          onChangeText={(text) => onChange('dateApplied', text)}
+        />
+
+        <Text style={styles.label}>Date Job Posted</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="YYYY-MM-DD (optional)"
+          value={values.dateJobPosted}
+          onChangeText={(text) => onChange('dateJobPosted', text)}
+        />
+      </View>
+
+      {/* Status */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Application Status</Text>
+
+        <Text style={styles.label}>Status</Text>
+        <View style={styles.pickerContainer}>
+          {APPLICATION_STATUSES.map((status) => (
+            <TouchableOpacity
+              key={status}
+              style={[
+                styles.statusChip,
+                values.applicationStatus === status && styles.statusChipSelected
+              ]}
+              onPress={() => onChange('applicationStatus', status)}
+            >
+              <Text style={[
+                styles.statusChipText,
+                values.applicationStatus === status && styles.statusChipTextSelected
+              ]}>
+                {status}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Interview Stage</Text>
+        <View style={styles.pickerContainer}>
+          {INTERVIEW_STAGES.map((stage) => (
+            <TouchableOpacity
+              key={stage}
+              style={[
+                styles.statusChip,
+                values.interviewStage === stage && styles.statusChipSelected
+              ]}
+              onPress={() => onChange('interviewStage', stage)}
+            >
+              <Text style={[
+                styles.statusChipText,
+                values.interviewStage === stage && styles.statusChipTextSelected
+              ]}>
+                {stage}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Referral Information */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Referral Information</Text>
+
+        <Text style={styles.label}>Referred By</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Name of person who referred you"
+          value={values.referredBy}
+          onChangeText={(text) => onChange('referredBy', text)}
+        />
+
+        <Text style={styles.label}>Relationship</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="e.g., Former colleague, Friend"
+          value={values.referralRelationship}
+          onChangeText={(text) => onChange('referralRelationship', text)}
+        />
+
+        <Text style={styles.label}>Referral Date</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="YYYY-MM-DD (optional)"
+          value={values.referralDate}
+          onChangeText={(text) => onChange('referralDate', text)}
+        />
+
+        <Text style={styles.label}>Referral Notes</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          placeholder="Additional notes about the referral"
+          value={values.referralNotes}
+          onChangeText={(text) => onChange('referralNotes', text)}
+          multiline
+          numberOfLines={3}
+        />
+      </View>
+
+      {/* Job Description */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Job Description</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          placeholder="Paste or type the job description here..."
+          value={values.jobDescription}
+          onChangeText={(text) => onChange('jobDescription', text)}
+          multiline
+          numberOfLines={8}
+          textAlignVertical="top"
+        />
+      </View>
+
+      {/* Notes */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Notes</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          placeholder="Any additional notes about this application..."
+          value={values.notes}
+          onChangeText={(text) => onChange('notes', text)}
+          multiline
+          numberOfLines={4}
+          textAlignVertical="top"
+        />
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: 'white',
+    margin: 20,
+    marginBottom: 10,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1D1D1F',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  input: {
+    height: 50,
+    borderColor: '#E5E5E5',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    color: '#1D1D1F',
+  },
+  textArea: {
+    height: 120,
+    paddingTop: 12,
+    paddingBottom: 12,
+  },
+  pickerContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  statusChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  statusChipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  statusChipText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  statusChipTextSelected: {
+    color: 'white',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,174 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TimelineEntry, TimelineEntryKind, formatDuration } from '../utils/applicationTimeline';
+import { FollowUp } from '../types';
+
+interface ApplicationTimelineProps {
+  entries: TimelineEntry[];
+  // Follow-up entries become tappable when given, e.g. to edit or complete them
+  onPressFollowUp?: (followUp: FollowUp) => void;
+}
+
+const KIND_ICONS: Record<TimelineEntryKind, keyof typeof Ionicons.glyphMap> = {
+  applied: 'paper-plane',
+  status: 'flag',
+  stage: 'people',
+  follow_up: 'chatbubble-ellipses',
+};
+
+const KIND_COLORS: Record<TimelineEntryKind, string> = {
+  applied: '#007AFF',
+  status: '#FF9500',
+  stage: '#5856D6',
+  follow_up: '#34C759',
+};
+
+const getFollowUpStatusColor = (status: string) => {
+  switch (status?.toLowerCase()) {
+    case 'completed': return '#4CAF50';
+    case 'cancelled': return '#FF3B30';
+    case 'rescheduled': return '#8E8E93';
+    default: return '#FF9500';
+  }
+};
+
+const formatDate = (dateString: string) => {
+  if (!dateString) return 'No date';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
+
+// Vertical timeline of an application's status changes and follow-ups
+export default function ApplicationTimeline({ entries, onPressFollowUp }: ApplicationTimelineProps) {
+  return (
+    <View>
+      {entries.map((entry, index) => {
+        const isLast = index === entries.length - 1;
+        const followUp = entry.followUp;
+
+        return (
+          <View key={entry.key} style={styles.entry}>
+            <View style={styles.rail}>
+              <View style={[styles.dot, { backgroundColor: KIND_COLORS[entry.kind] }]}>
+                <Ionicons name={KIND_ICONS[entry.kind]} size={12} color="white" />
+              </View>
+              {!isLast && <View style={styles.line} />}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.body, isLast && styles.bodyLast]}
+              disabled={!followUp || !onPressFollowUp}
+              onPress={() => followUp && onPressFollowUp?.(followUp)}
+              activeOpacity={0.6}
+            >
+              <View style={styles.entryHeader}>
+                <Text style={styles.entryTitle}>{entry.title}</Text>
+                {followUp && (
+                  <View style={[styles.followUpStatus, { backgroundColor: getFollowUpStatusColor(followUp.status) }]}>
+                    <Text style={styles.followUpStatusText}>{followUp.status}</Text>
+                  </View>
+                )}
+              </View>
+
+              <Text style={styles.entryMeta}>
+                {entry.detail ? `${entry.detail} • ` : ''}{formatDate(entry.date)}
+                {entry.daysSincePrevious !== undefined && ` • ${formatDuration(entry.daysSincePrevious)}`}
+              </Text>
+
+              {followUp?.description && (
+                <Text style={styles.followUpDescription}>{followUp.description}</Text>
+              )}
+              {followUp?.outcome && (
+                <Text style={styles.followUpOutcome}>Outcome: {followUp.outcome}</Text>
+              )}
+              {followUp?.notes && (
+                <Text style={styles.followUpNotes}>{followUp.notes}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  entry: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 24,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#E5E5E5',
+    marginVertical: 2,
+  },
+  body: {
+    flex: 1,
+    marginLeft: 12,
+    paddingBottom: 20,
+  },
+  bodyLast: {
+    paddingBottom: 0,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    minHeight: 24,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    flex: 1,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  followUpStatus: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginLeft: 8,
+  },
+  followUpStatusText: {
+    color: 'white',
+    fontSize: 10,
+    fontWeight: '600',
+  },
+  followUpDescription: {
+    fontSize: 14,
+    color: '#1D1D1F',
+    marginBottom: 4,
+    lineHeight: 20,
+  },
+  followUpOutcome: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  followUpNotes: {
+    fontSize: 14,
+    color: '#8E8E93',
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,273 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { CalendarEvent, Task } from '../types';
+import { getEventColor, getTaskColor, layoutDay, tasksOnDay, toDayKey } from '../utils/calendarViews';
+
+interface CalendarTimelineProps {
+  // One day for the day view, seven for the week view
+  days: Date[];
+  events: CalendarEvent[];
+  tasks: Task[];
+  onPressDay?: (day: Date) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const GUTTER_WIDTH = 44;
+
+const formatHour = (hour: number) => {
+  if (hour === 0) return '12 AM';
+  if (hour < 12) return `${hour} AM`;
+  if (hour === 12) return '12 PM';
+  return `${hour - 12} PM`;
+};
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+// Hour grid with events placed by their start and end times. All-day events
+// and tasks due that day sit in a row above the grid.
+export default function CalendarTimeline({ days, events, tasks, onPressDay }: CalendarTimelineProps) {
+  const compact = days.length > 1;
+  const hourHeight = compact ? 40 : 56;
+  const todayKey = toDayKey(new Date());
+  const layouts = days.map((day) => layoutDay(events, day));
+  const now = new Date();
+  const nowTop = ((now.getHours() * 60 + now.getMinutes()) / 60) * hourHeight;
+
+  return (
+    <View style={styles.container}>
+      {compact && (
+        <View style={styles.dayHeaderRow}>
+          <View style={{ width: GUTTER_WIDTH }} />
+          {days.map((day) => {
+            const isToday = toDayKey(day) === todayKey;
+            return (
+              <TouchableOpacity
+                key={toDayKey(day)}
+                style={styles.dayHeader}
+                onPress={() => onPressDay?.(day)}
+                disabled={!onPressDay}
+              >
+                <Text style={styles.dayHeaderWeekday}>
+                  {day.toLocaleDateString('en-US', { weekday: 'short' })}
+                </Text>
+                <View style={[styles.dayHeaderDate, isToday && styles.dayHeaderDateToday]}>
+                  <Text style={[styles.dayHeaderDateText, isToday && styles.dayHeaderDateTextToday]}>
+                    {day.getDate()}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {/* All-day row */}
+      <View style={styles.allDayRow}>
+        <Text style={[styles.gutterLabel, styles.allDayLabel, { width: GUTTER_WIDTH }]}>all-day</Text>
+        {days.map((day, index) => (
+          <View key={toDayKey(day)} style={styles.allDayColumn}>
+            {layouts[index].allDay.map((event) => (
+              <View key={`event-${event.id}`} style={[styles.allDayItem, { backgroundColor: getEventColor(event.event_type) }]}>
+                <Text style={styles.allDayText} numberOfLines={1}>
+                  {event.title}
+                </Text>
+              </View>
+            ))}
+            {tasksOnDay(tasks, day).map((task) => (
+              <View key={`task-${task.id}`} style={[styles.allDayItem, styles.taskItem, { borderColor: getTaskColor(task.priority) }]}>
+                <Text
+                  style={[styles.taskText, task.status === 'completed' && styles.taskTextCompleted]}
+                  numberOfLines={1}
+                >
+                  {task.title}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ))}
+      </View>
+
+      {/* Hour grid */}
+      <View style={styles.grid}>
+        <View style={{ width: GUTTER_WIDTH }}>
+          {HOURS.map((hour) => (
+            <View key={hour} style={{ height: hourHeight }}>
+              <Text style={styles.gutterLabel}>{formatHour(hour)}</Text>
+            </View>
+          ))}
+        </View>
+
+        {days.map((day, index) => (
+          <View key={toDayKey(day)} style={[styles.dayColumn, { height: hourHeight * 24 }]}>
+            {HOURS.map((hour) => (
+              <View key={hour} style={[styles.hourLine, { top: hour * hourHeight }]} />
+            ))}
+
+            {layouts[index].timed.map(({ event, startMinute, endMinute, column, columns }) => (
+              <View
+                key={`event-${event.id}`}
+                style={[
+                  styles.eventBlock,
+                  {
+                    top: (startMinute / 60) * hourHeight,
+                    height: Math.max(((endMinute - startMinute) / 60) * hourHeight - 2, 16),
+                    left: `${(column / columns) * 100}%`,
+                    width: `${100 / columns}%`,
+                    backgroundColor: getEventColor(event.event_type),
+                  },
+                ]}
+              >
+                <Text style={styles.eventTitle} numberOfLines={compact ? 2 : 1}>
+                  {event.title}
+                </Text>
+                {!compact && (
+                  <Text style={styles.eventTime} numberOfLines={1}>
+                    {formatTime(event.start_datetime)}
+                    {event.end_datetime ? ` – ${formatTime(event.end_datetime)}` : ''}
+                    {event.location ? ` • ${event.location}` : ''}
+                  </Text>
+                )}
+              </View>
+            ))}
+
+            {toDayKey(day) === todayKey && <View style={[styles.nowLine, { top: nowTop }]} />}
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+    marginHorizontal: 20,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingRight: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  dayHeaderRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dayHeaderWeekday: {
+    fontSize: 12,
+    color: '#8E8E93',
+    fontWeight: '600',
+  },
+  dayHeaderDate: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  dayHeaderDateToday: {
+    backgroundColor: '#007AFF',
+  },
+  dayHeaderDateText: {
+    fontSize: 15,
+    color: '#1D1D1F',
+    fontWeight: '500',
+  },
+  dayHeaderDateTextToday: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  allDayRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+    paddingBottom: 8,
+    minHeight: 28,
+  },
+  allDayColumn: {
+    flex: 1,
+    paddingHorizontal: 1,
+    gap: 2,
+  },
+  allDayItem: {
+    borderRadius: 4,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+  },
+  allDayText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  taskItem: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+  },
+  taskText: {
+    color: '#1D1D1F',
+    fontSize: 11,
+  },
+  taskTextCompleted: {
+    textDecorationLine: 'line-through',
+    color: '#8E8E93',
+  },
+  gutterLabel: {
+    fontSize: 10,
+    color: '#8E8E93',
+    textAlign: 'right',
+    paddingRight: 6,
+    marginTop: -6,
+  },
+  allDayLabel: {
+    marginTop: 2,
+  },
+  grid: {
+    flexDirection: 'row',
+    paddingTop: 8,
+  },
+  dayColumn: {
+    flex: 1,
+    borderLeftWidth: 1,
+    borderLeftColor: '#F2F2F7',
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  eventBlock: {
+    position: 'absolute',
+    borderRadius: 4,
+    padding: 3,
+    borderWidth: 1,
+    borderColor: 'white',
+    overflow: 'hidden',
+  },
+  eventTitle: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  eventTime: {
+    color: 'white',
+    fontSize: 11,
+    marginTop: 1,
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    backgroundColor: '#FF3B30',
+  },
+});
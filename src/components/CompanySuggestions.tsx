@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { findCompanyMatches, findExactCompany } from '../utils/companyMatching';
+import { Company } from '../types';
+
+interface CompanySuggestionsProps {
+  name: string;
+  companies: Company[];
+  onSelect: (company: Company) => void;
+}
+
+// Shown under the company field: which existing company the application will
+// be filed under, or close matches the user may have meant
+export default function CompanySuggestions({ name, companies, onSelect }: CompanySuggestionsProps) {
+  if (name.trim().length < 2) return null;
+
+  const exact = findExactCompany(name, companies);
+  if (exact) {
+    return (
+      <View style={styles.linkedRow}>
+        <Ionicons name="business" size={14} color="#34C759" />
+        <Text style={styles.linkedText}>Will be filed under {exact.name}</Text>
+      </View>
+    );
+  }
+
+  const matches = findCompanyMatches(name, companies);
+  if (matches.length === 0) {
+    return <Text style={styles.newText}>New company</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.prompt}>Did you mean</Text>
+      <View style={styles.chipRow}>
+        {matches.map(({ company }) => (
+          <TouchableOpacity key={company.id} style={styles.chip} onPress={() => onSelect(company)}>
+            <Ionicons name="business-outline" size={12} color="#007AFF" />
+            <Text style={styles.chipText}>{company.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  prompt: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  linkedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 8,
+  },
+  linkedText: {
+    fontSize: 12,
+    color: '#34C759',
+    fontWeight: '500',
+  },
+  newText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  KeyboardTypeOptions,
+} from 'react-native';
+import { Contact, ContactCreate } from '../types';
+
+interface ContactFormModalProps {
+  visible: boolean;
+  // Editing when set, otherwise creating a new contact
+  contact?: Contact | null;
+  onSave: (values: ContactCreate) => void;
+  onClose: () => void;
+}
+
+type ContactField = Exclude<keyof ContactCreate, 'interactions'>;
+
+const FIELDS: {
+  key: ContactField;
+  label: string;
+  placeholder: string;
+  keyboardType?: KeyboardTypeOptions;
+}[] = [
+  { key: 'name', label: 'Name *', placeholder: 'e.g., Jane Smith' },
+  { key: 'company', label: 'Company', placeholder: 'e.g., Google' },
+  { key: 'role', label: 'Role', placeholder: 'e.g., Engineering Manager' },
+  { key: 'email', label: 'Email', placeholder: 'jane@example.com', keyboardType: 'email-address' },
+  { key: 'phone', label: 'Phone', placeholder: '+1 555 123 4567', keyboardType: 'phone-pad' },
+  { key: 'linkedin_url', label: 'LinkedIn', placeholder: 'https://linkedin.com/in/...', keyboardType: 'url' },
+  { key: 'relationship', label: 'Relationship', placeholder: 'e.g., Former colleague' },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const toValues = (contact?: Contact | null): Record<ContactField, string> => ({
+  name: contact?.name || '',
+  company: contact?.company || '',
+  role: contact?.role || '',
+  email: contact?.email || '',
+  phone: contact?.phone || '',
+  linkedin_url: contact?.linkedin_url || '',
+  relationship: contact?.relationship || '',
+});
+
+export default function ContactFormModal({ visible, contact, onSave, onClose }: ContactFormModalProps) {
+  const [values, setValues] = useState(toValues(contact));
+
+  useEffect(() => {
+    if (visible) setValues(toValues(contact));
+  }, [visible]);
+
+  const handleSave = () => {
+    if (!values.name.trim()) {
+      Alert.alert('Error', 'Name is required');
+      return;
+    }
+    if (values.email.trim() && !EMAIL_PATTERN.test(values.email.trim())) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+
+    // New contacts leave blank fields out; edits send them empty so the old value is cleared
+    const trimmed = Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [key, contact ? value.trim() : value.trim() || undefined])
+    ) as Record<ContactField, string | undefined>;
+    onSave({ ...trimmed, name: values.name.trim() });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{contact ? 'Edit Contact' : 'New Contact'}</Text>
+          <TouchableOpacity onPress={handleSave}>
+            <Text style={styles.modalSaveButton}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.modalContent}>
+          {FIELDS.map((field) => (
+            <View key={field.key} style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>{field.label}</Text>
+              <TextInput
+                style={styles.textInput}
+                value={values[field.key]}
+                onChangeText={(text) => setValues({ ...values, [field.key]: text })}
+                placeholder={field.placeholder}
+                placeholderTextColor="#8E8E93"
+                keyboardType={field.keyboardType}
+                autoCapitalize={field.keyboardType ? 'none' : 'words'}
+              />
+            </View>
+          ))}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  modalCancelButton: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  modalSaveButton: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 24,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#1D1D1F',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+});
@@ -0,0 +1,204 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, SafeAreaView, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DuplicateMatch } from '../utils/duplicateDetection';
+import { getStatusColor } from '../utils/applicationStatus';
+import { JobApplication } from '../types';
+
+interface DuplicateApplicationModalProps {
+  matches: DuplicateMatch[];
+  onOpen: (application: JobApplication) => void;
+  onMerge: (application: JobApplication) => void;
+  onSaveAnyway: () => void;
+  onClose: () => void;
+}
+
+const REASON_LABELS = {
+  url: 'Same job posting URL',
+  similar: 'Similar title at the same company',
+};
+
+export default function DuplicateApplicationModal({
+  matches,
+  onOpen,
+  onMerge,
+  onSaveAnyway,
+  onClose,
+}: DuplicateApplicationModalProps) {
+  return (
+    <Modal visible={matches.length > 0} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Possible Duplicate</Text>
+          <TouchableOpacity onPress={onSaveAnyway}>
+            <Text style={styles.modalSaveButton}>Save Anyway</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.modalContent}>
+          <View style={styles.warning}>
+            <Ionicons name="copy-outline" size={20} color="#FF9500" />
+            <Text style={styles.warningText}>
+              {matches.length === 1
+                ? 'This looks like an application you already added.'
+                : `This looks like ${matches.length} applications you already added.`}
+            </Text>
+          </View>
+
+          {matches.map(({ application, reason }) => (
+            <View key={application.id} style={styles.card}>
+              <View style={styles.cardHeader}>
+                <View style={styles.cardInfo}>
+                  <Text style={styles.jobTitle}>{application.job_title}</Text>
+                  <Text style={styles.company}>{application.company}</Text>
+                </View>
+                <View style={[styles.statusBadge, { backgroundColor: getStatusColor(application.application_status) }]}>
+                  <Text style={styles.statusText}>{application.application_status}</Text>
+                </View>
+              </View>
+              <Text style={styles.meta}>
+                {REASON_LABELS[reason]} • Applied {new Date(application.date_applied).toLocaleDateString()}
+              </Text>
+
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => onOpen(application)}>
+                  <Ionicons name="open-outline" size={16} color="#007AFF" />
+                  <Text style={styles.actionText}>Open</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => onMerge(application)}>
+                  <Ionicons name="git-merge-outline" size={16} color="#007AFF" />
+                  <Text style={styles.actionText}>Merge</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ))}
+
+          <Text style={styles.hint}>
+            Merge fills in anything the existing application is missing and adds your notes to it.
+          </Text>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  modalCancelButton: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  modalSaveButton: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1D1D1F',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  jobTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  company: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  actionText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 40,
+  },
+});
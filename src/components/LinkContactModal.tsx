@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { contactsRepository } from '../services/repositories';
+import { CONTACT_LINK_ROLES, Contact, ContactLinkRole } from '../types';
+
+interface LinkContactModalProps {
+  visible: boolean;
+  // Contacts already linked to the application are left out of the list
+  excludedContactIds: number[];
+  onLink: (contact: Contact, role: ContactLinkRole) => void;
+  onClose: () => void;
+}
+
+export default function LinkContactModal({ visible, excludedContactIds, onLink, onClose }: LinkContactModalProps) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [role, setRole] = useState<ContactLinkRole>('Referrer');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setSearchQuery('');
+    setSelectedId(null);
+    contactsRepository
+      .getAll()
+      .catch(() => contactsRepository.getCached())
+      .then(setContacts);
+  }, [visible]);
+
+  const visibleContacts = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return contacts
+      .filter((contact) => !excludedContactIds.includes(contact.id))
+      .filter(
+        (contact) =>
+          !query ||
+          contact.name.toLowerCase().includes(query) ||
+          (contact.company ?? '').toLowerCase().includes(query)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [contacts, searchQuery, excludedContactIds]);
+
+  const exactMatch = contacts.some((contact) => contact.name.toLowerCase() === searchQuery.trim().toLowerCase());
+
+  const handleLink = () => {
+    const contact = contacts.find((candidate) => candidate.id === selectedId);
+    if (!contact) {
+      Alert.alert('Error', 'Please choose a contact');
+      return;
+    }
+    onLink(contact, role);
+  };
+
+  // Quick path for someone who isn't in the contact list yet
+  const handleCreate = async () => {
+    try {
+      const contact = await contactsRepository.create({ name: searchQuery.trim(), interactions: [] });
+      onLink(contact, role);
+    } catch (error) {
+      console.error('Error creating contact:', error);
+      Alert.alert('Error', 'Failed to create contact');
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Link Contact</Text>
+          <TouchableOpacity onPress={handleLink}>
+            <Text style={styles.modalSaveButton}>Link</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Role</Text>
+            <View style={styles.chipRow}>
+              {CONTACT_LINK_ROLES.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, role === option && styles.chipSelected]}
+                  onPress={() => setRole(option)}
+                >
+                  <Text style={[styles.chipText, role === option && styles.chipTextSelected]}>{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Contact</Text>
+            <TextInput
+              style={styles.textInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder="Search or type a new name"
+              placeholderTextColor="#8E8E93"
+              autoCorrect={false}
+            />
+
+            {!!searchQuery.trim() && !exactMatch && (
+              <TouchableOpacity style={styles.contactRow} onPress={handleCreate}>
+                <Ionicons name="person-add-outline" size={20} color="#007AFF" />
+                <Text style={styles.createText}>Add "{searchQuery.trim()}" as a new contact</Text>
+              </TouchableOpacity>
+            )}
+
+            {visibleContacts.map((contact) => {
+              const selected = contact.id === selectedId;
+              return (
+                <TouchableOpacity
+                  key={contact.id}
+                  style={[styles.contactRow, selected && styles.contactRowSelected]}
+                  onPress={() => setSelectedId(contact.id)}
+                >
+                  <Ionicons
+                    name={selected ? 'checkmark-circle' : 'person-circle-outline'}
+                    size={20}
+                    color={selected ? '#007AFF' : '#8E8E93'}
+                  />
+                  <View style={styles.contactInfo}>
+                    <Text style={styles.contactName}>{contact.name}</Text>
+                    {!!contact.company && <Text style={styles.contactCompany}>{contact.company}</Text>}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  modalCancelButton: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  modalSaveButton: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 24,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '500',
+  },
+  textInput: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#1D1D1F',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: 8,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  contactRowSelected: {
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  contactInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  contactName: {
+    fontSize: 16,
+    color: '#1D1D1F',
+    fontWeight: '500',
+  },
+  contactCompany: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  createText: {
+    fontSize: 15,
+    color: '#007AFF',
+    marginLeft: 10,
+  },
+});
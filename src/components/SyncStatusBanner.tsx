@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useSync } from '../contexts/SyncContext';
+import { RootStackParamList } from '../types';
+
+// Shown at the top of list screens while offline, while changes are waiting
+// to sync, or when an edit clashed with a change made on the web
+export default function SyncStatusBanner() {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const { isOnline, isSyncing, pendingCount, conflicts, syncNow } = useSync();
+
+  if (conflicts.length > 0) {
+    return (
+      <TouchableOpacity
+        style={[styles.banner, styles.bannerConflict]}
+        onPress={() => navigation.navigate('ResolveConflict', { conflictId: conflicts[0].id })}
+      >
+        <Ionicons name="git-compare-outline" size={16} color="white" />
+        <Text style={styles.bannerText}>
+          {conflicts.length} edit{conflicts.length !== 1 ? 's' : ''} clashed with changes made elsewhere
+        </Text>
+        <Text style={styles.syncButtonText}>Review</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  if (isOnline && pendingCount === 0) return null;
+
+  const message = !isOnline
+    ? `Offline${pendingCount > 0 ? ` • ${pendingCount} change${pendingCount !== 1 ? 's' : ''} waiting to sync` : ' • showing saved data'}`
+    : `${pendingCount} change${pendingCount !== 1 ? 's' : ''} waiting to sync`;
+
+  return (
+    <View style={[styles.banner, !isOnline && styles.bannerOffline]}>
+      <Ionicons name={isOnline ? 'cloud-upload-outline' : 'cloud-offline-outline'} size={16} color="white" />
+      <Text style={styles.bannerText}>{message}</Text>
+      {isOnline && (
+        <TouchableOpacity onPress={syncNow} disabled={isSyncing} style={styles.syncButton}>
+          {isSyncing ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.syncButtonText}>Sync now</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FF9500',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  bannerOffline: {
+    backgroundColor: '#8E8E93',
+  },
+  bannerConflict: {
+    backgroundColor: '#FF3B30',
+  },
+  bannerText: {
+    flex: 1,
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  syncButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  syncButtonText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+});
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { undoStore, UndoAction } from '../services/undo';
+
+// Floating "Deleted · Undo" bar shown above every screen while an undoable
+// action is still within its window
+export default function UndoToast() {
+  const [action, setAction] = useState<UndoAction | null>(undoStore.getCurrent());
+
+  useEffect(() => undoStore.subscribe(setAction), []);
+
+  if (!action) return null;
+
+  const handleUndo = async () => {
+    try {
+      await undoStore.undo(action.id);
+    } catch (error) {
+      console.error('Error undoing action:', error);
+    }
+  };
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.toast}>
+        <Ionicons name="trash-outline" size={18} color="white" />
+        <Text style={styles.message} numberOfLines={2}>{action.message}</Text>
+        <TouchableOpacity onPress={handleUndo} style={styles.undoButton}>
+          <Text style={styles.undoText}>Undo</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 80,
+    alignItems: 'center',
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1D1D1F',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginHorizontal: 20,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    color: 'white',
+    fontSize: 14,
+  },
+  undoButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  undoText: {
+    color: '#0A84FF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -1,5 +1,6 @@
-import React, { createContext, useContext, useEffect, useState } from 'react'
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react'
 import { User } from '@supabase/supabase-js'
+import { claimOfflineData, clearOfflineData } from '../services/repositories'
 import { supabase, signInWithEmail, signUpWithEmail, signOut, getCurrentUser, onAuthStateChange } from '../lib/supabase'
 
 interface AuthContextType {
@@ -29,19 +30,34 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null)
   const [loading, setLoading] = useState(true)
+  // Set while the user is signing out themselves, as opposed to the session expiring
+  const signingOut = useRef(false)
 
   useEffect(() => {
-    // Get initial user
-    getCurrentUser().then(({ user }) => {
-      setUser(user)
+    // Offline data is checked against the user before anything can sync it
+    const applyUser = async (nextUser: User | null) => {
+      if (nextUser) {
+        await claimOfflineData(nextUser.id).catch((error) => console.error('Error checking offline data:', error))
+      }
+      setUser(nextUser)
       setLoading(false)
-    })
+    }
+
+    // Get initial user
+    getCurrentUser().then(({ user }) => applyUser(user))
 
     // Listen for auth changes
     const { data: { subscription } } = onAuthStateChange((event, session) => {
       console.log('Auth state changed:', event, session?.user?.email)
-      setUser(session?.user ?? null)
-      setLoading(false)
+      applyUser(session?.user ?? null)
+      if (event === 'SIGNED_OUT' && signingOut.current) {
+        // Don't let one account's offline data show up for the next
+        signingOut.current = false
+        clearOfflineData()
+      } else if (event === 'SIGNED_OUT') {
+        // Unsent changes are kept for when the same user signs back in
+        console.log('🔒 Session ended, keeping offline changes until the next sign-in')
+      }
     })
 
     return () => subscription.unsubscribe()
@@ -64,8 +80,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   }
 
   const handleSignOut = async () => {
+    signingOut.current = true
     const { error } = await signOut()
     if (error) {
+      signingOut.current = false
       console.error('Error signing out:', error)
     }
     return { error }
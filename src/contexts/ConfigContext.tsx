@@ -0,0 +1,70 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { View, ActivityIndicator } from 'react-native';
+import {
+  BackendEnvironment,
+  getActiveEnvironment,
+  isSameEnvironment,
+  loadActiveEnvironment,
+  setActiveEnvironment,
+} from '../lib/config';
+import { supabase } from '../lib/supabase';
+import { clearOfflineData } from '../services/repositories';
+
+interface ConfigContextType {
+  environment: BackendEnvironment;
+  switchEnvironment: (env: BackendEnvironment) => Promise<void>;
+}
+
+const ConfigContext = createContext<ConfigContextType | undefined>(undefined);
+
+export const useConfig = () => {
+  const context = useContext(ConfigContext);
+  if (context === undefined) {
+    throw new Error('useConfig must be used within a ConfigProvider');
+  }
+  return context;
+};
+
+interface ConfigProviderProps {
+  children: React.ReactNode;
+}
+
+export const ConfigProvider: React.FC<ConfigProviderProps> = ({ children }) => {
+  const [environment, setEnvironment] = useState<BackendEnvironment>(getActiveEnvironment());
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    // Nothing talks to the backend until the saved environment is restored
+    loadActiveEnvironment().then((env) => {
+      setEnvironment(env);
+      setReady(true);
+    });
+  }, []);
+
+  const switchEnvironment = async (env: BackendEnvironment) => {
+    if (isSameEnvironment(env, environment)) return;
+
+    // A session from one Supabase project is meaningless in another
+    if (env.supabaseUrl !== environment.supabaseUrl) {
+      await supabase.auth.signOut();
+    }
+    // Cached records and queued edits belong to the old backend
+    await clearOfflineData();
+    await setActiveEnvironment(env);
+    setEnvironment(env);
+  };
+
+  if (!ready) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#F2F2F7' }}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <ConfigContext.Provider value={{ environment, switchEnvironment }}>
+      {children}
+    </ConfigContext.Provider>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { syncQueue } from '../services/syncQueue';
+import { conflictsStore, SyncConflict } from '../services/conflicts';
+
+interface SyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  syncNow: () => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const useSync = () => {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
+
+interface SyncProviderProps {
+  children: React.ReactNode;
+}
+
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children }) => {
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const wasOnline = useRef(true);
+
+  const syncNow = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      await syncQueue.flush();
+    } catch (error) {
+      console.error('Error syncing queued changes:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    syncQueue.getPending().then((pending) => setPendingCount(pending.length));
+    const unsubscribeQueue = syncQueue.subscribe(setPendingCount);
+    conflictsStore.getAll().then(setConflicts);
+    const unsubscribeConflicts = conflictsStore.subscribe(setConflicts);
+
+    // Replay the outbox as soon as connectivity comes back
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      const online = !!state.isConnected && state.isInternetReachable !== false;
+      if (online && !wasOnline.current) {
+        console.log('📶 Back online, syncing queued changes...');
+        syncNow();
+      }
+      wasOnline.current = online;
+      setIsOnline(online);
+    });
+
+    // ...and whenever the app returns to the foreground
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        syncNow();
+      }
+    });
+
+    syncNow();
+
+    return () => {
+      unsubscribeQueue();
+      unsubscribeConflicts();
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+    };
+  }, [syncNow]);
+
+  const value = {
+    isOnline,
+    isSyncing,
+    pendingCount,
+    conflicts,
+    syncNow,
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+};
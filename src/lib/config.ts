@@ -0,0 +1,123 @@
+import Constants from 'expo-constants'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import axios from 'axios'
+
+// Backend environments (API + Supabase project). Presets come from Expo
+// config `extra.environments` (see app.config.js); the selected one - or a
+// custom one entered in Developer Settings - is persisted across launches.
+export type EnvironmentId = 'dev' | 'staging' | 'prod' | 'custom'
+
+export interface BackendEnvironment {
+  id: EnvironmentId
+  label: string
+  apiUrl: string
+  supabaseUrl: string
+  supabaseAnonKey: string
+}
+
+export interface HealthCheckResult {
+  reachable: boolean
+  status?: number
+  latencyMs: number
+  error?: string
+}
+
+type PresetConfig = Omit<BackendEnvironment, 'id'>
+
+const ACTIVE_ENVIRONMENT_KEY = '@jobtracker/environment'
+const CUSTOM_ENVIRONMENT_KEY = '@jobtracker/environment/custom'
+const PRESET_IDS: EnvironmentId[] = ['dev', 'staging', 'prod']
+
+const extra = (Constants.expoConfig?.extra ?? {}) as {
+  defaultEnvironment?: EnvironmentId
+  environments?: Partial<Record<EnvironmentId, PresetConfig>>
+}
+
+// Presets without an API URL aren't set up on this machine, so they aren't offered
+export const getPresetEnvironments = (): BackendEnvironment[] => {
+  return PRESET_IDS
+    .map((id) => ({ id, ...extra.environments?.[id] }))
+    .filter((env): env is BackendEnvironment => !!env.apiUrl && !!env.supabaseUrl && !!env.supabaseAnonKey)
+}
+
+const getDefaultEnvironment = (): BackendEnvironment => {
+  const presets = getPresetEnvironments()
+  const preferred = presets.find((env) => env.id === extra.defaultEnvironment) ?? presets[0]
+  if (!preferred) {
+    throw new Error('No backend environment configured. Check extra.environments in app.config.js')
+  }
+  return preferred
+}
+
+let activeEnvironment: BackendEnvironment = getDefaultEnvironment()
+const listeners = new Set<(env: BackendEnvironment) => void>()
+
+export const getActiveEnvironment = () => activeEnvironment
+
+export const onEnvironmentChange = (listener: (env: BackendEnvironment) => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const isSameEnvironment = (a: BackendEnvironment, b: BackendEnvironment) =>
+  a.id === b.id && a.apiUrl === b.apiUrl && a.supabaseUrl === b.supabaseUrl && a.supabaseAnonKey === b.supabaseAnonKey
+
+const applyEnvironment = (env: BackendEnvironment) => {
+  activeEnvironment = env
+  listeners.forEach((listener) => listener(env))
+}
+
+// Restore the environment chosen on a previous launch
+export const loadActiveEnvironment = async () => {
+  try {
+    const raw = await AsyncStorage.getItem(ACTIVE_ENVIRONMENT_KEY)
+    if (raw) {
+      const saved: BackendEnvironment = JSON.parse(raw)
+      // A preset is re-read from config so edits to app.config.js take effect
+      const env = saved.id === 'custom' ? saved : getPresetEnvironments().find((preset) => preset.id === saved.id)
+      if (env && !isSameEnvironment(env, activeEnvironment)) {
+        applyEnvironment(env)
+      }
+    }
+  } catch (error) {
+    console.error('Error loading saved environment:', error)
+  }
+  return activeEnvironment
+}
+
+export const setActiveEnvironment = async (env: BackendEnvironment) => {
+  await AsyncStorage.setItem(ACTIVE_ENVIRONMENT_KEY, JSON.stringify(env))
+  if (env.id === 'custom') {
+    // Remembered separately so it can be re-selected after switching to a preset
+    await AsyncStorage.setItem(CUSTOM_ENVIRONMENT_KEY, JSON.stringify(env))
+  }
+  applyEnvironment(env)
+}
+
+export const getSavedCustomEnvironment = async (): Promise<BackendEnvironment | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(CUSTOM_ENVIRONMENT_KEY)
+    return raw ? JSON.parse(raw) : null
+  } catch (error) {
+    console.error('Error loading custom environment:', error)
+    return null
+  }
+}
+
+const ping = async (url: string, headers?: Record<string, string>): Promise<HealthCheckResult> => {
+  const startedAt = Date.now()
+  try {
+    // Any HTTP response (even a 404) means the server is up and reachable
+    const response = await axios.get(url, { timeout: 5000, headers, validateStatus: () => true })
+    return { reachable: true, status: response.status, latencyMs: Date.now() - startedAt }
+  } catch (error: any) {
+    return { reachable: false, latencyMs: Date.now() - startedAt, error: error.message }
+  }
+}
+
+export const checkApiHealth = (env: BackendEnvironment) => ping(env.apiUrl)
+
+export const checkSupabaseHealth = (env: BackendEnvironment) =>
+  ping(`${env.supabaseUrl.replace(/\/$/, '')}/auth/v1/health`, { apikey: env.supabaseAnonKey })
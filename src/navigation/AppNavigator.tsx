@@ -1,23 +1,43 @@
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useState } from 'react';
+import { NavigationContainer, LinkingOptions, createNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
-import { View, ActivityIndicator } from 'react-native';
+import * as Linking from 'expo-linking';
+import * as Notifications from 'expo-notifications';
+import { ShareIntent, useShareIntentContext } from 'expo-share-intent';
+import { View, ActivityIndicator, Alert } from 'react-native';
 
 // Import screens
 import DashboardScreen from '../screens/DashboardScreen';
 import ApplicationsScreen from '../screens/ApplicationsScreen';
 import AddApplicationScreen from '../screens/AddApplicationScreen';
 import ApplicationDetailScreen from '../screens/ApplicationDetailScreen';
+import EditApplicationScreen from '../screens/EditApplicationScreen';
 import CalendarScreen from '../screens/CalendarScreen';
 import TasksScreen from '../screens/TasksScreen';
 import ProfileScreen from '../screens/ProfileScreen';
 import LoginScreen from '../screens/LoginScreen';
+import ConflictResolutionScreen from '../screens/ConflictResolutionScreen';
+import DeveloperSettingsScreen from '../screens/DeveloperSettingsScreen';
+import AnalyticsScreen from '../screens/AnalyticsScreen';
+import ContactsScreen from '../screens/ContactsScreen';
+import ContactDetailScreen from '../screens/ContactDetailScreen';
+import CompanyDetailScreen from '../screens/CompanyDetailScreen';
+import ImportApplicationsScreen from '../screens/ImportApplicationsScreen';
+import ExportDataScreen from '../screens/ExportDataScreen';
+import BackupRestoreScreen from '../screens/BackupRestoreScreen';
+import ReminderSettingsScreen from '../screens/ReminderSettingsScreen';
+import StaleApplicationsScreen from '../screens/StaleApplicationsScreen';
+import UndoToast from '../components/UndoToast';
 
 // Import contexts and types
 import { AuthProvider, useAuth } from '../contexts/AuthContext';
+import { SyncProvider } from '../contexts/SyncContext';
+import { ConfigProvider, useConfig } from '../contexts/ConfigContext';
 import { RootStackParamList, MainTabParamList } from '../types';
+import { notificationScheduler } from '../services/notifications';
+import { findUrl } from '../utils/applicationSource';
 
 const Stack = createStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
@@ -128,9 +148,85 @@ function MainTabNavigator() {
   );
 }
 
+// jobtracker://add?url=<posting> opens the add screen with the URL filled in,
+// e.g. from a browser bookmarklet. Links shared from the share sheet are routed there in AuthNavigator.
+// Reminder notifications carry one of the other links and open through here too.
+const notificationUrl = (response: Notifications.NotificationResponse | null) => {
+  const url = response?.notification.request.content.data?.url;
+  return typeof url === 'string' ? url : undefined;
+};
+
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// Posting URL from something shared to the app: a link on iOS, or the text of an Android SEND intent
+const sharedPostingUrl = (shareIntent: ShareIntent) =>
+  shareIntent.webUrl ?? (shareIntent.text ? findUrl(shareIntent.text) : undefined);
+
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/'), 'jobtracker://'],
+  // The iOS share extension wakes the app with jobtracker://dataUrl=…; the share intent
+  // provider reads that one, and the shared link is routed below
+  filter: (url) => !url.includes('dataUrl='),
+  config: {
+    screens: {
+      AddApplication: 'add',
+      ApplicationDetail: {
+        path: 'applications/:applicationId',
+        parse: { applicationId: Number },
+      },
+      MainTabs: {
+        screens: {
+          Calendar: 'calendar',
+          Tasks: 'tasks',
+        },
+      },
+    },
+  },
+  // A tap on a notification that launched the app counts as the initial URL
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    return url ?? notificationUrl(await Notifications.getLastNotificationResponseAsync());
+  },
+  subscribe(listener) {
+    const linkSubscription = Linking.addEventListener('url', ({ url }) => listener(url));
+    const notificationSubscription = Notifications.addNotificationResponseReceivedListener((response) => {
+      const url = notificationUrl(response);
+      if (url) listener(url);
+    });
+    return () => {
+      linkSubscription.remove();
+      notificationSubscription.remove();
+    };
+  },
+};
+
 // Auth-aware Navigation Component
 function AuthNavigator() {
   const { isAuthenticated, isLoading } = useAuth();
+  const { hasShareIntent, shareIntent, resetShareIntent } = useShareIntentContext();
+  // Bumped each time a navigation container mounts; signing in or out swaps it for a new one
+  const [navigationMounts, setNavigationMounts] = useState(0);
+
+  // Links shared from the system share sheet open the add screen, once signed in
+  useEffect(() => {
+    if (!hasShareIntent || !isAuthenticated || !navigationRef.isReady()) return;
+    const url = sharedPostingUrl(shareIntent);
+    resetShareIntent();
+    if (url) {
+      navigationRef.navigate('AddApplication', { url });
+    } else {
+      Alert.alert('Nothing to Add', 'Share a link to a job posting to add it as an application.');
+    }
+  }, [hasShareIntent, shareIntent, isAuthenticated, navigationMounts]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    if (!isAuthenticated) {
+      notificationScheduler.clear();
+      return;
+    }
+    return notificationScheduler.start();
+  }, [isAuthenticated, isLoading]);
 
   if (isLoading) {
     return (
@@ -140,8 +236,8 @@ function AuthNavigator() {
     );
   }
 
-  return (
-    <NavigationContainer>
+  const navigator = (
+    <NavigationContainer ref={navigationRef} linking={linking} onReady={() => setNavigationMounts((count) => count + 1)}>
       <Stack.Navigator
         screenOptions={{
           headerStyle: {
@@ -184,6 +280,94 @@ function AuthNavigator() {
                 presentation: 'card'
               }}
             />
+            <Stack.Screen 
+              name="EditJobApplication" 
+              component={EditApplicationScreen}
+              options={{ 
+                title: 'Edit Application',
+                headerShown: false
+              }}
+            />
+            <Stack.Screen 
+              name="Analytics" 
+              component={AnalyticsScreen}
+              options={{ 
+                title: 'Analytics',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="Contacts" 
+              component={ContactsScreen}
+              options={{ 
+                title: 'Contacts',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="ContactDetail" 
+              component={ContactDetailScreen}
+              options={{ 
+                title: 'Contact',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="CompanyDetail" 
+              component={CompanyDetailScreen}
+              options={{ 
+                title: 'Company',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="ImportApplications" 
+              component={ImportApplicationsScreen}
+              options={{ 
+                title: 'Import Applications',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="ExportData" 
+              component={ExportDataScreen}
+              options={{ 
+                title: 'Export Data',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="BackupRestore" 
+              component={BackupRestoreScreen}
+              options={{ 
+                title: 'Backup & Restore',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="ReminderSettings" 
+              component={ReminderSettingsScreen}
+              options={{ 
+                title: 'Follow-up Reminders',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="StaleApplications" 
+              component={StaleApplicationsScreen}
+              options={{ 
+                title: 'Stale Applications',
+                presentation: 'card'
+              }}
+            />
+            <Stack.Screen 
+              name="ResolveConflict" 
+              component={ConflictResolutionScreen}
+              options={{ 
+                title: 'Resolve Conflict',
+                presentation: 'modal'
+              }}
+            />
           </>
         ) : (
           <Stack.Screen 
@@ -192,16 +376,45 @@ function AuthNavigator() {
             options={{ headerShown: false }}
           />
         )}
+        <Stack.Screen 
+          name="DeveloperSettings" 
+          component={DeveloperSettingsScreen}
+          options={{ title: 'Developer Settings' }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
+
+  if (!isAuthenticated) return navigator;
+
+  // Only sync queued changes while there's a session to send them with
+  return (
+    <SyncProvider>
+      <View style={{ flex: 1 }}>
+        {navigator}
+        <UndoToast />
+      </View>
+    </SyncProvider>
+  );
 }
 
-// Root App Navigator with Auth Provider
-export default function AppNavigator() {
+// Switching backend environments swaps the Supabase client, so auth is
+// remounted to subscribe to the new one
+function EnvironmentScopedNavigator() {
+  const { environment } = useConfig();
+
   return (
-    <AuthProvider>
+    <AuthProvider key={`${environment.id}|${environment.apiUrl}|${environment.supabaseUrl}`}>
       <AuthNavigator />
     </AuthProvider>
   );
+}
+
+// Root App Navigator with Config and Auth Providers
+export default function AppNavigator() {
+  return (
+    <ConfigProvider>
+      <EnvironmentScopedNavigator />
+    </ConfigProvider>
+  );
 } 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -8,92 +8,116 @@ import {
   Alert,
   ActivityIndicator,
   TextInput,
-  Switch,
+  Modal,
+  SafeAreaView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { jobApplicationsApi } from '../services/api';
+import { scrapeJobPostingLocally } from '../services/jobPostingScraper';
+import { applicationsRepository, companiesRepository } from '../services/repositories';
 import { useAuth } from '../contexts/AuthContext';
+import ApplicationForm, {
+  ApplicationFormValues,
+  emptyApplicationForm,
+  formValuesToApplication,
+  validateApplicationForm,
+} from '../components/ApplicationForm';
+import CompanySuggestions from '../components/CompanySuggestions';
+import DuplicateApplicationModal from '../components/DuplicateApplicationModal';
+import { findExactCompany } from '../utils/companyMatching';
+import { parseJobPostingHtml } from '../utils/jobPostingParser';
+import { DuplicateMatch, findDuplicateApplications, mergeApplicationFields } from '../utils/duplicateDetection';
+import { Company, JobApplication, JobApplicationCreate, ScrapedJobData } from '../types';
 
-interface ScrapedJobData {
-  job_title?: string;
-  company?: string;
-  location?: string;
-  job_description?: string;
-  salary?: string;
-  job_board?: string;
-  success: boolean;
-  error?: string;
-}
-
-export default function AddApplicationScreen({ navigation }: any) {
+export default function AddApplicationScreen({ route, navigation }: any) {
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
   const [scraping, setScraping] = useState(false);
   const [scrapedData, setScrapedData] = useState<ScrapedJobData | null>(null);
   
   // Form fields
-  const [jobUrl, setJobUrl] = useState('');
-  const [jobTitle, setJobTitle] = useState('');
-  const [company, setCompany] = useState('');
-  const [location, setLocation] = useState('');
-  const [jobDescription, setJobDescription] = useState('');
-  const [salary, setSalary] = useState('');
-  const [dateApplied, setDateApplied] = useState(new Date().toISOString().split('T')[0]);
-  const [dateJobPosted, setDateJobPosted] = useState('');
-  const [applicationStatus, setApplicationStatus] = useState('Applied');
-  const [interviewStage, setInterviewStage] = useState('None');
-  const [notes, setNotes] = useState('');
-  const [referredBy, setReferredBy] = useState('');
-  const [referralRelationship, setReferralRelationship] = useState('');
-  const [referralDate, setReferralDate] = useState('');
-  const [referralNotes, setReferralNotes] = useState('');
+  const [form, setForm] = useState<ApplicationFormValues>(emptyApplicationForm);
+  const jobUrl = form.jobUrl;
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [pageSourceVisible, setPageSourceVisible] = useState(false);
+  const [pageSource, setPageSource] = useState('');
+
+  useEffect(() => {
+    companiesRepository
+      .getAll()
+      .catch(() => companiesRepository.getCached())
+      .then(setCompanies);
+  }, []);
+
+  // Opened from a deep link: fill in the URL and scrape it straight away
+  const linkedUrl: string | undefined = route.params?.url;
+  useEffect(() => {
+    if (!linkedUrl) return;
+    updateField('jobUrl', linkedUrl);
+    handleScrapeJob(linkedUrl);
+  }, [linkedUrl]);
 
-  const statusOptions = [
-    'Applied', 'Interviewing', 'Offer', 'Rejected', 'Withdrawn', 'Pending'
-  ];
+  const updateField = <K extends keyof ApplicationFormValues>(field: K, value: ApplicationFormValues[K]) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const applyScrapedData = (data: ScrapedJobData) => {
+    setScrapedData(data);
 
-  const interviewStageOptions = [
-    'None', 'Phone Screen', 'Technical Interview', 'Behavioral Interview', 
-    'System Design', 'Coding Challenge', 'Onsite', 'Final Round'
-  ];
+    // Auto-fill form with scraped data
+    if (data.job_title) updateField('jobTitle', data.job_title);
+    if (data.company) updateField('company', data.company);
+    if (data.location) updateField('location', data.location);
+    if (data.job_description) updateField('jobDescription', data.job_description);
+    if (data.salary) updateField('salary', data.salary);
+  };
 
-  const handleScrapeJob = async () => {
-    if (!jobUrl.trim()) {
+  const showScrapeFailure = (message: string, url: string) => {
+    Alert.alert(
+      'Scraping Failed',
+      message + ' You can still fill out the form manually.',
+      [
+        { text: 'OK', style: 'default' },
+        { text: 'Paste Page Source', onPress: () => setPageSourceVisible(true) },
+        { text: 'Try Again', onPress: () => handleScrapeJob(url) }
+      ]
+    );
+  };
+
+  // The backend couldn't read the posting, so try fetching and parsing it on the device
+  const scrapeLocally = async (url: string, backendError: string) => {
+    const data = await scrapeJobPostingLocally(url);
+    if (data.success) {
+      console.log('🔍 Local scrape succeeded:', JSON.stringify(data, null, 2));
+      applyScrapedData(data);
+      Alert.alert('Success', 'Job details extracted from the job page.');
+    } else {
+      showScrapeFailure(backendError, url);
+    }
+  };
+
+  const handleScrapeJob = async (url: string = jobUrl) => {
+    if (!url.trim()) {
       Alert.alert('Error', 'Please enter a job URL');
       return;
     }
 
-    console.log('🔍 Starting scraping for URL:', jobUrl);
+    console.log('🔍 Starting scraping for URL:', url);
     setScraping(true);
     
     try {
       console.log('🔍 Making API call to /job-applications/scrape-job');
-      const response = await jobApplicationsApi.enhanceDescription(jobUrl);
+      const response = await jobApplicationsApi.enhanceDescription(url);
       console.log('🔍 API Response received:', JSON.stringify(response, null, 2));
       
       if (response.success && response.data) {
-        const data = response.data;
-        console.log('🔍 Scraped data:', JSON.stringify(data, null, 2));
-        setScrapedData(data);
-        
-        // Auto-fill form with scraped data
-        if (data.job_title) setJobTitle(data.job_title);
-        if (data.company) setCompany(data.company);
-        if (data.location) setLocation(data.location);
-        if (data.job_description) setJobDescription(data.job_description);
-        if (data.salary) setSalary(data.salary);
-        
+        console.log('🔍 Scraped data:', JSON.stringify(response.data, null, 2));
+        applyScrapedData(response.data);
         Alert.alert('Success', 'Job details scraped successfully!');
       } else {
         console.log('🔍 Scraping failed with error:', response.error);
-        Alert.alert(
-          'Scraping Failed', 
-          response.error || 'Could not scrape job details. You can still fill out the form manually.',
-          [
-            { text: 'OK', style: 'default' },
-            { text: 'Try Again', onPress: handleScrapeJob }
-          ]
-        );
+        await scrapeLocally(url, response.error || 'Could not scrape job details.');
       }
     } catch (error: any) {
       console.error('🔍 Error scraping job:', error);
@@ -114,48 +138,74 @@ export default function AddApplicationScreen({ navigation }: any) {
         errorMessage = 'Access denied. This job site might block scraping.';
       }
       
-      Alert.alert(
-        'Scraping Failed', 
-        errorMessage + ' You can still fill out the form manually.',
-        [
-          { text: 'OK', style: 'default' },
-          { text: 'Try Again', onPress: handleScrapeJob }
-        ]
-      );
+      await scrapeLocally(url, errorMessage);
     } finally {
       console.log('🔍 Scraping process completed');
       setScraping(false);
     }
   };
 
+  // For pages that can't be fetched from the device (logins, bot checks):
+  // the user copies the page source from their browser instead
+  const handleParsePageSource = () => {
+    let data: ScrapedJobData;
+    try {
+      data = parseJobPostingHtml(pageSource, jobUrl || undefined);
+    } catch (error) {
+      console.error('Error parsing page source:', error);
+      Alert.alert('Error', 'Could not read the pasted page source.');
+      return;
+    }
+    if (!data.success) {
+      Alert.alert('Nothing Found', 'No job details were found in the pasted page source.');
+      return;
+    }
+    applyScrapedData(data);
+    setPageSourceVisible(false);
+    setPageSource('');
+  };
+
+  const buildApplicationData = (): JobApplicationCreate => ({
+    ...formValuesToApplication(form),
+    job_board: scrapedData?.job_board,
+    notes: form.notes + (form.referralNotes ? `\n\nReferral Notes: ${form.referralNotes}` : ''),
+  });
+
   const handleSubmit = async () => {
-    if (!jobTitle.trim() || !company.trim()) {
-      Alert.alert('Error', 'Job title and company are required');
+    const validationError = validateApplicationForm(form);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    // Warn before adding the same posting twice
+    const existing = await applicationsRepository.getAll().catch(() => applicationsRepository.getCached());
+    const matches = findDuplicateApplications(
+      { ...buildApplicationData(), company_id: findExactCompany(form.company, companies)?.id },
+      existing
+    );
+    if (matches.length > 0) {
+      setDuplicates(matches);
       return;
     }
 
+    await saveApplication();
+  };
+
+  const saveApplication = async () => {
+    setDuplicates([]);
     setLoading(true);
     try {
-      const applicationData = {
-        job_title: jobTitle,
-        company,
-        job_description: jobDescription,
-        location,
-        salary: salary, // Changed from salary_range to salary
-        job_url: jobUrl, // Changed from source to job_url
-        date_applied: new Date(dateApplied).toISOString(),
-        date_job_posted: dateJobPosted ? new Date(dateJobPosted).toISOString() : undefined,
-        application_status: applicationStatus as 'Applied' | 'Interviewing' | 'Offer' | 'Rejected' | 'Withdrawn' | 'Pending',
-        interview_stage: interviewStage as 'None' | 'Phone Screen' | 'Technical Interview' | 'Behavioral Interview' | 'System Design' | 'Coding Challenge' | 'Onsite' | 'Final Round',
-        notes: notes + (referralNotes ? `\n\nReferral Notes: ${referralNotes}` : ''),
-        referred_by: referredBy || undefined,
-        referral_relationship: referralRelationship || undefined,
-        referral_date: referralDate ? new Date(referralDate).toISOString() : undefined,
-        referral_notes: referralNotes || undefined,
+      // File the application under an existing company with the same name, or start a new one
+      const company = await companiesRepository.findOrCreate(form.company);
+      const applicationData: JobApplicationCreate = {
+        ...buildApplicationData(),
+        company: company.name,
+        company_id: company.id,
       };
 
       console.log('🔍 Submitting application data:', applicationData);
-      await jobApplicationsApi.create(applicationData);
+      await applicationsRepository.create(applicationData);
       Alert.alert('Success', 'Job application added successfully!', [
         { text: 'OK', onPress: () => navigation.goBack() }
       ]);
@@ -167,22 +217,30 @@ export default function AddApplicationScreen({ navigation }: any) {
     }
   };
 
+  const handleOpenDuplicate = (application: JobApplication) => {
+    setDuplicates([]);
+    navigation.replace('ApplicationDetail', { applicationId: application.id });
+  };
+
+  const handleMergeDuplicate = async (application: JobApplication) => {
+    setDuplicates([]);
+    setLoading(true);
+    try {
+      const changes = mergeApplicationFields(application, buildApplicationData());
+      if (Object.keys(changes).length > 0) {
+        await applicationsRepository.update(application.id, changes);
+      }
+      navigation.replace('ApplicationDetail', { applicationId: application.id });
+    } catch (error) {
+      console.error('Error merging application:', error);
+      Alert.alert('Error', 'Failed to merge into the existing application. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const clearForm = () => {
-    setJobUrl('');
-    setJobTitle('');
-    setCompany('');
-    setLocation('');
-    setJobDescription('');
-    setSalary('');
-    setDateApplied(new Date().toISOString().split('T')[0]);
-    setDateJobPosted('');
-    setApplicationStatus('Applied');
-    setInterviewStage('None');
-    setNotes('');
-    setReferredBy('');
-    setReferralRelationship('');
-    setReferralDate('');
-    setReferralNotes('');
+    setForm(emptyApplicationForm());
     setScrapedData(null);
   };
 
@@ -210,14 +268,14 @@ export default function AddApplicationScreen({ navigation }: any) {
             style={styles.urlInput}
             placeholder="Enter job posting URL"
             value={jobUrl}
-            onChangeText={setJobUrl}
+            onChangeText={(text) => updateField('jobUrl', text)}
             autoCapitalize="none"
             autoCorrect={false}
             keyboardType="url"
           />
           <TouchableOpacity 
             style={[styles.scrapeButton, scraping && styles.scrapeButtonDisabled]}
-            onPress={handleScrapeJob}
+            onPress={() => handleScrapeJob()}
             disabled={scraping}
           >
             {scraping ? (
@@ -237,177 +295,18 @@ export default function AddApplicationScreen({ navigation }: any) {
         )}
       </View>
 
-      {/* Basic Information */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Basic Information</Text>
-        
-        <Text style={styles.label}>Job Title *</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="e.g., Senior Software Engineer"
-          value={jobTitle}
-          onChangeText={setJobTitle}
-        />
-
-        <Text style={styles.label}>Company *</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="e.g., Google"
-          value={company}
-          onChangeText={setCompany}
-        />
-
-        <Text style={styles.label}>Location</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="e.g., San Francisco, CA"
-          value={location}
-          onChangeText={setLocation}
-        />
-
-        <Text style={styles.label}>Salary</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="e.g., $120,000 - $150,000"
-          value={salary}
-          onChangeText={setSalary}
-        />
-      </View>
-
-      {/* Dates */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Important Dates</Text>
-        
-        <Text style={styles.label}>Date Applied *</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="YYYY-MM-DD"
-          value={dateApplied}
-          onChangeText={setDateApplied}
-        />
-
-        <Text style={styles.label}>Date Job Posted</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="YYYY-MM-DD (optional)"
-          value={dateJobPosted}
-          onChangeText={setDateJobPosted}
-        />
-      </View>
-
-      {/* Status */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Application Status</Text>
-        
-        <Text style={styles.label}>Status</Text>
-        <View style={styles.pickerContainer}>
-          {statusOptions.map((status) => (
-            <TouchableOpacity
-              key={status}
-              style={[
-                styles.statusChip,
-                applicationStatus === status && styles.statusChipSelected
-              ]}
-              onPress={() => setApplicationStatus(status)}
-            >
-              <Text style={[
-                styles.statusChipText,
-                applicationStatus === status && styles.statusChipTextSelected
-              ]}>
-                {status}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </View>
-
-        <Text style={styles.label}>Interview Stage</Text>
-        <View style={styles.pickerContainer}>
-          {interviewStageOptions.map((stage) => (
-            <TouchableOpacity
-              key={stage}
-              style={[
-                styles.statusChip,
-                interviewStage === stage && styles.statusChipSelected
-              ]}
-              onPress={() => setInterviewStage(stage)}
-            >
-              <Text style={[
-                styles.statusChipText,
-                interviewStage === stage && styles.statusChipTextSelected
-              ]}>
-                {stage}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
-
-      {/* Referral Information */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Referral Information</Text>
-        
-        <Text style={styles.label}>Referred By</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="Name of person who referred you"
-          value={referredBy}
-          onChangeText={setReferredBy}
-        />
-
-        <Text style={styles.label}>Relationship</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="e.g., Former colleague, Friend"
-          value={referralRelationship}
-          onChangeText={setReferralRelationship}
-        />
-
-        <Text style={styles.label}>Referral Date</Text>
-        <TextInput
-          style={styles.input}
-          placeholder="YYYY-MM-DD (optional)"
-          value={referralDate}
-          onChangeText={setReferralDate}
-        />
-
-        <Text style={styles.label}>Referral Notes</Text>
-        <TextInput
-          style={[styles.input, styles.textArea]}
-          placeholder="Additional notes about the referral"
-          value={referralNotes}
-          onChangeText={setReferralNotes}
-          multiline
-          numberOfLines={3}
-        />
-      </View>
-
-      {/* Job Description */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Job Description</Text>
-        <TextInput
-          style={[styles.input, styles.textArea]}
-          placeholder="Paste or type the job description here..."
-          value={jobDescription}
-          onChangeText={setJobDescription}
-          multiline
-          numberOfLines={8}
-          textAlignVertical="top"
-        />
-      </View>
-
-      {/* Notes */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Notes</Text>
-        <TextInput
-          style={[styles.input, styles.textArea]}
-          placeholder="Any additional notes about this application..."
-          value={notes}
-          onChangeText={setNotes}
-          multiline
-          numberOfLines={4}
-          textAlignVertical="top"
-        />
-      </View>
+      <ApplicationForm
+        values={form}
+        onChange={updateField}
+        showJobUrl={false}
+        companyHint={
+          <CompanySuggestions
+            name={form.company}
+            companies={companies}
+            onSelect={(company) => updateField('company', company.name)}
+          />
+        }
+      />
 
       {/* Submit Button */}
       <View style={styles.submitSection}>
@@ -426,6 +325,48 @@ export default function AddApplicationScreen({ navigation }: any) {
           )}
         </TouchableOpacity>
       </View>
+
+      <DuplicateApplicationModal
+        matches={duplicates}
+        onOpen={handleOpenDuplicate}
+        onMerge={handleMergeDuplicate}
+        onSaveAnyway={saveApplication}
+        onClose={() => setDuplicates([])}
+      />
+
+      <Modal
+        visible={pageSourceVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setPageSourceVisible(false)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setPageSourceVisible(false)}>
+              <Text style={styles.modalCancelButton}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Page Source</Text>
+            <TouchableOpacity onPress={handleParsePageSource}>
+              <Text style={styles.modalSaveButton}>Extract</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.modalContent}>
+            <Text style={styles.sectionSubtitle}>
+              Open the posting in your browser, view its page source, and paste it here.
+            </Text>
+            <TextInput
+              style={styles.pageSourceInput}
+              value={pageSource}
+              onChangeText={setPageSource}
+              placeholder="<html>…"
+              placeholderTextColor="#8E8E93"
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+        </SafeAreaView>
+      </Modal>
     </ScrollView>
   );
 }
@@ -514,52 +455,48 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#4CAF50',
   },
-  label: {
-    fontSize: 14,
-    fontWeight: '500',
-    color: '#1D1D1F',
-    marginBottom: 8,
-    marginTop: 16,
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
   },
-  input: {
-    height: 50,
-    borderColor: '#E5E5E5',
-    borderWidth: 1,
-    borderRadius: 8,
-    paddingHorizontal: 12,
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  modalCancelButton: {
     fontSize: 16,
+    color: '#8E8E93',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
     color: '#1D1D1F',
   },
-  textArea: {
-    height: 120,
-    paddingTop: 12,
-    paddingBottom: 12,
+  modalSaveButton: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
   },
-  pickerContainer: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    gap: 8,
-    marginTop: 8,
+  modalContent: {
+    flex: 1,
+    padding: 20,
   },
-  statusChip: {
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 16,
-    backgroundColor: '#F2F2F7',
+  pageSourceInput: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    color: '#1D1D1F',
     borderWidth: 1,
     borderColor: '#E5E5E5',
-  },
-  statusChipSelected: {
-    backgroundColor: '#007AFF',
-    borderColor: '#007AFF',
-  },
-  statusChipText: {
-    fontSize: 14,
-    color: '#8E8E93',
-  },
-  statusChipTextSelected: {
-    color: 'white',
-    fontWeight: '500',
+    textAlignVertical: 'top',
   },
   submitSection: {
     padding: 20,
@@ -0,0 +1,361 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+} from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import { followUpsApi } from '../services/api';
+import { applicationsRepository, statusHistoryRepository } from '../services/repositories';
+import {
+  computePipelineAnalytics,
+  trackApplicationProgress,
+  MonthMetrics,
+  PipelineAnalytics,
+} from '../utils/pipelineAnalytics';
+import { buildSourceReport, SourceReportRow } from '../utils/applicationSource';
+
+const FUNNEL_COLORS = ['#007AFF', '#5856D6', '#FF9500', '#FF2D55', '#34C759'];
+
+const MONTH_METRICS: { key: keyof Omit<MonthMetrics, 'label'>; label: string }[] = [
+  { key: 'applications', label: 'Applications' },
+  { key: 'interviews', label: 'Interviews' },
+  { key: 'offers', label: 'Offers' },
+  { key: 'rejections', label: 'Rejections' },
+];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Bars are sized as a share of the largest value; keep a sliver visible for non-zero values
+const barWidth = (value: number, max: number) =>
+  `${max > 0 ? Math.max(value > 0 ? 4 : 0, (value / max) * 100) : 0}%` as `${number}%`;
+
+export default function AnalyticsScreen() {
+  const [analytics, setAnalytics] = useState<PipelineAnalytics | null>(null);
+  const [sources, setSources] = useState<SourceReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadAnalytics = async () => {
+    try {
+      // History and follow-ups only refine dates, so the screen still works without them
+      const [applications, history, followUps] = await Promise.all([
+        applicationsRepository.getAll(),
+        statusHistoryRepository.getAll().catch(() => statusHistoryRepository.getCached()),
+        followUpsApi.getAll().catch(() => []),
+      ]);
+      const progress = trackApplicationProgress(applications, history, followUps);
+      setAnalytics(computePipelineAnalytics(progress));
+      setSources(buildSourceReport(progress));
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+      Alert.alert('Error', 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAnalytics();
+    }, [])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadAnalytics();
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Crunching numbers...</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const funnel = analytics?.funnel ?? [];
+  const durations = analytics?.durations ?? [];
+  const funnelMax = funnel[0]?.count ?? 0;
+  const durationMax = Math.max(0, ...durations.map((duration) => duration.medianDays ?? 0));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Funnel */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Pipeline Funnel</Text>
+          <Text style={styles.sectionSubtitle}>How far each submitted application got</Text>
+          {funnelMax === 0 ? (
+            <Text style={styles.emptyText}>Submit an application to see your funnel</Text>
+          ) : (
+            funnel.map((step, index) => (
+              <View key={step.stage} style={styles.funnelRow}>
+                <View style={styles.rowHeader}>
+                  <Text style={styles.rowLabel}>{step.stage}</Text>
+                  <Text style={styles.rowValue}>
+                    {step.count}
+                    {step.conversion !== undefined && (
+                      <Text style={styles.conversionText}>  {formatPercent(step.conversion)} of previous</Text>
+                    )}
+                  </Text>
+                </View>
+                <View style={styles.barTrack}>
+                  <View
+                    style={[
+                      styles.bar,
+                      { width: barWidth(step.count, funnelMax), backgroundColor: FUNNEL_COLORS[index] },
+                    ]}
+                  />
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Time in stage */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Time in Stage</Text>
+          <Text style={styles.sectionSubtitle}>Median days before the next step</Text>
+          {durations.map((duration, index) => (
+            <View key={duration.stage} style={styles.funnelRow}>
+              <View style={styles.rowHeader}>
+                <Text style={styles.rowLabel}>{duration.stage}</Text>
+                <Text style={styles.rowValue}>
+                  {duration.medianDays === null ? '—' : `${duration.medianDays}d`}
+                  <Text style={styles.conversionText}>  n={duration.samples}</Text>
+                </Text>
+              </View>
+              <View style={styles.barTrack}>
+                <View
+                  style={[
+                    styles.bar,
+                    {
+                      width: barWidth(duration.medianDays ?? 0, durationMax),
+                      backgroundColor: FUNNEL_COLORS[index],
+                    },
+                  ]}
+                />
+              </View>
+            </View>
+          ))}
+        </View>
+
+        {/* Sources */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Sources</Text>
+          <Text style={styles.sectionSubtitle}>Which channels get replies</Text>
+          {sources.length === 0 ? (
+            <Text style={styles.emptyText}>No submitted applications yet</Text>
+          ) : (
+            <>
+              <View style={styles.sourceRow}>
+                <Text style={[styles.sourceName, styles.sourceHeading]}>Source</Text>
+                <Text style={[styles.sourceCell, styles.sourceHeading]}>Apps</Text>
+                <Text style={[styles.sourceCell, styles.sourceHeading]}>Resp.</Text>
+                <Text style={[styles.sourceCell, styles.sourceHeading]}>Intv.</Text>
+                <Text style={[styles.sourceCell, styles.sourceHeading]}>Offer</Text>
+              </View>
+              {sources.map((row) => (
+                <View key={row.source} style={[styles.sourceRow, styles.sourceRowDivider]}>
+                  <Text style={styles.sourceName}>{row.source}</Text>
+                  <Text style={styles.sourceCell}>{row.applications}</Text>
+                  <Text style={styles.sourceCell}>{formatPercent(row.responseRate)}</Text>
+                  <Text style={styles.sourceCell}>{formatPercent(row.interviewRate)}</Text>
+                  <Text style={styles.sourceCell}>{formatPercent(row.offerRate)}</Text>
+                </View>
+              ))}
+            </>
+          )}
+        </View>
+
+        {/* Month over month */}
+        {analytics && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>This Month vs Last</Text>
+            <View style={styles.legend}>
+              <View style={[styles.legendDot, { backgroundColor: '#007AFF' }]} />
+              <Text style={styles.legendText}>{analytics.currentMonth.label}</Text>
+              <View style={[styles.legendDot, styles.legendDotSpacing, { backgroundColor: '#C7C7CC' }]} />
+              <Text style={styles.legendText}>{analytics.previousMonth.label}</Text>
+            </View>
+            {MONTH_METRICS.map((metric) => {
+              const current = analytics.currentMonth[metric.key];
+              const previous = analytics.previousMonth[metric.key];
+              const max = Math.max(current, previous);
+              const change = current - previous;
+
+              return (
+                <View key={metric.key} style={styles.funnelRow}>
+                  <View style={styles.rowHeader}>
+                    <Text style={styles.rowLabel}>{metric.label}</Text>
+                    <Text style={styles.rowValue}>
+                      {current}
+                      <Text style={styles.conversionText}>
+                        {'  '}{change === 0 ? 'no change' : `${change > 0 ? '+' : ''}${change}`}
+                      </Text>
+                    </Text>
+                  </View>
+                  <View style={styles.barTrack}>
+                    <View style={[styles.bar, { width: barWidth(current, max), backgroundColor: '#007AFF' }]} />
+                  </View>
+                  <View style={[styles.barTrack, styles.barTrackSecondary]}>
+                    <View style={[styles.bar, { width: barWidth(previous, max), backgroundColor: '#C7C7CC' }]} />
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingTop: 20,
+    paddingBottom: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  section: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  funnelRow: {
+    marginBottom: 14,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  rowLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  rowValue: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  conversionText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#8E8E93',
+  },
+  barTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#F2F2F7',
+    overflow: 'hidden',
+  },
+  barTrackSecondary: {
+    marginTop: 4,
+  },
+  bar: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  sourceRowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  sourceName: {
+    flex: 2,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  sourceCell: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1D1D1F',
+    textAlign: 'right',
+  },
+  sourceHeading: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  legendDotSpacing: {
+    marginLeft: 16,
+  },
+  legendText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -11,72 +11,106 @@ import {
   TextInput,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { jobApplicationsApi } from '../services/api';
+import { useFocusEffect } from '@react-navigation/native';
+import { jobApplicationsApi, followUpsApi } from '../services/api';
+import {
+  applicationsRepository,
+  statusHistoryRepository,
+  contactsRepository,
+  contactLinksRepository,
+  companiesRepository,
+} from '../services/repositories';
+import { isTempId } from '../services/localStore';
+import { notificationScheduler } from '../services/notifications';
+import { shouldRetryLater } from '../services/syncQueue';
 import { useAuth } from '../contexts/AuthContext';
+import ApplicationTimeline from '../components/ApplicationTimeline';
+import LinkContactModal from '../components/LinkContactModal';
+import { buildTimeline, summarizeJourney } from '../utils/applicationTimeline';
+import { classifyApplicationSource } from '../utils/applicationSource';
+import {
+  JobApplication,
+  StatusChangeEvent,
+  Contact,
+  ContactLink,
+  ContactLinkRole,
+  FollowUp,
+  FollowUpCreate,
+  FollowUpStatus,
+  FOLLOW_UP_TYPES,
+  FOLLOW_UP_STATUSES,
+} from '../types';
 
-interface FollowUp {
-  id: number;
+// The form keeps empty strings; they are sent as null
+interface FollowUpForm {
   follow_up_type: string;
   title: string;
-  description?: string;
+  description: string;
   date: string;
-  status: string;
-  outcome?: string;
-  notes?: string;
-  created_at: string;
+  status: FollowUpStatus;
+  outcome: string;
+  notes: string;
 }
 
-interface JobApplication {
-  id: number;
-  job_title: string;
-  company: string;
-  location?: string;
-  job_description?: string;
-  salary?: string;
-  job_url?: string;
-  date_applied: string;
-  date_job_posted?: string;
-  application_status: string;
-  interview_stage: string;
-  notes?: string;
-  referred_by?: string;
-  referral_relationship?: string;
-  referral_date?: string;
-  referral_notes?: string;
-  created_at: string;
-  updated_at: string;
-  follow_ups?: FollowUp[];
-}
+const emptyFollowUpForm = (): FollowUpForm => ({
+  follow_up_type: 'Interview',
+  title: '',
+  description: '',
+  date: new Date().toISOString(),
+  status: 'Pending',
+  outcome: '',
+  notes: '',
+});
+
+type ApplicationWithFollowUps = JobApplication & { follow_ups?: FollowUp[] };
 
 export default function ApplicationDetailScreen({ route, navigation }: any) {
   const { applicationId } = route.params;
   const { user } = useAuth();
-  const [application, setApplication] = useState<JobApplication | null>(null);
+  const [application, setApplication] = useState<ApplicationWithFollowUps | null>(null);
+  const [history, setHistory] = useState<StatusChangeEvent[]>([]);
+  const [contactLinks, setContactLinks] = useState<ContactLink[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [showLinkContact, setShowLinkContact] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [showAddFollowUp, setShowAddFollowUp] = useState(false);
-  const [newFollowUp, setNewFollowUp] = useState({
-    follow_up_type: 'Interview',
-    title: '',
-    description: '',
-    date: new Date().toISOString(),
-    status: 'Pending',
-    outcome: '',
-    notes: '',
-  });
-
-  const followUpTypes = [
-    'Interview', 'Phone Call', 'Email', 'Follow-up', 'Technical Interview', 
-    'Behavioral Interview', 'System Design', 'Coding Challenge', 'Onsite', 
-    'Final Round', 'Reference Check', 'Background Check', 'Offer Discussion'
-  ];
-
-  const followUpStatuses = ['Pending', 'Completed', 'Cancelled', 'Rescheduled'];
+  const [showFollowUpForm, setShowFollowUpForm] = useState(false);
+  // Set while the form is editing an existing follow-up rather than adding one
+  const [editingFollowUp, setEditingFollowUp] = useState<FollowUp | null>(null);
+  const [newFollowUp, setNewFollowUp] = useState<FollowUpForm>(emptyFollowUpForm);
+
+  // Subscriptions pass refresh = false so reacting to a store change doesn't write to the store again
+  const loadHistory = async (refresh = true) => {
+    setHistory(await statusHistoryRepository.getForApplication(applicationId, refresh));
+  };
+
+  const loadContacts = async (refresh = true) => {
+    const [links, allContacts] = await Promise.all([
+      contactLinksRepository.getForApplication(applicationId, refresh),
+      refresh ? contactsRepository.getAll().catch(() => contactsRepository.getCached()) : contactsRepository.getCached(),
+    ]);
+    setContactLinks(links);
+    setContacts(allContacts);
+  };
 
   const loadApplication = async () => {
+    loadHistory();
+    loadContacts();
     try {
+      if (isTempId(applicationId)) {
+        // Created offline and not synced yet - only the local copy exists
+        setApplication((await applicationsRepository.getById(applicationId)) ?? null);
+        return;
+      }
       const response = await jobApplicationsApi.getWithFollowUps(applicationId);
       setApplication(response);
     } catch (error) {
+      if (shouldRetryLater(error)) {
+        const cached = await applicationsRepository.getById(applicationId);
+        if (cached) {
+          setApplication(cached);
+          return;
+        }
+      }
       console.error('Error loading application:', error);
       Alert.alert('Error', 'Failed to load application details');
     } finally {
@@ -84,13 +118,121 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
     }
   };
 
+  // Reload whenever the screen comes back into view, e.g. from the edit screen
+  useFocusEffect(
+    useCallback(() => {
+      if (applicationId) {
+        loadApplication();
+      }
+    }, [applicationId])
+  );
+
   useEffect(() => {
-    if (applicationId) {
-      loadApplication();
-    }
+    // Local edits show up straight away, before the server has confirmed them
+    return applicationsRepository.subscribe(async () => {
+      try {
+        const cached = await applicationsRepository.getById(applicationId, false);
+        if (cached) {
+          setApplication((current) => (current ? { ...cached, follow_ups: current.follow_ups } : cached));
+        }
+      } catch (error) {
+        console.error('Error reloading application:', error);
+      }
+    });
+  }, [applicationId]);
+
+  useEffect(() => {
+    // Status changes made on this device are journaled locally first
+    return statusHistoryRepository.subscribe(() => loadHistory(false));
+  }, [applicationId]);
+
+  useEffect(() => {
+    const unsubscribeLinks = contactLinksRepository.subscribe(() => loadContacts(false));
+    const unsubscribeContacts = contactsRepository.subscribe(() => loadContacts(false));
+    return () => {
+      unsubscribeLinks();
+      unsubscribeContacts();
+    };
   }, [applicationId]);
 
-  const handleAddFollowUp = async () => {
+  const handleLinkContact = async (contact: Contact, role: ContactLinkRole) => {
+    try {
+      await contactLinksRepository.create({ contact_id: contact.id, job_application_id: applicationId, role });
+      // Keep the legacy referral fields filled in so older screens and source reports still see the referral
+      if (role === 'Referrer' && application && !application.referred_by) {
+        await applicationsRepository.update(applicationId, {
+          referred_by: contact.name,
+          referral_relationship: contact.relationship || undefined,
+        });
+      }
+      setShowLinkContact(false);
+    } catch (error) {
+      console.error('Error linking contact:', error);
+      Alert.alert('Error', 'Failed to link contact');
+    }
+  };
+
+  const handleUnlinkContact = (link: ContactLink, contact?: Contact) => {
+    Alert.alert('Unlink Contact', `Remove ${contact?.name ?? 'this contact'} from this application?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Unlink',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await contactLinksRepository.delete(link.id);
+          } catch (error) {
+            console.error('Error unlinking contact:', error);
+            Alert.alert('Error', 'Failed to unlink contact');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleOpenCompany = async () => {
+    if (!application) return;
+    try {
+      let company = application.company_id ? await companiesRepository.getById(application.company_id) : undefined;
+      if (!company) {
+        // Applications saved before companies existed get filed on first visit
+        await companiesRepository.getAll().catch(() => undefined);
+        company = await companiesRepository.findOrCreate(application.company);
+        await applicationsRepository.update(application.id, { company_id: company.id });
+      }
+      navigation.navigate('CompanyDetail', { companyId: company.id });
+    } catch (error) {
+      console.error('Error opening company:', error);
+      Alert.alert('Error', 'Failed to open company');
+    }
+  };
+
+  const openAddFollowUp = () => {
+    setEditingFollowUp(null);
+    setNewFollowUp(emptyFollowUpForm());
+    setShowFollowUpForm(true);
+  };
+
+  const openEditFollowUp = (followUp: FollowUp) => {
+    setEditingFollowUp(followUp);
+    setNewFollowUp({
+      follow_up_type: followUp.follow_up_type,
+      title: followUp.title,
+      description: followUp.description ?? '',
+      date: followUp.date,
+      status: followUp.status,
+      outcome: followUp.outcome ?? '',
+      notes: followUp.notes ?? '',
+    });
+    setShowFollowUpForm(true);
+  };
+
+  const closeFollowUpForm = () => {
+    setShowFollowUpForm(false);
+    setEditingFollowUp(null);
+  };
+
+  const handleSaveFollowUp = async () => {
     if (!newFollowUp.title.trim()) {
       Alert.alert('Error', 'Follow-up title is required');
       return;
@@ -98,7 +240,7 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
 
     try {
       // Prepare the data, converting empty strings to null for optional fields
-      const followUpData = {
+      const followUpData: FollowUpCreate = {
         ...newFollowUp,
         description: newFollowUp.description || null,
         outcome: newFollowUp.outcome || null,
@@ -107,22 +249,63 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
       };
       
       console.log('🔍 Sending follow-up data:', JSON.stringify(followUpData, null, 2));
-      await jobApplicationsApi.addFollowUp(applicationId, followUpData);
-      setShowAddFollowUp(false);
-      setNewFollowUp({
-        follow_up_type: 'Interview',
-        title: '',
-        description: '',
-        date: new Date().toISOString(),
-        status: 'Pending',
-        outcome: '',
-        notes: '',
-      });
+      if (editingFollowUp) {
+        await followUpsApi.update(editingFollowUp.id, followUpData);
+      } else {
+        await followUpsApi.create(applicationId, followUpData);
+      }
+      closeFollowUpForm();
       loadApplication(); // Reload to get updated follow-ups
+      notificationScheduler.sync();
     } catch (error) {
-      console.error('Error adding follow-up:', error);
-      Alert.alert('Error', 'Failed to add follow-up');
+      console.error('Error saving follow-up:', error);
+      Alert.alert('Error', editingFollowUp ? 'Failed to update follow-up' : 'Failed to add follow-up');
+    }
+  };
+
+  const handleCompleteFollowUp = async (followUp: FollowUp) => {
+    try {
+      await followUpsApi.complete(followUp.id);
+      loadApplication();
+      notificationScheduler.sync();
+    } catch (error) {
+      console.error('Error completing follow-up:', error);
+      Alert.alert('Error', 'Failed to complete follow-up');
+    }
+  };
+
+  const handleDeleteFollowUp = (followUp: FollowUp) => {
+    Alert.alert('Delete Follow-up', `Delete "${followUp.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await followUpsApi.delete(followUp.id);
+            closeFollowUpForm();
+            loadApplication();
+            notificationScheduler.sync();
+          } catch (error) {
+            console.error('Error deleting follow-up:', error);
+            Alert.alert('Error', 'Failed to delete follow-up');
+          }
+        },
+      },
+    ]);
+  };
+
+  // Android alerts hold at most three buttons, so deleting lives in the edit form
+  const handleFollowUpPress = (followUp: FollowUp) => {
+    if (followUp.status === 'Completed') {
+      openEditFollowUp(followUp);
+      return;
     }
+    Alert.alert(followUp.title, undefined, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Edit', onPress: () => openEditFollowUp(followUp) },
+      { text: 'Mark Complete', onPress: () => handleCompleteFollowUp(followUp) },
+    ]);
   };
 
   const getStatusColor = (status: string) => {
@@ -169,6 +352,9 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
     );
   }
 
+  const timeline = buildTimeline(application, history, application.follow_ups);
+  const journey = summarizeJourney(timeline);
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -177,7 +363,10 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
           <Ionicons name="arrow-back" size={24} color="#007AFF" />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Application Details</Text>
-        <TouchableOpacity style={styles.editButton}>
+        <TouchableOpacity
+          style={styles.editButton}
+          onPress={() => navigation.navigate('EditJobApplication', { id: application.id })}
+        >
           <Ionicons name="create" size={24} color="#007AFF" />
         </TouchableOpacity>
       </View>
@@ -189,10 +378,10 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
             <Text style={styles.cardTitle}>Basic Information</Text>
           </View>
           
-          <View style={styles.infoRow}>
+          <TouchableOpacity style={styles.infoRow} onPress={handleOpenCompany}>
             <Text style={styles.label}>Company</Text>
-            <Text style={styles.value}>{application.company}</Text>
-          </View>
+            <Text style={[styles.value, styles.linkValue]}>{application.company}</Text>
+          </TouchableOpacity>
           
           <View style={styles.infoRow}>
             <Text style={styles.label}>Position</Text>
@@ -212,6 +401,11 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
               <Text style={styles.value}>{application.salary}</Text>
             </View>
           )}
+
+          <View style={styles.infoRow}>
+            <Text style={styles.label}>Source</Text>
+            <Text style={styles.value}>{classifyApplicationSource(application)}</Text>
+          </View>
         </View>
 
         {/* Status Card */}
@@ -275,46 +469,61 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
           </View>
         )}
 
-        {/* Follow-ups Section */}
+        {/* Contacts */}
         <View style={styles.card}>
           <View style={styles.cardHeader}>
-            <Text style={styles.cardTitle}>Follow-ups</Text>
+            <Text style={styles.cardTitle}>Contacts</Text>
             <TouchableOpacity 
               style={styles.addButton}
-              onPress={() => setShowAddFollowUp(true)}
+              onPress={() => setShowLinkContact(true)}
             >
-              <Ionicons name="add" size={20} color="#007AFF" />
+              <Ionicons name="person-add" size={20} color="#007AFF" />
             </TouchableOpacity>
           </View>
-          
-          {application.follow_ups && application.follow_ups.length > 0 ? (
-            application.follow_ups.map((followUp) => (
-              <View key={followUp.id} style={styles.followUpItem}>
-                <View style={styles.followUpHeader}>
-                  <Text style={styles.followUpTitle}>{followUp.title}</Text>
-                  <View style={[styles.followUpStatus, { backgroundColor: getStatusColor(followUp.status) }]}>
-                    <Text style={styles.followUpStatusText}>{followUp.status}</Text>
-                  </View>
-                </View>
-                
-                <Text style={styles.followUpType}>
-                  {getFollowUpTypeLabel(followUp.follow_up_type)} • {formatDate(followUp.date)}
-                </Text>
-                
-                {followUp.description && (
-                  <Text style={styles.followUpDescription}>{followUp.description}</Text>
-                )}
-                
-                {followUp.outcome && (
-                  <Text style={styles.followUpOutcome}>Outcome: {followUp.outcome}</Text>
-                )}
-                
-                {followUp.notes && (
-                  <Text style={styles.followUpNotes}>{followUp.notes}</Text>
-                )}
-              </View>
-            ))
+
+          {contactLinks.length === 0 ? (
+            <Text style={styles.emptyContactsText}>No referrer, recruiter or interviewer linked yet</Text>
           ) : (
+            contactLinks.map((link) => {
+              const contact = contacts.find((candidate) => candidate.id === link.contact_id);
+              return (
+                <TouchableOpacity
+                  key={link.id}
+                  style={styles.contactRow}
+                  onPress={() => navigation.navigate('ContactDetail', { contactId: link.contact_id })}
+                  onLongPress={() => handleUnlinkContact(link, contact)}
+                >
+                  <Ionicons name="person-circle-outline" size={28} color="#8E8E93" />
+                  <View style={styles.contactInfo}>
+                    <Text style={styles.contactName}>{contact?.name ?? 'Unknown contact'}</Text>
+                    {!!contact?.role && <Text style={styles.contactRole}>{contact.role}</Text>}
+                  </View>
+                  <View style={styles.contactRoleBadge}>
+                    <Text style={styles.contactRoleBadgeText}>{link.role}</Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
+        {/* Timeline: status history merged with follow-ups */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Timeline</Text>
+            <TouchableOpacity 
+              style={styles.addButton}
+              onPress={openAddFollowUp}
+            >
+              <Ionicons name="add" size={20} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+
+          {journey && <Text style={styles.journeyText}>{journey}</Text>}
+
+          <ApplicationTimeline entries={timeline} onPressFollowUp={handleFollowUpPress} />
+
+          {(!application.follow_ups || application.follow_ups.length === 0) && (
             <View style={styles.emptyFollowUps}>
               <Ionicons name="chatbubble-outline" size={48} color="#C7C7CC" />
               <Text style={styles.emptyFollowUpsText}>No follow-ups yet</Text>
@@ -344,19 +553,26 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
         )}
       </ScrollView>
 
-      {/* Add Follow-up Modal */}
+      <LinkContactModal
+        visible={showLinkContact}
+        excludedContactIds={contactLinks.map((link) => link.contact_id)}
+        onLink={handleLinkContact}
+        onClose={() => setShowLinkContact(false)}
+      />
+
+      {/* Add / Edit Follow-up Modal */}
       <Modal
-        visible={showAddFollowUp}
+        visible={showFollowUpForm}
         animationType="slide"
         presentationStyle="pageSheet"
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalHeader}>
-            <TouchableOpacity onPress={() => setShowAddFollowUp(false)}>
+            <TouchableOpacity onPress={closeFollowUpForm}>
               <Text style={styles.modalCancelButton}>Cancel</Text>
             </TouchableOpacity>
-            <Text style={styles.modalTitle}>Add Follow-up</Text>
-            <TouchableOpacity onPress={handleAddFollowUp}>
+            <Text style={styles.modalTitle}>{editingFollowUp ? 'Edit Follow-up' : 'Add Follow-up'}</Text>
+            <TouchableOpacity onPress={handleSaveFollowUp}>
               <Text style={styles.modalSaveButton}>Save</Text>
             </TouchableOpacity>
           </View>
@@ -376,7 +592,7 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Type</Text>
               <View style={styles.typeButtons}>
-                {followUpTypes.map((type) => (
+                {FOLLOW_UP_TYPES.map((type) => (
                   <TouchableOpacity
                     key={type}
                     style={[
@@ -414,7 +630,7 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Status</Text>
               <View style={styles.statusButtons}>
-                {followUpStatuses.map((status) => (
+                {FOLLOW_UP_STATUSES.map((status) => (
                   <TouchableOpacity
                     key={status}
                     style={[
@@ -470,6 +686,16 @@ export default function ApplicationDetailScreen({ route, navigation }: any) {
                 numberOfLines={3}
               />
             </View>
+
+            {editingFollowUp && (
+              <TouchableOpacity
+                style={styles.deleteFollowUpButton}
+                onPress={() => handleDeleteFollowUp(editingFollowUp)}
+              >
+                <Ionicons name="trash-outline" size={18} color="#FF3B30" />
+                <Text style={styles.deleteFollowUpText}>Delete Follow-up</Text>
+              </TouchableOpacity>
+            )}
           </ScrollView>
         </View>
       </Modal>
@@ -572,6 +798,9 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     fontWeight: '500',
   },
+  linkValue: {
+    color: '#007AFF',
+  },
   statusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -592,71 +821,63 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#8E8E93',
   },
-  followUpItem: {
-    borderTopWidth: 1,
-    borderTopColor: '#E5E5E5',
-    paddingTop: 16,
+  journeyText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
     marginBottom: 16,
+    lineHeight: 18,
   },
-  followUpHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
+  emptyFollowUps: {
     alignItems: 'center',
-    marginBottom: 8,
-  },
-  followUpTitle: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#1D1D1F',
-    flex: 1,
+    padding: 24,
   },
-  followUpStatus: {
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 12,
-  },
-  followUpStatusText: {
-    color: 'white',
-    fontSize: 10,
+  emptyFollowUpsText: {
+    fontSize: 18,
     fontWeight: '600',
-  },
-  followUpType: {
-    fontSize: 12,
-    color: '#8E8E93',
-    marginBottom: 8,
-  },
-  followUpDescription: {
-    fontSize: 14,
     color: '#1D1D1F',
+    marginTop: 16,
     marginBottom: 8,
-    lineHeight: 20,
   },
-  followUpOutcome: {
+  emptyFollowUpsSubtext: {
     fontSize: 14,
-    color: '#007AFF',
-    fontWeight: '500',
-    marginBottom: 8,
+    color: '#8E8E93',
+    textAlign: 'center',
   },
-  followUpNotes: {
+  emptyContactsText: {
     fontSize: 14,
     color: '#8E8E93',
-    fontStyle: 'italic',
+    textAlign: 'center',
   },
-  emptyFollowUps: {
+  contactRow: {
+    flexDirection: 'row',
     alignItems: 'center',
-    padding: 40,
+    paddingVertical: 8,
   },
-  emptyFollowUpsText: {
-    fontSize: 18,
+  contactInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  contactName: {
+    fontSize: 15,
     fontWeight: '600',
     color: '#1D1D1F',
-    marginTop: 16,
-    marginBottom: 8,
   },
-  emptyFollowUpsSubtext: {
-    fontSize: 14,
+  contactRole: {
+    fontSize: 13,
     color: '#8E8E93',
-    textAlign: 'center',
+    marginTop: 2,
+  },
+  contactRoleBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#5856D6',
+  },
+  contactRoleBadgeText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
   },
   notesText: {
     fontSize: 14,
@@ -774,4 +995,20 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '600',
   },
+  deleteFollowUpButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 14,
+    marginBottom: 40,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  deleteFollowUpText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
 }); 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,33 +8,57 @@ import {
   RefreshControl,
   Alert,
   ActivityIndicator,
+  TextInput,
+  ScrollView,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { jobApplicationsApi } from '../services/api';
+import { applicationsRepository } from '../services/repositories';
+import { preferences } from '../services/preferences';
 import { useAuth } from '../contexts/AuthContext';
+import SyncStatusBanner from '../components/SyncStatusBanner';
+import ApplicationBoard from '../components/ApplicationBoard';
+import ApplicationFilterModal from '../components/ApplicationFilterModal';
+import { getStatusColor, getStatusIcon } from '../utils/applicationStatus';
+import {
+  ApplicationFilters,
+  ApplicationSort,
+  FilterPreset,
+  DEFAULT_FILTERS,
+  DEFAULT_SORT,
+  SORT_OPTIONS,
+  applyApplicationQuery,
+  countActiveFilters,
+  isSameFilterSet,
+} from '../utils/applicationFilters';
+import { JobApplication, ApplicationStatus } from '../types';
 
-interface JobApplication {
-  id: number;
-  job_title: string;
-  company: string;
-  application_status: string;
-  location?: string;
-  salary?: string;
-  date_applied: string;
-  created_at: string;
-}
+type ViewMode = 'list' | 'board';
+
+const VIEW_MODE_PREFERENCE = 'applications/viewMode';
+const FILTER_PRESETS_PREFERENCE = 'applications/filterPresets';
 
 export default function ApplicationsScreen({ navigation }: any) {
   const [applications, setApplications] = useState<JobApplication[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<ApplicationFilters>(DEFAULT_FILTERS);
+  const [sort, setSort] = useState<ApplicationSort>(DEFAULT_SORT);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [showFilters, setShowFilters] = useState(false);
   const { user } = useAuth();
 
+  const visibleApplications = useMemo(
+    () => applyApplicationQuery(applications, { search: searchQuery, filters, sort }),
+    [applications, searchQuery, filters, sort]
+  );
+  const activeFilterCount = countActiveFilters(filters);
+  const isFiltered = activeFilterCount > 0 || !!searchQuery.trim();
+
   const loadApplications = async () => {
     try {
-      const response = await jobApplicationsApi.getAll();
-      // Handle both array response and object with applications property
-      const apps = Array.isArray(response) ? response : ((response as any).applications || []);
+      const apps = await applicationsRepository.getAll();
       setApplications(apps);
     } catch (error) {
       console.error('Error loading applications:', error);
@@ -48,31 +72,72 @@ export default function ApplicationsScreen({ navigation }: any) {
   useEffect(() => {
     if (user) {
       loadApplications();
+      preferences.get<ViewMode>(user.id, VIEW_MODE_PREFERENCE, 'list').then(setViewMode);
+      preferences.get<FilterPreset[]>(user.id, FILTER_PRESETS_PREFERENCE, []).then(setPresets);
     }
   }, [user]);
 
+  // Pick up local edits and background sync results (e.g. temp IDs swapped for server IDs)
+  useEffect(() => {
+    return applicationsRepository.subscribe(() => {
+      applicationsRepository.getCached().then(setApplications);
+    });
+  }, []);
+
   const onRefresh = () => {
     setRefreshing(true);
     loadApplications();
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case 'applied': return '#007AFF';
-      case 'interview': return '#FF9500';
-      case 'offer': return '#4CAF50';
-      case 'rejected': return '#FF3B30';
-      default: return '#8E8E93';
+  const changeViewMode = (mode: ViewMode) => {
+    setViewMode(mode);
+    if (user) {
+      preferences.set(user.id, VIEW_MODE_PREFERENCE, mode);
+    }
+  };
+
+  const savePresets = (next: FilterPreset[]) => {
+    setPresets(next);
+    if (user) {
+      preferences.set(user.id, FILTER_PRESETS_PREFERENCE, next);
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status?.toLowerCase()) {
-      case 'applied': return 'paper-plane';
-      case 'interview': return 'people';
-      case 'offer': return 'checkmark-circle';
-      case 'rejected': return 'close-circle';
-      default: return 'document';
+  const handleApplyFilters = (nextFilters: ApplicationFilters, nextSort: ApplicationSort) => {
+    setFilters(nextFilters);
+    setSort(nextSort);
+    setShowFilters(false);
+  };
+
+  const handleSavePreset = (name: string, nextFilters: ApplicationFilters, nextSort: ApplicationSort) => {
+    // Saving under an existing name replaces that preset
+    const preset: FilterPreset = { id: Date.now().toString(), name, filters: nextFilters, sort: nextSort };
+    savePresets([...presets.filter((existing) => existing.name.toLowerCase() !== name.toLowerCase()), preset]);
+    handleApplyFilters(nextFilters, nextSort);
+  };
+
+  const handleDeletePreset = (preset: FilterPreset) => {
+    Alert.alert('Delete Preset', `Delete the "${preset.name}" preset?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => savePresets(presets.filter((existing) => existing.id !== preset.id)),
+      },
+    ]);
+  };
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setFilters(DEFAULT_FILTERS);
+  };
+
+  const handleMove = async (application: JobApplication, status: ApplicationStatus) => {
+    try {
+      await applicationsRepository.update(application.id, { application_status: status });
+    } catch (error) {
+      console.error('Error moving application:', error);
+      Alert.alert('Error', 'Failed to update application status');
     }
   };
 
@@ -114,7 +179,7 @@ export default function ApplicationsScreen({ navigation }: any) {
       
       <View style={styles.cardFooter}>
         <Text style={styles.date}>
-          Applied: {formatDate(item.date_applied || item.created_at)}
+          Applied: {formatDate(item.date_applied)}
         </Text>
         {item.salary && (
           <Text style={styles.salary}>{item.salary}</Text>
@@ -123,7 +188,17 @@ export default function ApplicationsScreen({ navigation }: any) {
     </TouchableOpacity>
   );
 
-  const renderEmptyState = () => (
+  const renderEmptyState = () => isFiltered ? (
+    <View style={styles.emptyState}>
+      <Ionicons name="search-outline" size={80} color="#C7C7CC" />
+      <Text style={styles.emptyTitle}>No Matching Applications</Text>
+      <Text style={styles.emptySubtitle}>Try a different search or adjust your filters</Text>
+      <TouchableOpacity style={styles.addButton} onPress={clearFilters}>
+        <Ionicons name="close-circle" size={24} color="white" />
+        <Text style={styles.addButtonText}>Clear Filters</Text>
+      </TouchableOpacity>
+    </View>
+  ) : (
     <View style={styles.emptyState}>
       <Ionicons name="briefcase-outline" size={80} color="#C7C7CC" />
       <Text style={styles.emptyTitle}>No Applications Yet</Text>
@@ -148,27 +223,125 @@ export default function ApplicationsScreen({ navigation }: any) {
 
   return (
     <View style={styles.container}>
+      <SyncStatusBanner />
       <View style={styles.header}>
-        <Text style={styles.title}>Applications</Text>
-        <Text style={styles.subtitle}>
-          {applications.length} {applications.length === 1 ? 'application' : 'applications'}
-        </Text>
+        <View>
+          <Text style={styles.title}>Applications</Text>
+          <Text style={styles.subtitle}>
+            {isFiltered && `${visibleApplications.length} of `}
+            {applications.length} {applications.length === 1 ? 'application' : 'applications'}
+          </Text>
+        </View>
+        <View style={styles.viewToggle}>
+          {(['list', 'board'] as ViewMode[]).map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.viewToggleButton, viewMode === mode && styles.viewToggleButtonActive]}
+              onPress={() => changeViewMode(mode)}
+            >
+              <Ionicons
+                name={mode === 'list' ? 'list' : 'albums-outline'}
+                size={18}
+                color={viewMode === mode ? 'white' : '#007AFF'}
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
       </View>
 
-      <FlatList
-        data={applications}
-        renderItem={renderApplication}
-        keyExtractor={(item) => item.id.toString()}
-        contentContainerStyle={styles.listContainer}
-        refreshControl={
-          <RefreshControl
-            refreshing={refreshing}
-            onRefresh={onRefresh}
-            tintColor="#007AFF"
+      {/* Search Bar */}
+      <View style={styles.searchContainer}>
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={20} color="#8E8E93" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search company, title, location, notes..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholderTextColor="#8E8E93"
+            autoCorrect={false}
           />
-        }
-        ListEmptyComponent={renderEmptyState}
-        showsVerticalScrollIndicator={false}
+          {!!searchQuery && (
+            <TouchableOpacity onPress={() => setSearchQuery('')}>
+              <Ionicons name="close-circle" size={18} color="#C7C7CC" />
+            </TouchableOpacity>
+          )}
+        </View>
+        <TouchableOpacity style={styles.filterButton} onPress={() => setShowFilters(true)}>
+          <Ionicons name="options-outline" size={20} color="#007AFF" />
+          {activeFilterCount > 0 && (
+            <View style={styles.filterBadge}>
+              <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* Sort and saved presets */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.presetBar}
+        contentContainerStyle={styles.presetBarContent}
+      >
+        <TouchableOpacity style={styles.sortChip} onPress={() => setShowFilters(true)}>
+          <Ionicons name={sort.direction === 'asc' ? 'arrow-up' : 'arrow-down'} size={14} color="#007AFF" />
+          <Text style={styles.sortChipText}>
+            {SORT_OPTIONS.find((option) => option.field === sort.field)?.label}
+          </Text>
+        </TouchableOpacity>
+        {presets.map((preset) => {
+          const active = isSameFilterSet(preset, { filters, sort });
+          return (
+            <TouchableOpacity
+              key={preset.id}
+              style={[styles.presetChip, active && styles.presetChipActive]}
+              onPress={() => handleApplyFilters(preset.filters, preset.sort)}
+              onLongPress={() => handleDeletePreset(preset)}
+            >
+              <Ionicons name="bookmark" size={12} color={active ? 'white' : '#007AFF'} />
+              <Text style={[styles.presetChipText, active && styles.presetChipTextActive]}>{preset.name}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        {isFiltered && (
+          <TouchableOpacity style={styles.clearChip} onPress={clearFilters}>
+            <Text style={styles.clearChipText}>Clear</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {viewMode === 'board' && visibleApplications.length > 0 ? (
+        <ApplicationBoard
+          applications={visibleApplications}
+          onMove={handleMove}
+          onOpen={(application) => navigation.navigate('ApplicationDetail', { applicationId: application.id })}
+        />
+      ) : (
+        <FlatList
+          data={visibleApplications}
+          renderItem={renderApplication}
+          keyExtractor={(item) => item.id.toString()}
+          contentContainerStyle={styles.listContainer}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor="#007AFF"
+            />
+          }
+          ListEmptyComponent={renderEmptyState}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+
+      <ApplicationFilterModal
+        visible={showFilters}
+        filters={filters}
+        sort={sort}
+        onApply={handleApplyFilters}
+        onSavePreset={handleSavePreset}
+        onClose={() => setShowFilters(false)}
       />
 
       {/* Floating Action Button */}
@@ -188,9 +361,26 @@ const styles = StyleSheet.create({
     backgroundColor: '#F2F2F7',
   },
   header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     padding: 20,
     paddingBottom: 10,
   },
+  viewToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  viewToggleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  viewToggleButtonActive: {
+    backgroundColor: '#007AFF',
+  },
   title: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -201,6 +391,105 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     marginTop: 4,
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+    gap: 8,
+  },
+  searchBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#1D1D1F',
+  },
+  filterButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    backgroundColor: 'white',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: -4,
+    right: -4,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 4,
+  },
+  filterBadgeText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  presetBar: {
+    flexGrow: 0,
+  },
+  presetBarContent: {
+    paddingHorizontal: 20,
+    gap: 8,
+    alignItems: 'center',
+  },
+  sortChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    gap: 4,
+  },
+  sortChipText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  presetChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    gap: 4,
+  },
+  presetChipActive: {
+    backgroundColor: '#007AFF',
+  },
+  presetChipText: {
+    fontSize: 13,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  presetChipTextActive: {
+    color: 'white',
+  },
+  clearChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  clearChipText: {
+    fontSize: 13,
+    color: '#FF3B30',
+    fontWeight: '500',
+  },
   listContainer: {
     padding: 20,
     paddingTop: 10,
@@ -0,0 +1,379 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { backup, RestoreResult } from '../services/backup';
+import { dataExport } from '../services/dataExport';
+import {
+  BackupArchive,
+  ExistingAccountData,
+  RESTORE_ENTITY_LABELS,
+  RestoreEntity,
+  RestoreMode,
+  planRestore,
+  summarizeRestorePlan,
+} from '../utils/backup';
+
+const RESTORE_MODES: { mode: RestoreMode; label: string; detail: string }[] = [
+  { mode: 'skip', label: 'Keep Existing', detail: 'Records already in your account are left as they are' },
+  { mode: 'overwrite', label: 'Overwrite', detail: 'Records already in your account are replaced by the backup' },
+];
+
+export default function BackupRestoreScreen() {
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [existing, setExisting] = useState<ExistingAccountData | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('skip');
+  const [result, setResult] = useState<RestoreResult | null>(null);
+
+  // The dry run: recomputed whenever the mode changes, nothing is written until Restore
+  const plan = useMemo(
+    () => (archive && existing ? planRestore(archive, existing, mode) : null),
+    [archive, existing, mode]
+  );
+  const summary = plan ? summarizeRestorePlan(plan) : null;
+  const changes = summary
+    ? Object.values(summary).reduce((sum, counts) => sum + counts.create + counts.overwrite, 0)
+    : 0;
+
+  const handleCreateBackup = async () => {
+    setWorking(true);
+    setProgress('Collecting data...');
+    try {
+      const uri = await backup.create((done, total) => setProgress(`Loading follow-ups (${done}/${total})...`));
+      setProgress('');
+      await dataExport.share(uri, 'application/json');
+    } catch (error: any) {
+      console.error('Error creating backup:', error);
+      Alert.alert('Error', error?.message || 'Failed to create backup');
+    } finally {
+      setWorking(false);
+      setProgress('');
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.length) return;
+
+      setWorking(true);
+      setResult(null);
+      setProgress('Reading backup...');
+      const parsed = await backup.read(picked.assets[0].uri);
+      setProgress('Comparing with your account...');
+      setExisting(await backup.loadExisting());
+      setArchive(parsed);
+    } catch (error: any) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Error', error?.message || 'Failed to read backup');
+    } finally {
+      setWorking(false);
+      setProgress('');
+    }
+  };
+
+  const handleRestore = () => {
+    if (!plan) return;
+    Alert.alert('Restore Backup', `${changes} records will be created or overwritten. Continue?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Restore',
+        onPress: async () => {
+          setWorking(true);
+          try {
+            const restored = await backup.restore(plan, (done, total) => setProgress(`Restoring ${done} of ${total}...`));
+            setResult(restored);
+            setArchive(null);
+            setExisting(null);
+          } catch (error) {
+            console.error('Error restoring backup:', error);
+            Alert.alert('Error', 'The restore stopped unexpectedly. Running it again will skip what was already restored.');
+          } finally {
+            setWorking(false);
+            setProgress('');
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Back Up</Text>
+        <Text style={styles.bodyText}>
+          Saves every application with its follow-ups, task and calendar event to a single file you can keep anywhere.
+        </Text>
+        <TouchableOpacity
+          style={[styles.primaryButton, working && styles.buttonDisabled]}
+          onPress={handleCreateBackup}
+          disabled={working}
+        >
+          <Ionicons name="archive-outline" size={20} color="white" />
+          <Text style={styles.primaryButtonText}>Create Backup</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Restore</Text>
+        <Text style={styles.bodyText}>
+          Restores into this account. Links between applications, follow-ups, tasks and events are kept.
+        </Text>
+        <TouchableOpacity
+          style={[styles.secondaryButton, working && styles.secondaryButtonDisabled]}
+          onPress={handlePickBackup}
+          disabled={working}
+        >
+          <Ionicons name="folder-open-outline" size={20} color="#007AFF" />
+          <Text style={styles.secondaryButtonText}>Choose Backup File</Text>
+        </TouchableOpacity>
+      </View>
+
+      {working && (
+        <View style={styles.progressRow}>
+          <ActivityIndicator size="small" color="#007AFF" />
+          {!!progress && <Text style={styles.progressText}>{progress}</Text>}
+        </View>
+      )}
+
+      {archive && summary && !working && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Dry Run</Text>
+          <Text style={styles.bodyText}>
+            Backup from {new Date(archive.created_at).toLocaleString()}. Nothing has been changed yet.
+          </Text>
+
+          <Text style={styles.fieldLabel}>Records already in your account</Text>
+          {RESTORE_MODES.map((option) => (
+            <TouchableOpacity key={option.mode} style={styles.modeRow} onPress={() => setMode(option.mode)}>
+              <Ionicons
+                name={mode === option.mode ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={mode === option.mode ? '#007AFF' : '#8E8E93'}
+              />
+              <View style={styles.modeInfo}>
+                <Text style={styles.modeLabel}>{option.label}</Text>
+                <Text style={styles.modeDetail}>{option.detail}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+
+          <View style={[styles.tableRow, styles.tableHeader]}>
+            <Text style={[styles.tableCell, styles.tableEntity]} />
+            <Text style={styles.tableCell}>Create</Text>
+            <Text style={styles.tableCell}>Skip</Text>
+            <Text style={styles.tableCell}>Overwrite</Text>
+          </View>
+          {(Object.keys(summary) as RestoreEntity[]).map((entity) => (
+            <View key={entity} style={styles.tableRow}>
+              <Text style={[styles.tableCell, styles.tableEntity]}>{RESTORE_ENTITY_LABELS[entity]}</Text>
+              <Text style={[styles.tableCell, styles.tableValue]}>{summary[entity].create}</Text>
+              <Text style={[styles.tableCell, styles.tableValue]}>{summary[entity].skip}</Text>
+              <Text style={[styles.tableCell, styles.tableValue]}>{summary[entity].overwrite}</Text>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.primaryButton, changes === 0 && styles.buttonDisabled]}
+            onPress={handleRestore}
+            disabled={changes === 0}
+          >
+            <Ionicons name="refresh-circle-outline" size={20} color="white" />
+            <Text style={styles.primaryButtonText}>{changes === 0 ? 'Nothing to Restore' : 'Restore'}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {result && (
+        <View style={styles.card}>
+          <View style={styles.resultHeader}>
+            <Ionicons
+              name={result.failures.length === 0 ? 'checkmark-circle' : 'alert-circle'}
+              size={24}
+              color={result.failures.length === 0 ? '#34C759' : '#FF9500'}
+            />
+            <Text style={styles.cardTitle}>Restore Finished</Text>
+          </View>
+          <Text style={styles.bodyText}>
+            {result.created} created • {result.overwritten} overwritten • {result.skipped} skipped •{' '}
+            {result.failures.length} failed
+          </Text>
+          {result.failures.map((failure, index) => (
+            <View key={index} style={styles.failureRow}>
+              <Text style={styles.failureTitle}>
+                {RESTORE_ENTITY_LABELS[failure.entity]}: {failure.title}
+              </Text>
+              <Text style={styles.failureError}>{failure.error}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 4,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 50,
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    height: 50,
+  },
+  secondaryButtonDisabled: {
+    borderColor: '#C7C7CC',
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  modeInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  modeLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1D1D1F',
+  },
+  modeDetail: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  tableHeader: {
+    marginTop: 8,
+  },
+  tableCell: {
+    flex: 1,
+    fontSize: 12,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  tableEntity: {
+    flex: 1.6,
+    textAlign: 'left',
+    color: '#1D1D1F',
+    fontSize: 14,
+  },
+  tableValue: {
+    fontSize: 14,
+    color: '#1D1D1F',
+    fontWeight: '600',
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  failureRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  failureTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1D1D1F',
+  },
+  failureError: {
+    fontSize: 13,
+    color: '#FF3B30',
+    marginTop: 2,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -9,31 +9,37 @@ import {
   ActivityIndicator,
   Modal,
   TextInput,
+  PanResponder,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { calendarEventsApi, tasksApi } from '../services/api';
+import { eventsRepository, tasksRepository } from '../services/repositories';
+import { calendarEventsApi } from '../services/api';
+import SyncStatusBanner from '../components/SyncStatusBanner';
+import CalendarTimeline from '../components/CalendarTimeline';
 import { useAuth } from '../contexts/AuthContext';
+import { CalendarEvent, Task } from '../types';
+import {
+  CALENDAR_VIEWS,
+  CalendarView,
+  addDays,
+  buildAgenda,
+  fromDayKey,
+  getEventColor,
+  getTaskColor,
+  toDayKey,
+  weekDays,
+} from '../utils/calendarViews';
 
-interface CalendarEvent {
-  id: number;
-  title: string;
-  description?: string;
-  start_datetime: string;
-  end_datetime?: string;
-  event_type: string;
-  color?: string;
-}
+// Horizontal drag distance that counts as a swipe to the next or previous period
+const SWIPE_DISTANCE = 50;
 
-interface Task {
-  id: number;
-  title: string;
-  description?: string;
-  due_date?: string;
-  status: string;
-  priority: string;
+interface DayViewData {
+  day: string;
+  events: CalendarEvent[];
+  tasks: Task[];
 }
 
-export default function CalendarScreen() {
+export default function CalendarScreen({ route }: any) {
   const [currentDate, setCurrentDate] = useState(new Date(2025, 7, 1)); // August 2025
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
@@ -41,11 +47,47 @@ export default function CalendarScreen() {
   const [loading, setLoading] = useState(true);
   const [showEventModal, setShowEventModal] = useState(false);
   const [newEventTitle, setNewEventTitle] = useState('');
+  const [view, setView] = useState<CalendarView>('Month');
+  const [dayViewData, setDayViewData] = useState<DayViewData | null>(null);
   const { user } = useAuth();
 
+  // Reminder notifications link straight to their day
+  const linkedDate = route?.params?.date;
+  useEffect(() => {
+    if (!linkedDate) return;
+    const [year, month, day] = String(linkedDate).split('-').map(Number);
+    if (!year || !month || !day) return;
+    setCurrentDate(new Date(year, month - 1, 1));
+    setSelectedDate(new Date(year, month - 1, day));
+  }, [linkedDate]);
+
   const currentYear = currentDate.getFullYear();
   const currentMonth = currentDate.getMonth();
 
+  // Week and day views follow the selected day, or today when nothing is selected
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const focusDate = selectedDate ?? today;
+  const focusKey = toDayKey(focusDate);
+
+  useEffect(() => {
+    if (!user || view !== 'Day') return;
+    let cancelled = false;
+    calendarEventsApi
+      .getDayView(focusKey)
+      .then((data) => {
+        if (!cancelled) setDayViewData({ day: focusKey, ...data });
+      })
+      .catch((error) => {
+        // Offline the day is drawn from the local store alone
+        console.log('📅 Day view unavailable, using local data:', error?.message);
+        if (!cancelled) setDayViewData(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user, view, focusKey, events, tasks]);
+
   useEffect(() => {
     if (user) {
       console.log('📅 Calendar useEffect triggered:', { 
@@ -61,43 +103,20 @@ export default function CalendarScreen() {
   const loadCalendarData = async () => {
     try {
       setLoading(true);
+      // Events and tasks come from the local store so the calendar still works offline;
+      // the grid filters them down to the visible month
       const [eventsData, tasksData] = await Promise.all([
-        calendarEventsApi.getMonthView(currentYear, currentMonth + 1),
-        tasksApi.getAll()
+        eventsRepository.getAll(),
+        tasksRepository.getAll()
       ]);
       
-      // Handle different response formats and ensure we always have arrays
-      let eventsArray: CalendarEvent[] = [];
-      
-      // The API returns a different format - check if it has weeks structure
-      if (eventsData?.weeks && Array.isArray(eventsData.weeks)) {
-        // Extract events from the weeks structure - each week is an array of days
-        eventsArray = eventsData.weeks.flat().filter((day: any) => 
-          day && day.events && Array.isArray(day.events)
-        ).flatMap((day: any) => day.events);
-        
-        console.log('📅 Extracted events from weeks:', {
-          weeksCount: eventsData.weeks.length,
-          extractedEvents: eventsArray.length,
-          sampleDay: eventsData.weeks[0]?.[0]
-        });
-      } else if (Array.isArray(eventsData)) {
-        eventsArray = eventsData;
-      } else if (eventsData?.events && Array.isArray(eventsData.events)) {
-        eventsArray = eventsData.events;
-      }
-      
-      const tasksArray = Array.isArray(tasksData) ? tasksData : [];
-      
       console.log('📅 Calendar data loaded:', { 
-        eventsCount: eventsArray.length, 
-        tasksCount: tasksArray.length,
-        eventsData: eventsData,
-        tasksData: tasksData
+        eventsCount: eventsData.length, 
+        tasksCount: tasksData.length
       });
       
-      setEvents(eventsArray);
-      setTasks(tasksArray);
+      setEvents(eventsData);
+      setTasks(tasksData);
     } catch (error) {
       console.error('Error loading calendar data:', error);
       Alert.alert('Error', 'Failed to load calendar data');
@@ -171,25 +190,6 @@ export default function CalendarScreen() {
     return { events: dayEvents, tasks: dayTasks };
   };
 
-  const getEventColor = (eventType: string) => {
-    switch (eventType?.toLowerCase()) {
-      case 'interview': return '#FF9500';
-      case 'application': return '#007AFF';
-      case 'follow_up': return '#4CAF50';
-      case 'deadline': return '#FF3B30';
-      default: return '#8E8E93';
-    }
-  };
-
-  const getTaskColor = (priority: string) => {
-    switch (priority?.toLowerCase()) {
-      case 'high': return '#FF3B30';
-      case 'medium': return '#FF9500';
-      case 'low': return '#4CAF50';
-      default: return '#8E8E93';
-    }
-  };
-
   const navigateMonth = (direction: 'prev' | 'next') => {
     setCurrentDate(prev => {
       const newDate = new Date(prev);
@@ -202,6 +202,70 @@ export default function CalendarScreen() {
     });
   };
 
+  // Selects a day and keeps the loaded month in step with it
+  const focusOn = (day: Date) => {
+    setSelectedDate(day);
+    if (day.getFullYear() !== currentYear || day.getMonth() !== currentMonth) {
+      setCurrentDate(new Date(day.getFullYear(), day.getMonth(), 1));
+    }
+  };
+
+  const openDay = (day: Date) => {
+    focusOn(day);
+    setView('Day');
+  };
+
+  const moveFocus = (days: number) => focusOn(addDays(focusDate, days));
+
+  const navigatePeriod = (direction: 'prev' | 'next') => {
+    const step = direction === 'prev' ? -1 : 1;
+    if (view === 'Month') navigateMonth(direction);
+    else if (view === 'Week') moveFocus(step * 7);
+    else if (view === 'Day') moveFocus(step);
+  };
+
+  // The responder is created once, so it calls through a ref to see the current view
+  const navigatePeriodRef = useRef(navigatePeriod);
+  navigatePeriodRef.current = navigatePeriod;
+  const swipeResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) =>
+        Math.abs(gesture.dx) > 20 && Math.abs(gesture.dx) > Math.abs(gesture.dy) * 2,
+      onPanResponderRelease: (_, gesture) => {
+        if (gesture.dx <= -SWIPE_DISTANCE) navigatePeriodRef.current('next');
+        else if (gesture.dx >= SWIPE_DISTANCE) navigatePeriodRef.current('prev');
+      },
+    })
+  ).current;
+
+  const getPeriodTitle = () => {
+    switch (view) {
+      case 'Week': {
+        const days = weekDays(focusDate);
+        const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+        return `${format(days[0])} – ${format(days[6])}`;
+      }
+      case 'Day':
+        return focusDate.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+      case 'Agenda':
+        return 'Upcoming';
+      default:
+        return `${getMonthName(currentMonth)} ${currentYear}`;
+    }
+  };
+
+  // The day endpoint can carry records the full lists don't; local copies win
+  // so edits and events created offline still show
+  const getDayViewRecords = () => {
+    if (!dayViewData || dayViewData.day !== focusKey) return { events, tasks };
+    const eventIds = new Set(events.map((event) => event.id));
+    const taskIds = new Set(tasks.map((task) => task.id));
+    return {
+      events: [...events, ...dayViewData.events.filter((event) => !eventIds.has(event.id))],
+      tasks: [...tasks, ...dayViewData.tasks.filter((task) => !taskIds.has(task.id))],
+    };
+  };
+
   const handleDayPress = (day: number, isCurrentMonth: boolean) => {
     if (!isCurrentMonth) return;
     
@@ -406,6 +470,69 @@ export default function CalendarScreen() {
     );
   };
 
+  const renderAgenda = () => {
+    const sections = buildAgenda(events, tasks, today);
+
+    if (sections.length === 0) {
+      return (
+        <View style={[styles.selectedDaySection, styles.emptyDay]}>
+          <Ionicons name="calendar-outline" size={40} color="#C7C7CC" />
+          <Text style={styles.emptyDayText}>Nothing coming up</Text>
+        </View>
+      );
+    }
+
+    return sections.map((section) => (
+      <View key={section.day} style={styles.agendaSection}>
+        <Text style={styles.agendaDay}>
+          {fromDayKey(section.day).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+        </Text>
+        <View style={styles.agendaCard}>
+          {section.items.map((item) => (
+            <TouchableOpacity
+              key={item.key}
+              style={styles.eventItem}
+              onPress={() => openDay(fromDayKey(section.day))}
+            >
+              <View
+                style={[
+                  styles.eventColor,
+                  {
+                    backgroundColor:
+                      item.kind === 'event' ? getEventColor(item.event.event_type) : getTaskColor(item.task.priority),
+                  },
+                ]}
+              />
+              <View style={styles.eventContent}>
+                <Text style={styles.eventTitle}>{item.kind === 'event' ? item.event.title : item.task.title}</Text>
+                <Text style={styles.eventSubtitle}>
+                  {item.kind === 'event' ? 'Event' : `Task (${item.task.priority})`}
+                </Text>
+                <Text style={styles.eventTime}>
+                  {item.kind === 'event'
+                    ? item.event.is_all_day
+                      ? 'All day'
+                      : new Date(item.event.start_datetime).toLocaleTimeString('en-US', {
+                          hour: '2-digit',
+                          minute: '2-digit',
+                        })
+                    : item.task.due_time
+                      ? `Due ${new Date(item.time).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`
+                      : 'Due'}
+                </Text>
+              </View>
+              <Ionicons
+                name={item.kind === 'event' ? 'calendar' : 'checkmark-circle'}
+                size={20}
+                color="#C7C7CC"
+              />
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    ));
+  };
+
   const handleAddEvent = async () => {
     if (!newEventTitle.trim() || !selectedDate) return;
     
@@ -417,7 +544,7 @@ export default function CalendarScreen() {
         event_type: 'custom' as const
       };
       
-      await calendarEventsApi.create(eventData);
+      await eventsRepository.create(eventData);
       setNewEventTitle('');
       setShowEventModal(false);
       loadCalendarData(); // Refresh data
@@ -439,61 +566,102 @@ export default function CalendarScreen() {
 
   return (
     <View style={styles.container}>
+      <SyncStatusBanner />
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {/* Header */}
         <View style={styles.header}>
           <Text style={styles.title}>Calendar</Text>
+          <View style={styles.viewSelector}>
+            {CALENDAR_VIEWS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.viewOption, view === option && styles.viewOptionActive]}
+                onPress={() => setView(option)}
+              >
+                <Text style={[styles.viewOptionText, view === option && styles.viewOptionTextActive]}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
           <View style={styles.monthNavigator}>
-            <TouchableOpacity onPress={() => navigateMonth('prev')}>
-              <Ionicons name="chevron-back" size={24} color="#007AFF" />
-            </TouchableOpacity>
-            <Text style={styles.monthYear}>
-              {getMonthName(currentMonth)} {currentYear}
-            </Text>
-            <TouchableOpacity onPress={() => navigateMonth('next')}>
-              <Ionicons name="chevron-forward" size={24} color="#007AFF" />
-            </TouchableOpacity>
+            {view !== 'Agenda' ? (
+              <TouchableOpacity onPress={() => navigatePeriod('prev')}>
+                <Ionicons name="chevron-back" size={24} color="#007AFF" />
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.navigatorSpacer} />
+            )}
+            <Text style={styles.monthYear}>{getPeriodTitle()}</Text>
+            {view !== 'Agenda' ? (
+              <TouchableOpacity onPress={() => navigatePeriod('next')}>
+                <Ionicons name="chevron-forward" size={24} color="#007AFF" />
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.navigatorSpacer} />
+            )}
           </View>
         </View>
 
-        {/* Calendar Grid */}
-        <View style={styles.calendarContainer}>
-          {/* Day headers */}
-          <View style={styles.dayHeaders}>
-            {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
-              <Text key={day} style={styles.dayHeader}>{day}</Text>
-            ))}
+        {view === 'Week' && (
+          <View {...swipeResponder.panHandlers}>
+            <CalendarTimeline
+              days={weekDays(focusDate)}
+              events={events}
+              tasks={tasks}
+              onPressDay={openDay}
+            />
           </View>
-          
-          {/* Calendar days */}
-          <View style={styles.calendarGrid}>
-            {renderCalendar()}
+        )}
+
+        {view === 'Day' && (
+          <View {...swipeResponder.panHandlers}>
+            <CalendarTimeline days={[focusDate]} {...getDayViewRecords()} />
           </View>
-        </View>
+        )}
+
+        {view === 'Agenda' && renderAgenda()}
 
-        {/* Legend */}
-        <View style={styles.legend}>
-          <Text style={styles.legendTitle}>Legend</Text>
-          <View style={styles.legendItems}>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendDot, { backgroundColor: '#007AFF' }]} />
-              <Text style={styles.legendText}>Applications</Text>
+        {view === 'Month' && (
+          <View {...swipeResponder.panHandlers}>
+            {/* Calendar Grid */}
+            <View style={styles.calendarContainer}>
+              {/* Day headers */}
+              <View style={styles.dayHeaders}>
+                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => (
+                  <Text key={day} style={styles.dayHeader}>{day}</Text>
+                ))}
+              </View>
+          
+              {/* Calendar days */}
+              <View style={styles.calendarGrid}>
+                {renderCalendar()}
+              </View>
             </View>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendDot, { backgroundColor: '#FF9500' }]} />
-              <Text style={styles.legendText}>Interviews</Text>
+
+            {/* Legend */}
+            <View style={styles.legend}>
+              <Text style={styles.legendTitle}>Legend</Text>
+              <View style={styles.legendItems}>
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: '#007AFF' }]} />
+                  <Text style={styles.legendText}>Applications</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: '#FF9500' }]} />
+                  <Text style={styles.legendText}>Interviews</Text>
+                </View>
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendDot, { backgroundColor: '#4CAF50' }]} />
+                  <Text style={styles.legendText}>Follow-ups</Text>
+                </View>
+              </View>
             </View>
-            <View style={styles.legendItem}>
-              <View style={[styles.legendDot, { backgroundColor: '#4CAF50' }]} />
-              <Text style={styles.legendText}>Follow-ups</Text>
+
+            {/* Selected Day Events */}
+            <View style={styles.selectedDaySection}>
+              {renderSelectedDayEvents()}
             </View>
           </View>
-        </View>
-
-        {/* Selected Day Events */}
-        <View style={styles.selectedDaySection}>
-          {renderSelectedDayEvents()}
-        </View>
+        )}
       </ScrollView>
 
       {/* Add Event Modal */}
@@ -573,6 +741,58 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 3,
   },
+  viewSelector: {
+    flexDirection: 'row',
+    backgroundColor: '#E5E5EA',
+    borderRadius: 9,
+    padding: 2,
+    marginBottom: 12,
+  },
+  viewOption: {
+    flex: 1,
+    paddingVertical: 6,
+    borderRadius: 7,
+    alignItems: 'center',
+  },
+  viewOptionActive: {
+    backgroundColor: 'white',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  viewOptionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#1D1D1F',
+  },
+  viewOptionTextActive: {
+    fontWeight: '600',
+  },
+  navigatorSpacer: {
+    width: 24,
+  },
+  agendaSection: {
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  agendaDay: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
+  agendaCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
   monthYear: {
     fontSize: 18,
     fontWeight: '600',
@@ -0,0 +1,666 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Modal,
+  TextInput,
+  Linking,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { followUpsApi } from '../services/api';
+import {
+  applicationsRepository,
+  companiesRepository,
+  contactsRepository,
+  contactLinksRepository,
+} from '../services/repositories';
+import { getStatusColor } from '../utils/applicationStatus';
+import { belongsToCompany, normalizeCompanyName } from '../utils/companyMatching';
+import {
+  APPLICATION_STATUSES,
+  COMPANY_SIZES,
+  Company,
+  CompanySize,
+  Contact,
+  ContactLink,
+  FollowUp,
+  JobApplication,
+} from '../types';
+
+interface CompanyFormValues {
+  name: string;
+  website: string;
+  size?: CompanySize;
+  industry: string;
+  notes: string;
+}
+
+const toFormValues = (company: Company): CompanyFormValues => ({
+  name: company.name,
+  website: company.website || '',
+  size: company.size,
+  industry: company.industry || '',
+  notes: company.notes || '',
+});
+
+const formatDate = (dateString: string) => {
+  if (!dateString) return 'No date';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
+
+export default function CompanyDetailScreen({ route, navigation }: any) {
+  const { companyId } = route.params;
+  const [company, setCompany] = useState<Company | null>(null);
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [links, setLinks] = useState<ContactLink[]>([]);
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editValues, setEditValues] = useState<CompanyFormValues | null>(null);
+
+  const loadCompany = async () => {
+    try {
+      // Everything except the company itself is decoration, so fall back to whatever is cached
+      const [record, apps, allContacts, allLinks, allFollowUps] = await Promise.all([
+        companiesRepository.getById(companyId),
+        applicationsRepository.getAll().catch(() => applicationsRepository.getCached()),
+        contactsRepository.getAll().catch(() => contactsRepository.getCached()),
+        contactLinksRepository.getAll().catch(() => contactLinksRepository.getCached()),
+        followUpsApi.getAll().catch(() => []),
+      ]);
+      setCompany(record ?? null);
+      setApplications(apps);
+      setContacts(allContacts);
+      setLinks(allLinks);
+      setFollowUps(allFollowUps);
+    } catch (error) {
+      console.error('Error loading company:', error);
+      Alert.alert('Error', 'Failed to load company');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCompany();
+    }, [companyId])
+  );
+
+  const handleSave = async () => {
+    if (!editValues || !company) return;
+    if (!editValues.name.trim()) {
+      Alert.alert('Error', 'Company name is required');
+      return;
+    }
+
+    try {
+      const updated = await companiesRepository.update(company.id, {
+        name: editValues.name.trim(),
+        normalized_name: normalizeCompanyName(editValues.name),
+        website: editValues.website.trim(),
+        size: editValues.size,
+        industry: editValues.industry.trim(),
+        notes: editValues.notes.trim(),
+      });
+      setCompany(updated);
+      setEditValues(null);
+    } catch (error) {
+      console.error('Error updating company:', error);
+      Alert.alert('Error', 'Failed to update company');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading company...</Text>
+      </View>
+    );
+  }
+
+  if (!company) {
+    return (
+      <View style={styles.errorContainer}>
+        <Ionicons name="alert-circle" size={64} color="#FF3B30" />
+        <Text style={styles.errorText}>Company not found</Text>
+      </View>
+    );
+  }
+
+  const roles = applications
+    .filter((application) => belongsToCompany(application, company))
+    .sort((a, b) => new Date(b.date_applied).getTime() - new Date(a.date_applied).getTime());
+  const roleIds = new Set(roles.map((application) => application.id));
+
+  const outcomes = APPLICATION_STATUSES.map((status) => ({
+    status,
+    count: roles.filter((application) => application.application_status === status).length,
+  })).filter((outcome) => outcome.count > 0);
+
+  // People who work there, plus anyone linked to one of its applications
+  const linkedContactIds = new Set(
+    links.filter((link) => roleIds.has(link.job_application_id)).map((link) => link.contact_id)
+  );
+  const companyContacts = contacts.filter(
+    (contact) =>
+      linkedContactIds.has(contact.id) ||
+      (!!contact.company && normalizeCompanyName(contact.company) === normalizeCompanyName(company.name))
+  );
+
+  const interviewNotes = followUps
+    .filter(
+      (followUp) =>
+        followUp.job_application_id !== undefined &&
+        roleIds.has(followUp.job_application_id) &&
+        (followUp.notes || followUp.outcome || followUp.description)
+    )
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+  const details = [
+    company.industry && { label: 'Industry', value: company.industry },
+    company.size && { label: 'Size', value: `${company.size} employees` },
+  ].filter(Boolean) as { label: string; value: string }[];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Company */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <View style={styles.companyTitle}>
+              <Ionicons name="business" size={28} color="#007AFF" />
+              <Text style={styles.companyName}>{company.name}</Text>
+            </View>
+            <TouchableOpacity style={styles.iconButton} onPress={() => setEditValues(toFormValues(company))}>
+              <Ionicons name="create" size={22} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+
+          {details.map((detail) => (
+            <View key={detail.label} style={styles.infoRow}>
+              <Text style={styles.label}>{detail.label}</Text>
+              <Text style={styles.value}>{detail.value}</Text>
+            </View>
+          ))}
+
+          {!!company.website && (
+            <TouchableOpacity
+              style={styles.websiteRow}
+              onPress={() => {
+                const url = /^https?:\/\//i.test(company.website!) ? company.website! : `https://${company.website}`;
+                Linking.openURL(url).catch(() => Alert.alert('Error', 'Unable to open website'));
+              }}
+            >
+              <Ionicons name="globe-outline" size={18} color="#007AFF" />
+              <Text style={styles.websiteText}>{company.website}</Text>
+            </TouchableOpacity>
+          )}
+
+          {!!company.notes && <Text style={styles.notesText}>{company.notes}</Text>}
+        </View>
+
+        {/* Roles and outcomes */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Roles Applied ({roles.length})</Text>
+          </View>
+
+          {outcomes.length > 0 && (
+            <View style={styles.outcomeRow}>
+              {outcomes.map((outcome) => (
+                <View
+                  key={outcome.status}
+                  style={[styles.outcomeBadge, { backgroundColor: getStatusColor(outcome.status) }]}
+                >
+                  <Text style={styles.outcomeText}>
+                    {outcome.count} {outcome.status}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {roles.length === 0 ? (
+            <Text style={styles.emptyText}>No applications filed under this company</Text>
+          ) : (
+            roles.map((application) => (
+              <TouchableOpacity
+                key={application.id}
+                style={styles.roleRow}
+                onPress={() => navigation.navigate('ApplicationDetail', { applicationId: application.id })}
+              >
+                <View style={[styles.statusDot, { backgroundColor: getStatusColor(application.application_status) }]} />
+                <View style={styles.roleInfo}>
+                  <Text style={styles.roleTitle}>{application.job_title}</Text>
+                  <Text style={styles.roleMeta}>
+                    {application.application_status}
+                    {application.interview_stage !== 'None' && ` • ${application.interview_stage}`}
+                    {' • '}Applied {formatDate(application.date_applied)}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#C7C7CC" />
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        {/* Contacts */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Contacts</Text>
+          </View>
+
+          {companyContacts.length === 0 ? (
+            <Text style={styles.emptyText}>No contacts at this company yet</Text>
+          ) : (
+            companyContacts.map((contact) => (
+              <TouchableOpacity
+                key={contact.id}
+                style={styles.roleRow}
+                onPress={() => navigation.navigate('ContactDetail', { contactId: contact.id })}
+              >
+                <Ionicons name="person-circle-outline" size={24} color="#8E8E93" />
+                <View style={styles.roleInfo}>
+                  <Text style={styles.roleTitle}>{contact.name}</Text>
+                  {!!contact.role && <Text style={styles.roleMeta}>{contact.role}</Text>}
+                </View>
+                <Ionicons name="chevron-forward" size={18} color="#C7C7CC" />
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        {/* Interview notes */}
+        <View style={[styles.card, styles.lastCard]}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Interview Notes</Text>
+          </View>
+
+          {interviewNotes.length === 0 ? (
+            <Text style={styles.emptyText}>Notes and outcomes from follow-ups show up here</Text>
+          ) : (
+            interviewNotes.map((followUp) => {
+              const role = roles.find((application) => application.id === followUp.job_application_id);
+              return (
+                <View key={followUp.id} style={styles.noteRow}>
+                  <Text style={styles.noteTitle}>{followUp.title}</Text>
+                  <Text style={styles.noteMeta}>
+                    {role?.job_title} • {followUp.follow_up_type} • {formatDate(followUp.date)}
+                  </Text>
+                  {!!followUp.description && <Text style={styles.noteBody}>{followUp.description}</Text>}
+                  {!!followUp.outcome && <Text style={styles.noteOutcome}>Outcome: {followUp.outcome}</Text>}
+                  {!!followUp.notes && <Text style={styles.noteNotes}>{followUp.notes}</Text>}
+                </View>
+              );
+            })
+          )}
+        </View>
+      </ScrollView>
+
+      {/* Edit Company Modal */}
+      <Modal visible={!!editValues} animationType="slide" presentationStyle="pageSheet">
+        {editValues && (
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity onPress={() => setEditValues(null)}>
+                <Text style={styles.modalCancelButton}>Cancel</Text>
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Edit Company</Text>
+              <TouchableOpacity onPress={handleSave}>
+                <Text style={styles.modalSaveButton}>Save</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.modalContent}>
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Name *</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={editValues.name}
+                  onChangeText={(text) => setEditValues({ ...editValues, name: text })}
+                  placeholderTextColor="#8E8E93"
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Website</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={editValues.website}
+                  onChangeText={(text) => setEditValues({ ...editValues, website: text })}
+                  placeholder="e.g., google.com"
+                  placeholderTextColor="#8E8E93"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Size</Text>
+                <View style={styles.sizeButtons}>
+                  {COMPANY_SIZES.map((size) => (
+                    <TouchableOpacity
+                      key={size}
+                      style={[styles.sizeButton, editValues.size === size && styles.sizeButtonActive]}
+                      onPress={() =>
+                        setEditValues({ ...editValues, size: editValues.size === size ? undefined : size })
+                      }
+                    >
+                      <Text style={[styles.sizeButtonText, editValues.size === size && styles.sizeButtonTextActive]}>
+                        {size}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Industry</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={editValues.industry}
+                  onChangeText={(text) => setEditValues({ ...editValues, industry: text })}
+                  placeholder="e.g., Fintech"
+                  placeholderTextColor="#8E8E93"
+                />
+              </View>
+
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Notes</Text>
+                <TextInput
+                  style={[styles.textInput, styles.textArea]}
+                  value={editValues.notes}
+                  onChangeText={(text) => setEditValues({ ...editValues, notes: text })}
+                  placeholder="Culture, team, anything worth remembering..."
+                  placeholderTextColor="#8E8E93"
+                  multiline
+                  numberOfLines={4}
+                />
+              </View>
+            </ScrollView>
+          </View>
+        )}
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 18,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  lastCard: {
+    marginBottom: 40,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  companyTitle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  companyName: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+    marginLeft: 10,
+    flexShrink: 1,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#8E8E93',
+    flex: 1,
+  },
+  value: {
+    fontSize: 14,
+    color: '#1D1D1F',
+    flex: 2,
+    textAlign: 'right',
+    fontWeight: '500',
+  },
+  websiteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  websiteText: {
+    fontSize: 15,
+    color: '#007AFF',
+    marginLeft: 8,
+  },
+  notesText: {
+    fontSize: 14,
+    color: '#1D1D1F',
+    lineHeight: 20,
+  },
+  outcomeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  outcomeBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  outcomeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  roleInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  roleTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  roleMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  noteRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  noteTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  noteMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  noteBody: {
+    fontSize: 14,
+    color: '#1D1D1F',
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  noteOutcome: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+    marginBottom: 4,
+  },
+  noteNotes: {
+    fontSize: 14,
+    color: '#8E8E93',
+    fontStyle: 'italic',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  modalCancelButton: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  modalSaveButton: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 24,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#1D1D1F',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  textArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  sizeButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  sizeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    backgroundColor: 'white',
+  },
+  sizeButtonActive: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  sizeButtonText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#8E8E93',
+  },
+  sizeButtonTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
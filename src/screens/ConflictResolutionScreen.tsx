@@ -0,0 +1,314 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { conflictsStore, diffConflict, SyncConflict, FieldDifference } from '../services/conflicts';
+import { resolveConflict } from '../services/repositories';
+
+type Choice = 'local' | 'server';
+
+export default function ConflictResolutionScreen({ route, navigation }: any) {
+  const { conflictId } = route.params;
+  const [conflict, setConflict] = useState<SyncConflict | null>(null);
+  const [differences, setDifferences] = useState<FieldDifference[]>([]);
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    conflictsStore.getById(conflictId).then((found) => {
+      if (found) {
+        const diffs = diffConflict(found);
+        setConflict(found);
+        setDifferences(diffs);
+        // Default to this device's value for fields the user edited, the server's for everything else
+        setChoices(Object.fromEntries(diffs.map((diff) => [diff.field, diff.changedLocally ? 'local' : 'server'])));
+      }
+      setLoading(false);
+    });
+  }, [conflictId]);
+
+  const getRecordTitle = () => {
+    if (!conflict) return '';
+    const record = { ...conflict.serverRecord, ...conflict.localRecord };
+    return conflict.entity === 'applications'
+      ? `${record.job_title || 'Application'} at ${record.company || 'Unknown company'}`
+      : record.title || 'Task';
+  };
+
+  const formatValue = (value: any) => {
+    if (value === null || value === undefined || value === '') return '(empty)';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  };
+
+  const formatDateTime = (dateString?: string) => {
+    if (!dateString) return 'unknown time';
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const chooseAll = (choice: Choice) => {
+    setChoices(Object.fromEntries(differences.map((diff) => [diff.field, choice])));
+  };
+
+  const handleSave = async () => {
+    if (!conflict) return;
+
+    setSaving(true);
+    try {
+      const merged = Object.fromEntries(
+        differences.map((diff) => [diff.field, choices[diff.field] === 'local' ? diff.localValue : diff.serverValue])
+      );
+      await resolveConflict(conflict, merged);
+
+      // Move on to the next conflict, if any
+      const remaining = await conflictsStore.getAll();
+      if (remaining.length > 0) {
+        navigation.replace('ResolveConflict', { conflictId: remaining[0].id });
+      } else {
+        navigation.goBack();
+      }
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      Alert.alert('Error', 'Failed to save your choices. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  if (!conflict) {
+    return (
+      <View style={styles.errorContainer}>
+        <Ionicons name="checkmark-circle" size={64} color="#34C759" />
+        <Text style={styles.errorText}>This conflict has already been resolved</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          <Text style={styles.recordTitle}>{getRecordTitle()}</Text>
+          <Text style={styles.explanation}>
+            This {conflict.entity === 'applications' ? 'application' : 'task'} was changed somewhere else
+            (last server update {formatDateTime(conflict.serverRecord.updated_at)}) after you edited it on
+            this device. Choose which version of each field to keep.
+          </Text>
+          <View style={styles.bulkActions}>
+            <TouchableOpacity style={styles.bulkButton} onPress={() => chooseAll('local')}>
+              <Text style={styles.bulkButtonText}>Keep all mine</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.bulkButton} onPress={() => chooseAll('server')}>
+              <Text style={styles.bulkButtonText}>Keep all server</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {differences.length === 0 ? (
+          <View style={styles.card}>
+            <Text style={styles.explanation}>Both versions are identical - nothing to merge.</Text>
+          </View>
+        ) : (
+          differences.map((diff) => (
+            <View key={diff.field} style={styles.card}>
+              <View style={styles.fieldHeader}>
+                <Text style={styles.fieldLabel}>{diff.label}</Text>
+                {diff.changedLocally && <Text style={styles.editedBadge}>Edited here</Text>}
+              </View>
+
+              {(['local', 'server'] as Choice[]).map((choice) => {
+                const selected = choices[diff.field] === choice;
+                return (
+                  <TouchableOpacity
+                    key={choice}
+                    style={[styles.option, selected && styles.optionSelected]}
+                    onPress={() => setChoices({ ...choices, [diff.field]: choice })}
+                  >
+                    <Ionicons
+                      name={selected ? 'radio-button-on' : 'radio-button-off'}
+                      size={20}
+                      color={selected ? '#007AFF' : '#8E8E93'}
+                    />
+                    <View style={styles.optionContent}>
+                      <Text style={styles.optionSource}>{choice === 'local' ? 'This device' : 'Server'}</Text>
+                      <Text style={styles.optionValue}>
+                        {formatValue(choice === 'local' ? diff.localValue : diff.serverValue)}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))
+        )}
+
+        <TouchableOpacity
+          style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <>
+              <Ionicons name="git-merge" size={20} color="white" />
+              <Text style={styles.saveButtonText}>Save Merged Version</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+    padding: 40,
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 18,
+    color: '#1D1D1F',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  recordTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  explanation: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  bulkButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  bulkButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  fieldHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  editedBadge: {
+    fontSize: 12,
+    color: '#FF9500',
+    fontWeight: '600',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: 8,
+    gap: 12,
+  },
+  optionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#F0F7FF',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionSource: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  optionValue: {
+    fontSize: 14,
+    color: '#1D1D1F',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    height: 56,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 40,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,611 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Modal,
+  TextInput,
+  Linking,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { followUpsApi } from '../services/api';
+import { applicationsRepository, contactsRepository, contactLinksRepository } from '../services/repositories';
+import ContactFormModal from '../components/ContactFormModal';
+import { getStatusColor } from '../utils/applicationStatus';
+import { Contact, ContactCreate, ContactInteraction, ContactLink, FollowUp, JobApplication } from '../types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const formatDate = (dateString: string) => {
+  if (!dateString) return 'No date';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
+
+export default function ContactDetailScreen({ route, navigation }: any) {
+  const { contactId } = route.params;
+  const [contact, setContact] = useState<Contact | null>(null);
+  const [links, setLinks] = useState<ContactLink[]>([]);
+  const [applications, setApplications] = useState<JobApplication[]>([]);
+  const [followUps, setFollowUps] = useState<FollowUp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showEdit, setShowEdit] = useState(false);
+  const [showAddInteraction, setShowAddInteraction] = useState(false);
+  const [newInteraction, setNewInteraction] = useState({ date: today(), notes: '' });
+
+  const loadContact = async () => {
+    try {
+      const [record, contactLinks, apps, allFollowUps] = await Promise.all([
+        contactsRepository.getById(contactId),
+        contactLinksRepository.getForContact(contactId),
+        applicationsRepository.getAll().catch(() => applicationsRepository.getCached()),
+        // Follow-ups are only shown alongside the linked applications
+        followUpsApi.getAll().catch(() => []),
+      ]);
+      setContact(record ?? null);
+      setLinks(contactLinks);
+      setApplications(apps);
+      setFollowUps(allFollowUps);
+    } catch (error) {
+      console.error('Error loading contact:', error);
+      Alert.alert('Error', 'Failed to load contact');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadContact();
+    }, [contactId])
+  );
+
+  useEffect(() => {
+    return contactsRepository.subscribe(async () => {
+      setContact((await contactsRepository.getById(contactId)) ?? null);
+    });
+  }, [contactId]);
+
+  const handleEdit = async (values: ContactCreate) => {
+    try {
+      setContact(await contactsRepository.update(contactId, values));
+      setShowEdit(false);
+    } catch (error) {
+      console.error('Error updating contact:', error);
+      Alert.alert('Error', 'Failed to update contact');
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Contact',
+      `Delete ${contact?.name}? They will be unlinked from every application.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await contactsRepository.delete(contactId);
+              navigation.goBack();
+            } catch (error) {
+              console.error('Error deleting contact:', error);
+              Alert.alert('Error', 'Failed to delete contact');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const saveInteractions = async (interactions: ContactInteraction[]) => {
+    try {
+      setContact(await contactsRepository.update(contactId, { interactions }));
+    } catch (error) {
+      console.error('Error saving interactions:', error);
+      Alert.alert('Error', 'Failed to save interaction');
+    }
+  };
+
+  const handleAddInteraction = async () => {
+    if (!newInteraction.notes.trim()) {
+      Alert.alert('Error', 'Please describe the interaction');
+      return;
+    }
+    if (!DATE_PATTERN.test(newInteraction.date)) {
+      Alert.alert('Error', 'Date must be in YYYY-MM-DD format');
+      return;
+    }
+
+    const interaction: ContactInteraction = {
+      id: Date.now().toString(),
+      date: new Date(newInteraction.date + 'T00:00:00.000Z').toISOString(),
+      notes: newInteraction.notes.trim(),
+    };
+    await saveInteractions([interaction, ...(contact?.interactions ?? [])]);
+    setShowAddInteraction(false);
+    setNewInteraction({ date: today(), notes: '' });
+  };
+
+  const handleDeleteInteraction = (interaction: ContactInteraction) => {
+    Alert.alert('Delete Interaction', 'Remove this entry from the log?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          saveInteractions((contact?.interactions ?? []).filter((existing) => existing.id !== interaction.id)),
+      },
+    ]);
+  };
+
+  const openLink = (url: string) => {
+    Linking.openURL(url).catch(() => Alert.alert('Error', 'Unable to open link'));
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading contact...</Text>
+      </View>
+    );
+  }
+
+  if (!contact) {
+    return (
+      <View style={styles.errorContainer}>
+        <Ionicons name="alert-circle" size={64} color="#FF3B30" />
+        <Text style={styles.errorText}>Contact not found</Text>
+      </View>
+    );
+  }
+
+  const interactions = [...(contact.interactions ?? [])].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+  const linkedApplications = links
+    .map((link) => ({ link, application: applications.find((app) => app.id === link.job_application_id) }))
+    .filter((entry): entry is { link: ContactLink; application: JobApplication } => !!entry.application);
+
+  const contactMethods = [
+    contact.email && { icon: 'mail' as const, label: contact.email, url: `mailto:${contact.email}` },
+    contact.phone && { icon: 'call' as const, label: contact.phone, url: `tel:${contact.phone.replace(/[^\d+]/g, '')}` },
+    contact.linkedin_url && { icon: 'logo-linkedin' as const, label: 'LinkedIn profile', url: contact.linkedin_url },
+  ].filter(Boolean) as { icon: keyof typeof Ionicons.glyphMap; label: string; url: string }[];
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Profile */}
+        <View style={styles.card}>
+          <View style={styles.profileHeader}>
+            <View style={styles.avatar}>
+              <Text style={styles.avatarText}>{contact.name.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={styles.profileInfo}>
+              <Text style={styles.contactName}>{contact.name}</Text>
+              {!!(contact.role || contact.company) && (
+                <Text style={styles.contactDetail}>
+                  {[contact.role, contact.company].filter(Boolean).join(' at ')}
+                </Text>
+              )}
+              {!!contact.relationship && <Text style={styles.contactRelationship}>{contact.relationship}</Text>}
+            </View>
+            <TouchableOpacity style={styles.iconButton} onPress={() => setShowEdit(true)}>
+              <Ionicons name="create" size={22} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+
+          {contactMethods.map((method) => (
+            <TouchableOpacity key={method.url} style={styles.methodRow} onPress={() => openLink(method.url)}>
+              <Ionicons name={method.icon} size={18} color="#007AFF" />
+              <Text style={styles.methodText}>{method.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Linked applications */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Applications</Text>
+          </View>
+
+          {linkedApplications.length === 0 ? (
+            <Text style={styles.emptyText}>Link this contact from an application's detail screen</Text>
+          ) : (
+            linkedApplications.map(({ link, application }) => {
+              const applicationFollowUps = followUps
+                .filter((followUp) => followUp.job_application_id === application.id)
+                .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+              return (
+                <TouchableOpacity
+                  key={link.id}
+                  style={styles.applicationRow}
+                  onPress={() => navigation.navigate('ApplicationDetail', { applicationId: application.id })}
+                >
+                  <View style={styles.applicationHeader}>
+                    <View style={styles.applicationInfo}>
+                      <Text style={styles.applicationTitle}>{application.job_title}</Text>
+                      <Text style={styles.applicationCompany}>{application.company}</Text>
+                    </View>
+                    <View style={styles.roleBadge}>
+                      <Text style={styles.roleBadgeText}>{link.role}</Text>
+                    </View>
+                  </View>
+                  <View style={styles.applicationMeta}>
+                    <View style={[styles.statusDot, { backgroundColor: getStatusColor(application.application_status) }]} />
+                    <Text style={styles.applicationMetaText}>
+                      {application.application_status} • Applied {formatDate(application.date_applied)}
+                    </Text>
+                  </View>
+
+                  {applicationFollowUps.map((followUp) => (
+                    <View key={followUp.id} style={styles.followUpRow}>
+                      <Ionicons name="chatbubble-ellipses-outline" size={14} color="#8E8E93" />
+                      <Text style={styles.followUpText} numberOfLines={1}>
+                        {followUp.title} • {followUp.follow_up_type} • {formatDate(followUp.date)}
+                      </Text>
+                    </View>
+                  ))}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </View>
+
+        {/* Interaction log */}
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>Interactions</Text>
+            <TouchableOpacity style={styles.iconButton} onPress={() => setShowAddInteraction(true)}>
+              <Ionicons name="add" size={20} color="#007AFF" />
+            </TouchableOpacity>
+          </View>
+
+          {interactions.length === 0 ? (
+            <Text style={styles.emptyText}>No interactions logged yet</Text>
+          ) : (
+            interactions.map((interaction) => (
+              <TouchableOpacity
+                key={interaction.id}
+                style={styles.interactionRow}
+                onLongPress={() => handleDeleteInteraction(interaction)}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.interactionDate}>{formatDate(interaction.date)}</Text>
+                <Text style={styles.interactionNotes}>{interaction.notes}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+          <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+          <Text style={styles.deleteButtonText}>Delete Contact</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <ContactFormModal
+        visible={showEdit}
+        contact={contact}
+        onSave={handleEdit}
+        onClose={() => setShowEdit(false)}
+      />
+
+      {/* Add Interaction Modal */}
+      <Modal visible={showAddInteraction} animationType="slide" presentationStyle="pageSheet">
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowAddInteraction(false)}>
+              <Text style={styles.modalCancelButton}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Log Interaction</Text>
+            <TouchableOpacity onPress={handleAddInteraction}>
+              <Text style={styles.modalSaveButton}>Save</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Date</Text>
+              <TextInput
+                style={styles.textInput}
+                value={newInteraction.date}
+                onChangeText={(text) => setNewInteraction({ ...newInteraction, date: text })}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor="#8E8E93"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Notes *</Text>
+              <TextInput
+                style={[styles.textInput, styles.textArea]}
+                value={newInteraction.notes}
+                onChangeText={(text) => setNewInteraction({ ...newInteraction, notes: text })}
+                placeholder="e.g., Coffee chat about the platform team"
+                placeholderTextColor="#8E8E93"
+                multiline
+                numberOfLines={4}
+              />
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 18,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  iconButton: {
+    padding: 8,
+  },
+  profileHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#E5F0FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  contactName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  contactDetail: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  contactRelationship: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginTop: 4,
+  },
+  methodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  methodText: {
+    fontSize: 15,
+    color: '#007AFF',
+    marginLeft: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  applicationRow: {
+    padding: 12,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  applicationHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  applicationInfo: {
+    flex: 1,
+  },
+  applicationTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  applicationCompany: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  roleBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#5856D6',
+    marginLeft: 8,
+  },
+  roleBadgeText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  applicationMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  applicationMetaText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  followUpRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  followUpText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#1D1D1F',
+    marginLeft: 6,
+  },
+  interactionRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  interactionDate: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  interactionNotes: {
+    fontSize: 14,
+    color: '#1D1D1F',
+    lineHeight: 20,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    marginBottom: 40,
+    backgroundColor: '#FFF5F5',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FFE5E5',
+  },
+  deleteButtonText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  modalCancelButton: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+  },
+  modalSaveButton: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  inputGroup: {
+    marginBottom: 24,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#1D1D1F',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  textArea: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+});
@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  ActivityIndicator,
+  TextInput,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { contactsRepository } from '../services/repositories';
+import ContactFormModal from '../components/ContactFormModal';
+import { Contact, ContactCreate } from '../types';
+
+const SEARCH_FIELDS: (keyof Contact)[] = ['name', 'company', 'role', 'email', 'relationship'];
+
+export default function ContactsScreen({ navigation }: any) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showAddContact, setShowAddContact] = useState(false);
+
+  const visibleContacts = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return contacts
+      .filter((contact) =>
+        !query || SEARCH_FIELDS.some((field) => String(contact[field] ?? '').toLowerCase().includes(query))
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [contacts, searchQuery]);
+
+  const loadContacts = async () => {
+    try {
+      setContacts(await contactsRepository.getAll());
+    } catch (error) {
+      console.error('Error loading contacts:', error);
+      Alert.alert('Error', 'Failed to load contacts');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    loadContacts();
+    return contactsRepository.subscribe(() => {
+      contactsRepository.getCached().then(setContacts);
+    });
+  }, []);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadContacts();
+  };
+
+  const handleAddContact = async (values: ContactCreate) => {
+    try {
+      const contact = await contactsRepository.create({ ...values, interactions: [] });
+      setShowAddContact(false);
+      navigation.navigate('ContactDetail', { contactId: contact.id });
+    } catch (error) {
+      console.error('Error adding contact:', error);
+      Alert.alert('Error', 'Failed to add contact');
+    }
+  };
+
+  const renderContact = ({ item }: { item: Contact }) => (
+    <TouchableOpacity
+      style={styles.contactCard}
+      onPress={() => navigation.navigate('ContactDetail', { contactId: item.id })}
+    >
+      <View style={styles.avatar}>
+        <Text style={styles.avatarText}>{item.name.charAt(0).toUpperCase()}</Text>
+      </View>
+      <View style={styles.contactInfo}>
+        <Text style={styles.contactName}>{item.name}</Text>
+        {!!(item.role || item.company) && (
+          <Text style={styles.contactDetail}>
+            {[item.role, item.company].filter(Boolean).join(' at ')}
+          </Text>
+        )}
+        {!!item.relationship && <Text style={styles.contactRelationship}>{item.relationship}</Text>}
+      </View>
+      <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+    </TouchableOpacity>
+  );
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <Ionicons name="people-outline" size={64} color="#C7C7CC" />
+      <Text style={styles.emptyTitle}>{searchQuery ? 'No matches' : 'No contacts yet'}</Text>
+      <Text style={styles.emptySubtitle}>
+        {searchQuery
+          ? 'Try a different name or company'
+          : 'Keep track of referrers, recruiters and interviewers'}
+      </Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading contacts...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchContainer}>
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={20} color="#8E8E93" />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search name, company, role..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholderTextColor="#8E8E93"
+            autoCorrect={false}
+          />
+          {!!searchQuery && (
+            <TouchableOpacity onPress={() => setSearchQuery('')}>
+              <Ionicons name="close-circle" size={18} color="#C7C7CC" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <FlatList
+        data={visibleContacts}
+        renderItem={renderContact}
+        keyExtractor={(item) => item.id.toString()}
+        contentContainerStyle={styles.listContainer}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor="#007AFF" />}
+        ListEmptyComponent={renderEmptyState}
+        showsVerticalScrollIndicator={false}
+      />
+
+      <ContactFormModal
+        visible={showAddContact}
+        onSave={handleAddContact}
+        onClose={() => setShowAddContact(false)}
+      />
+
+      <TouchableOpacity style={styles.fab} onPress={() => setShowAddContact(true)}>
+        <Ionicons name="person-add" size={22} color="white" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  searchContainer: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  searchInput: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#1D1D1F',
+  },
+  listContainer: {
+    paddingHorizontal: 20,
+    paddingBottom: 100,
+  },
+  contactCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: '#E5F0FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  avatarText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  contactInfo: {
+    flex: 1,
+  },
+  contactName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  contactDetail: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  contactRelationship: {
+    fontSize: 12,
+    color: '#007AFF',
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+  emptyTitle: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1D1D1F',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingHorizontal: 40,
+  },
+  fab: {
+    position: 'absolute',
+    bottom: 20,
+    right: 20,
+    backgroundColor: '#007AFF',
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -13,8 +13,14 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { jobApplicationsApi, tasksApi } from '../services/api';
+import { tasksRepository } from '../services/repositories';
+import { followUpReminders } from '../services/followUpReminders';
+import { staleApplications, PipelineReview } from '../services/staleApplications';
+import { useAuth } from '../contexts/AuthContext';
+import { FollowUpSuggestion, describeSuggestion } from '../utils/followUpReminders';
+import SyncStatusBanner from '../components/SyncStatusBanner';
 import { SummaryStats, TaskSummary, Task } from '../types';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList } from '../types';
 
@@ -24,22 +30,26 @@ type DashboardScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Ma
 
 export default function DashboardScreen() {
   const navigation = useNavigation<DashboardScreenNavigationProp>();
+  const { user } = useAuth();
   const [stats, setStats] = useState<SummaryStats | null>(null);
   const [taskSummary, setTaskSummary] = useState<TaskSummary | null>(null);
   const [todayTasks, setTodayTasks] = useState<Task[]>([]);
+  const [suggestions, setSuggestions] = useState<FollowUpSuggestion[]>([]);
+  const [pipeline, setPipeline] = useState<PipelineReview | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadDashboardData = async () => {
     try {
+      // Stats are computed by the backend, so offline we keep whatever was shown last
       const [statsData, taskSummaryData, allTasks] = await Promise.all([
-        jobApplicationsApi.getStats(),
-        tasksApi.getSummary(),
-        tasksApi.getAll(),
+        jobApplicationsApi.getStats().catch(() => null),
+        tasksApi.getSummary().catch(() => null),
+        tasksRepository.getAll(),
       ]);
 
-      setStats(statsData);
-      setTaskSummary(taskSummaryData);
+      if (statsData) setStats(statsData);
+      if (taskSummaryData) setTaskSummary(taskSummaryData);
 
       // Filter tasks for today
       const today = new Date().toISOString().split('T')[0];
@@ -64,6 +74,15 @@ export default function DashboardScreen() {
         .slice(0, 5); // Show top 5 tasks
 
       setTodayTasks(todayTasksFiltered);
+
+      if (user) {
+        const [suggestionsData, pipelineData] = await Promise.all([
+          followUpReminders.scan(user.id).catch(() => []),
+          staleApplications.review(user.id).catch(() => null),
+        ]);
+        setSuggestions(suggestionsData);
+        if (pipelineData) setPipeline(pipelineData);
+      }
     } catch (error) {
       console.error('Error loading dashboard data:', error);
       Alert.alert('Error', 'Failed to load dashboard data');
@@ -73,9 +92,12 @@ export default function DashboardScreen() {
     }
   };
 
-  useEffect(() => {
-    loadDashboardData();
-  }, []);
+  // Reload on focus so reviewed stale applications and accepted suggestions drop off
+  useFocusEffect(
+    useCallback(() => {
+      loadDashboardData();
+    }, [])
+  );
 
   const onRefresh = () => {
     setRefreshing(true);
@@ -85,7 +107,7 @@ export default function DashboardScreen() {
   const handleTaskToggle = async (task: Task) => {
     try {
       const newStatus = task.status === 'completed' ? 'pending' : 'completed';
-      await tasksApi.update(task.id, {
+      await tasksRepository.update(task.id, {
         status: newStatus,
         completed_at: newStatus === 'completed' ? new Date().toISOString() : undefined,
       });
@@ -98,6 +120,31 @@ export default function DashboardScreen() {
     }
   };
 
+  const handleAcceptSuggestion = async (suggestion: FollowUpSuggestion) => {
+    try {
+      await followUpReminders.accept(suggestion);
+      loadDashboardData();
+    } catch (error) {
+      console.error('Error creating follow-up task:', error);
+      Alert.alert('Error', 'Failed to create task');
+    }
+  };
+
+  const handleDismissSuggestion = (suggestion: FollowUpSuggestion) => {
+    if (!user) return;
+    Alert.alert('Dismiss Suggestion', 'This suggestion will not be shown again.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Dismiss',
+        style: 'destructive',
+        onPress: async () => {
+          await followUpReminders.dismiss(user.id, suggestion);
+          setSuggestions((current) => current.filter((candidate) => candidate.key !== suggestion.key));
+        },
+      },
+    ]);
+  };
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'urgent': return '#FF3B30';
@@ -116,6 +163,10 @@ export default function DashboardScreen() {
     navigation.navigate('AddTask');
   };
 
+  const handleViewAnalytics = () => {
+    navigation.navigate('Analytics');
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
@@ -127,6 +178,7 @@ export default function DashboardScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
+      <SyncStatusBanner />
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
@@ -149,15 +201,17 @@ export default function DashboardScreen() {
               <View style={styles.statIconContainer}>
                 <Ionicons name="briefcase" size={20} color="#007AFF" />
               </View>
-              <Text style={styles.statNumber}>{stats?.total_applications || 0}</Text>
-              <Text style={styles.statLabel}>Applications</Text>
+              {/* Stale applications are left out of the active pipeline */}
+              <Text style={styles.statNumber}>{pipeline?.active ?? stats?.total_applications ?? 0}</Text>
+              <Text style={styles.statLabel}>{pipeline ? 'Active Applications' : 'Applications'}</Text>
             </View>
             <View style={styles.statCard}>
               <View style={styles.statIconContainer}>
                 <Ionicons name="calendar" size={20} color="#FF9500" />
               </View>
+              {/* Backend totals count every application, stale ones included */}
               <Text style={styles.statNumber}>{stats?.interviews_scheduled || 0}</Text>
-              <Text style={styles.statLabel}>Interviews</Text>
+              <Text style={styles.statLabel}>All-Time Interviews</Text>
             </View>
             <View style={styles.statCard}>
               <View style={styles.statIconContainer}>
@@ -171,9 +225,18 @@ export default function DashboardScreen() {
                 <Ionicons name="trending-up" size={20} color="#5856D6" />
               </View>
               <Text style={styles.statNumber}>{stats?.response_rate?.toFixed(1) || 0}%</Text>
-              <Text style={styles.statLabel}>Response Rate</Text>
+              <Text style={styles.statLabel}>All-Time Response Rate</Text>
             </View>
           </View>
+          {!!pipeline?.stale.length && (
+            <TouchableOpacity style={styles.staleBanner} onPress={() => navigation.navigate('StaleApplications')}>
+              <Ionicons name="hourglass-outline" size={20} color="#FF9500" />
+              <Text style={styles.staleBannerText}>
+                {pipeline.stale.length} stale {pipeline.stale.length === 1 ? 'application' : 'applications'} to review
+              </Text>
+              <Ionicons name="chevron-forward" size={18} color="#C7C7CC" />
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Quick Actions */}
@@ -200,9 +263,61 @@ export default function DashboardScreen() {
               </View>
               <Text style={styles.actionButtonText}>Add Task</Text>
             </TouchableOpacity>
+            <TouchableOpacity 
+              style={styles.actionButton}
+              onPress={handleViewAnalytics}
+              activeOpacity={0.7}
+            >
+              <View style={styles.actionIconContainer}>
+                <Ionicons name="stats-chart" size={24} color="#5856D6" />
+              </View>
+              <Text style={styles.actionButtonText}>Analytics</Text>
+            </TouchableOpacity>
           </View>
         </View>
 
+        {/* Suggested Follow-ups */}
+        {suggestions.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Suggested Follow-ups</Text>
+              <TouchableOpacity onPress={() => navigation.navigate('ReminderSettings')}>
+                <Ionicons name="settings-outline" size={20} color="#007AFF" />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.tasksList}>
+              {suggestions.map((suggestion) => (
+                <TouchableOpacity
+                  key={suggestion.key}
+                  style={styles.suggestionItem}
+                  onPress={() => navigation.navigate('ApplicationDetail', { applicationId: suggestion.application.id })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.taskTitle}>
+                    {suggestion.application.job_title} at {suggestion.application.company}
+                  </Text>
+                  <Text style={styles.suggestionReason}>{describeSuggestion(suggestion)}</Text>
+                  <View style={styles.suggestionActions}>
+                    <TouchableOpacity
+                      style={styles.suggestionAccept}
+                      onPress={() => handleAcceptSuggestion(suggestion)}
+                    >
+                      <Ionicons name="add-circle-outline" size={16} color="white" />
+                      <Text style={styles.suggestionAcceptText}>Create Task</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.suggestionDismiss}
+                      onPress={() => handleDismissSuggestion(suggestion)}
+                    >
+                      <Text style={styles.suggestionDismissText}>Dismiss</Text>
+                    </TouchableOpacity>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Today's Tasks */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -378,6 +493,20 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  staleBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    backgroundColor: '#FFF4E5',
+    borderRadius: 12,
+  },
+  staleBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1D1D1F',
+    fontWeight: '500',
+  },
   quickActions: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -457,6 +586,48 @@ const styles = StyleSheet.create({
   taskCheckbox: {
     marginLeft: 12,
   },
+  suggestionItem: {
+    padding: 16,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+  },
+  suggestionReason: {
+    fontSize: 12,
+    color: '#FF9500',
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  suggestionActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  suggestionAccept: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  suggestionAcceptText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  suggestionDismiss: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#C7C7CC',
+  },
+  suggestionDismissText: {
+    color: '#8E8E93',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   emptyState: {
     alignItems: 'center',
     padding: 32,
@@ -0,0 +1,379 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useConfig } from '../contexts/ConfigContext';
+import {
+  BackendEnvironment,
+  EnvironmentId,
+  HealthCheckResult,
+  getPresetEnvironments,
+  getSavedCustomEnvironment,
+  checkApiHealth,
+  checkSupabaseHealth,
+} from '../lib/config';
+
+export default function DeveloperSettingsScreen() {
+  const { environment, switchEnvironment } = useConfig();
+  const presets = getPresetEnvironments();
+  const [selectedId, setSelectedId] = useState<EnvironmentId>(environment.id);
+  const [customApiUrl, setCustomApiUrl] = useState(environment.id === 'custom' ? environment.apiUrl : '');
+  const [customSupabaseUrl, setCustomSupabaseUrl] = useState(environment.supabaseUrl);
+  const [customAnonKey, setCustomAnonKey] = useState(environment.supabaseAnonKey);
+  const [checking, setChecking] = useState(false);
+  const [apiHealth, setApiHealth] = useState<HealthCheckResult | null>(null);
+  const [supabaseHealth, setSupabaseHealth] = useState<HealthCheckResult | null>(null);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    // Prefill the custom fields with whatever custom backend was used last
+    getSavedCustomEnvironment().then((custom) => {
+      if (custom && environment.id !== 'custom') {
+        setCustomApiUrl(custom.apiUrl);
+        setCustomSupabaseUrl(custom.supabaseUrl);
+        setCustomAnonKey(custom.supabaseAnonKey);
+      }
+    });
+    runHealthCheck(environment);
+  }, []);
+
+  const getSelectedEnvironment = (): BackendEnvironment | null => {
+    if (selectedId !== 'custom') {
+      return presets.find((preset) => preset.id === selectedId) ?? null;
+    }
+    if (!customApiUrl.trim() || !customSupabaseUrl.trim() || !customAnonKey.trim()) {
+      return null;
+    }
+    return {
+      id: 'custom',
+      label: 'Custom',
+      apiUrl: customApiUrl.trim().replace(/\/$/, ''),
+      supabaseUrl: customSupabaseUrl.trim().replace(/\/$/, ''),
+      supabaseAnonKey: customAnonKey.trim(),
+    };
+  };
+
+  const runHealthCheck = async (env: BackendEnvironment) => {
+    setChecking(true);
+    setApiHealth(null);
+    setSupabaseHealth(null);
+    try {
+      const [api, auth] = await Promise.all([checkApiHealth(env), checkSupabaseHealth(env)]);
+      setApiHealth(api);
+      setSupabaseHealth(auth);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleTestConnection = () => {
+    const env = getSelectedEnvironment();
+    if (!env) {
+      Alert.alert('Error', 'Please fill in the API URL, Supabase URL and anon key');
+      return;
+    }
+    runHealthCheck(env);
+  };
+
+  const handleApply = () => {
+    const env = getSelectedEnvironment();
+    if (!env) {
+      Alert.alert('Error', 'Please fill in the API URL, Supabase URL and anon key');
+      return;
+    }
+
+    const signsOut = env.supabaseUrl !== environment.supabaseUrl;
+    Alert.alert(
+      `Switch to ${env.label}?`,
+      `Locally saved data and unsynced changes will be cleared.${signsOut ? ' You will be signed out.' : ''}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch',
+          style: 'destructive',
+          onPress: async () => {
+            setApplying(true);
+            try {
+              await switchEnvironment(env);
+            } catch (error) {
+              console.error('Error switching environment:', error);
+              Alert.alert('Error', 'Failed to switch environment');
+            } finally {
+              setApplying(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderHealth = (label: string, result: HealthCheckResult | null) => (
+    <View style={styles.healthRow}>
+      <Text style={styles.healthLabel}>{label}</Text>
+      {checking ? (
+        <ActivityIndicator size="small" color="#007AFF" />
+      ) : result ? (
+        <View style={styles.healthStatus}>
+          <Ionicons
+            name={result.reachable ? 'checkmark-circle' : 'close-circle'}
+            size={18}
+            color={result.reachable ? '#34C759' : '#FF3B30'}
+          />
+          <Text style={[styles.healthText, { color: result.reachable ? '#34C759' : '#FF3B30' }]}>
+            {result.reachable
+              ? `Reachable (HTTP ${result.status}, ${result.latencyMs} ms)`
+              : `Unreachable${result.error ? `: ${result.error}` : ''}`}
+          </Text>
+        </View>
+      ) : (
+        <Text style={styles.healthText}>Not checked</Text>
+      )}
+    </View>
+  );
+
+  const options: { id: EnvironmentId; label: string; detail: string }[] = [
+    ...presets.map((preset) => ({ id: preset.id, label: preset.label, detail: preset.apiUrl })),
+    { id: 'custom', label: 'Custom', detail: 'Enter your own backend URLs' },
+  ];
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Active Environment</Text>
+        <Text style={styles.activeLabel}>{environment.label}</Text>
+        <Text style={styles.activeDetail}>API: {environment.apiUrl}</Text>
+        <Text style={styles.activeDetail}>Supabase: {environment.supabaseUrl}</Text>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Environments</Text>
+        {options.map((option) => {
+          const selected = selectedId === option.id;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => setSelectedId(option.id)}
+            >
+              <Ionicons
+                name={selected ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={selected ? '#007AFF' : '#8E8E93'}
+              />
+              <View style={styles.optionContent}>
+                <Text style={styles.optionLabel}>{option.label}</Text>
+                <Text style={styles.optionDetail}>{option.detail}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        {selectedId === 'custom' && (
+          <View>
+            <Text style={styles.label}>API Base URL</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="http://192.168.1.10:8000/api/v1"
+              value={customApiUrl}
+              onChangeText={setCustomApiUrl}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+
+            <Text style={styles.label}>Supabase URL</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="https://your-project.supabase.co"
+              value={customSupabaseUrl}
+              onChangeText={setCustomSupabaseUrl}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+
+            <Text style={styles.label}>Supabase Anon Key</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="eyJhbGciOi..."
+              value={customAnonKey}
+              onChangeText={setCustomAnonKey}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Connection</Text>
+          <TouchableOpacity onPress={handleTestConnection} disabled={checking}>
+            <Text style={styles.linkText}>Test connection</Text>
+          </TouchableOpacity>
+        </View>
+        {renderHealth('API', apiHealth)}
+        {renderHealth('Supabase', supabaseHealth)}
+      </View>
+
+      <View style={styles.submitSection}>
+        <TouchableOpacity
+          style={[styles.submitButton, applying && styles.submitButtonDisabled]}
+          onPress={handleApply}
+          disabled={applying}
+        >
+          {applying ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <>
+              <Ionicons name="swap-horizontal" size={20} color="white" />
+              <Text style={styles.submitButtonText}>Use This Environment</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  section: {
+    backgroundColor: 'white',
+    margin: 20,
+    marginBottom: 10,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 16,
+  },
+  activeLabel: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#007AFF',
+    marginBottom: 8,
+  },
+  activeDetail: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    marginBottom: 8,
+    gap: 12,
+  },
+  optionSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#F0F7FF',
+  },
+  optionContent: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1D1D1F',
+  },
+  optionDetail: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1D1D1F',
+    marginBottom: 8,
+    marginTop: 16,
+  },
+  input: {
+    height: 50,
+    borderColor: '#E5E5E5',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    color: '#1D1D1F',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+    marginBottom: 16,
+  },
+  healthRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  healthLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+    width: 80,
+  },
+  healthStatus: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 6,
+  },
+  healthText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    flexShrink: 1,
+  },
+  submitSection: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  submitButton: {
+    backgroundColor: '#007AFF',
+    height: 56,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
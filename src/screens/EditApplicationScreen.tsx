@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { applicationsRepository, companiesRepository } from '../services/repositories';
+import { undoStore } from '../services/undo';
+import ApplicationForm, {
+  ApplicationFormValues,
+  applicationToFormValues,
+  diffApplicationForm,
+  isApplicationFormDirty,
+  validateApplicationForm,
+} from '../components/ApplicationForm';
+import CompanySuggestions from '../components/CompanySuggestions';
+import { Company, JobApplication } from '../types';
+
+export default function EditApplicationScreen({ route, navigation }: any) {
+  const { id } = route.params;
+  const [application, setApplication] = useState<JobApplication | null>(null);
+  const [initialValues, setInitialValues] = useState<ApplicationFormValues | null>(null);
+  const [form, setForm] = useState<ApplicationFormValues | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  // Set once the edit has been saved or deleted so leaving doesn't ask to discard
+  const allowLeave = useRef(false);
+
+  const dirty = !!initialValues && !!form && isApplicationFormDirty(initialValues, form);
+
+  useEffect(() => {
+    const loadApplication = async () => {
+      try {
+        const record = await applicationsRepository.getById(id);
+        if (record) {
+          const values = applicationToFormValues(record);
+          setApplication(record);
+          setInitialValues(values);
+          setForm(values);
+        }
+      } catch (error) {
+        console.error('Error loading application:', error);
+        Alert.alert('Error', 'Failed to load application');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadApplication();
+    companiesRepository
+      .getAll()
+      .catch(() => companiesRepository.getCached())
+      .then(setCompanies);
+  }, [id]);
+
+  useEffect(() => {
+    // Ask before throwing away unsaved edits, however the screen is being left
+    return navigation.addListener('beforeRemove', (e: any) => {
+      if (!dirty || allowLeave.current) return;
+
+      e.preventDefault();
+      Alert.alert('Discard changes?', 'You have unsaved changes to this application.', [
+        { text: 'Keep Editing', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => navigation.dispatch(e.data.action),
+        },
+      ]);
+    });
+  }, [navigation, dirty]);
+
+  const updateField = <K extends keyof ApplicationFormValues>(field: K, value: ApplicationFormValues[K]) => {
+    setForm((current) => (current ? { ...current, [field]: value } : current));
+  };
+
+  const handleSave = async () => {
+    if (!form || !initialValues || !application) return;
+
+    const validationError = validateApplicationForm(form);
+    if (validationError) {
+      Alert.alert('Error', validationError);
+      return;
+    }
+
+    if (!dirty) {
+      navigation.goBack();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const changes = diffApplicationForm(initialValues, form);
+      // Renaming the company moves the application to the matching (or a new) company
+      if (changes.company) {
+        const company = await companiesRepository.findOrCreate(changes.company);
+        changes.company = company.name;
+        changes.company_id = company.id;
+      }
+      console.log('🔍 Updating application:', application.id, changes);
+      await applicationsRepository.update(application.id, changes);
+      allowLeave.current = true;
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error updating application:', error);
+      Alert.alert('Error', 'Failed to save changes. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!application) return;
+
+    Alert.alert(
+      'Delete Application',
+      `Delete your application for ${application.job_title} at ${application.company}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const undo = await applicationsRepository.deleteWithUndo(application.id);
+              undoStore.show(`Deleted ${application.job_title} at ${application.company}`, undo);
+              allowLeave.current = true;
+              // The detail screen underneath shows a record that no longer exists
+              navigation.popToTop();
+            } catch (error) {
+              console.error('Error deleting application:', error);
+              Alert.alert('Error', 'Failed to delete application');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading application...</Text>
+      </View>
+    );
+  }
+
+  if (!application || !form) {
+    return (
+      <View style={styles.errorContainer}>
+        <Ionicons name="alert-circle" size={64} color="#FF3B30" />
+        <Text style={styles.errorText}>Application not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.cancelButton}>Cancel</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Edit Application</Text>
+        <TouchableOpacity onPress={handleSave} disabled={saving || !dirty}>
+          {saving ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <Text style={[styles.saveButton, !dirty && styles.saveButtonDisabled]}>Save</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {dirty && (
+          <View style={styles.unsavedNotice}>
+            <Ionicons name="ellipse" size={8} color="#FF9500" />
+            <Text style={styles.unsavedText}>Unsaved changes</Text>
+          </View>
+        )}
+
+        <ApplicationForm
+          values={form}
+          onChange={updateField}
+          companyHint={
+            <CompanySuggestions
+              name={form.company}
+              companies={companies}
+              onSelect={(company) => updateField('company', company.name)}
+            />
+          }
+        />
+
+        <View style={styles.deleteSection}>
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+            <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+            <Text style={styles.deleteButtonText}>Delete Application</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  errorText: {
+    marginTop: 16,
+    fontSize: 18,
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  saveButton: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  saveButtonDisabled: {
+    color: '#C7C7CC',
+  },
+  content: {
+    flex: 1,
+  },
+  unsavedNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginHorizontal: 20,
+    marginTop: 16,
+  },
+  unsavedText: {
+    fontSize: 13,
+    color: '#FF9500',
+    fontWeight: '500',
+  },
+  deleteSection: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  deleteButton: {
+    backgroundColor: 'white',
+    height: 56,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  deleteButtonText: {
+    color: '#FF3B30',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,389 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { dataExport } from '../services/dataExport';
+import {
+  EXPORT_ENTITIES,
+  EXPORT_ENTITY_LABELS,
+  ExportDateRange,
+  ExportEntity,
+  buildCsvFiles,
+  buildJsonDocument,
+  buildJsonFile,
+} from '../utils/dataExport';
+
+type ExportFormat = 'csv' | 'json';
+
+const RANGE_PRESETS = ['All Time', 'Last 30 Days', 'Last 90 Days', 'This Year', 'Custom'] as const;
+type RangePreset = typeof RANGE_PRESETS[number];
+
+interface WrittenFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+}
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+// Custom dates are typed as YYYY-MM-DD; "to" covers the whole of its day
+const parseDay = (value: string, endOfDay: boolean) => {
+  if (!value.trim()) return undefined;
+  const date = new Date(`${value.trim()}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return null;
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date;
+};
+
+export default function ExportDataScreen() {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [entities, setEntities] = useState<ExportEntity[]>([...EXPORT_ENTITIES]);
+  const [preset, setPreset] = useState<RangePreset>('All Time');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [files, setFiles] = useState<WrittenFile[]>([]);
+
+  const toggleEntity = (entity: ExportEntity) => {
+    setEntities((current) =>
+      current.includes(entity) ? current.filter((selected) => selected !== entity) : [...current, entity]
+    );
+  };
+
+  const getRange = (): ExportDateRange | null => {
+    switch (preset) {
+      case 'Last 30 Days':
+        return { from: daysAgo(30) };
+      case 'Last 90 Days':
+        return { from: daysAgo(90) };
+      case 'This Year':
+        return { from: new Date(new Date().getFullYear(), 0, 1) };
+      case 'Custom': {
+        const from = parseDay(customFrom, false);
+        const to = parseDay(customTo, true);
+        if (from === null || to === null) return null;
+        return { from, to };
+      }
+      default:
+        return {};
+    }
+  };
+
+  const handleExport = async () => {
+    if (entities.length === 0) {
+      Alert.alert('Error', 'Choose at least one kind of data to export');
+      return;
+    }
+    const range = getRange();
+    if (!range) {
+      Alert.alert('Error', 'Dates must be valid (YYYY-MM-DD)');
+      return;
+    }
+
+    setExporting(true);
+    setFiles([]);
+    setProgress('Loading data...');
+    try {
+      // Keep the selection in a stable order so file names and JSON keys don't shuffle
+      const selected = EXPORT_ENTITIES.filter((entity) => entities.includes(entity));
+      const { data, missingFollowUps } = await dataExport.collect(selected, range, (done, total) =>
+        setProgress(`Loading follow-ups (${done}/${total})...`)
+      );
+
+      const exportFiles =
+        format === 'csv' ? buildCsvFiles(data, selected) : [buildJsonFile(buildJsonDocument(data, selected, range))];
+      const uris = await dataExport.write(exportFiles);
+      setFiles(exportFiles.map((file, index) => ({ name: file.name, uri: uris[index], mimeType: file.mimeType })));
+      if (missingFollowUps.length > 0) {
+        Alert.alert(
+          'Export Incomplete',
+          `Follow-ups couldn't be loaded for ${missingFollowUps.length} application(s), so they're missing from this export. Export again when you're online to include them.`
+        );
+      }
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert('Error', 'Failed to export data. Please try again.');
+    } finally {
+      setExporting(false);
+      setProgress('');
+    }
+  };
+
+  const handleShare = async (file: WrittenFile) => {
+    try {
+      await dataExport.share(file.uri, file.mimeType);
+    } catch (error: any) {
+      console.error('Error sharing export:', error);
+      Alert.alert('Error', error?.message || 'Failed to share file');
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Format</Text>
+        <View style={styles.chipRow}>
+          {(['csv', 'json'] as ExportFormat[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, format === option && styles.chipSelected]}
+              onPress={() => setFormat(option)}
+            >
+              <Text style={[styles.chipText, format === option && styles.chipTextSelected]}>
+                {option === 'csv' ? 'CSV (one file each)' : 'JSON (single file)'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Include</Text>
+        {EXPORT_ENTITIES.map((entity) => {
+          const selected = entities.includes(entity);
+          return (
+            <TouchableOpacity key={entity} style={styles.checkRow} onPress={() => toggleEntity(entity)}>
+              <Ionicons
+                name={selected ? 'checkbox' : 'square-outline'}
+                size={22}
+                color={selected ? '#007AFF' : '#8E8E93'}
+              />
+              <Text style={styles.checkText}>{EXPORT_ENTITY_LABELS[entity]}</Text>
+            </TouchableOpacity>
+          );
+        })}
+        {entities.includes('applications') && (
+          <Text style={styles.hintText}>Applications are exported with their follow-ups.</Text>
+        )}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Date Range</Text>
+        <View style={styles.chipRow}>
+          {RANGE_PRESETS.map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, preset === option && styles.chipSelected]}
+              onPress={() => setPreset(option)}
+            >
+              <Text style={[styles.chipText, preset === option && styles.chipTextSelected]}>{option}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {preset === 'Custom' && (
+          <View style={styles.dateRow}>
+            <TextInput
+              style={styles.dateInput}
+              value={customFrom}
+              onChangeText={setCustomFrom}
+              placeholder="From (YYYY-MM-DD)"
+              placeholderTextColor="#8E8E93"
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={styles.dateInput}
+              value={customTo}
+              onChangeText={setCustomTo}
+              placeholder="To (YYYY-MM-DD)"
+              placeholderTextColor="#8E8E93"
+              autoCapitalize="none"
+            />
+          </View>
+        )}
+        <Text style={styles.hintText}>
+          Applications are matched on date applied, tasks on due date and events on start time.
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.exportButton, exporting && styles.exportButtonDisabled]}
+        onPress={handleExport}
+        disabled={exporting}
+      >
+        {exporting ? (
+          <ActivityIndicator size="small" color="white" />
+        ) : (
+          <>
+            <Ionicons name="download-outline" size={20} color="white" />
+            <Text style={styles.exportButtonText}>Export</Text>
+          </>
+        )}
+      </TouchableOpacity>
+      {!!progress && <Text style={styles.progressText}>{progress}</Text>}
+
+      {files.length > 0 && (
+        <View style={[styles.card, styles.filesCard]}>
+          <Text style={styles.cardTitle}>Ready to Share</Text>
+          {files.map((file) => (
+            <View key={file.uri} style={styles.fileRow}>
+              <Ionicons name="document-text-outline" size={20} color="#8E8E93" />
+              <Text style={styles.fileName} numberOfLines={1}>
+                {file.name}
+              </Text>
+              <TouchableOpacity style={styles.shareButton} onPress={() => handleShare(file)}>
+                <Ionicons name="share-outline" size={16} color="#007AFF" />
+                <Text style={styles.shareText}>Share</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '500',
+  },
+  checkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  checkText: {
+    fontSize: 16,
+    color: '#1D1D1F',
+    marginLeft: 10,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  dateInput: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    color: '#1D1D1F',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  exportButton: {
+    backgroundColor: '#007AFF',
+    height: 56,
+    borderRadius: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  exportButtonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  exportButtonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  progressText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  filesCard: {
+    marginTop: 16,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  fileName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1D1D1F',
+    marginLeft: 8,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  shareText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,563 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useAuth } from '../contexts/AuthContext';
+import { applicationImport, ImportSession } from '../services/applicationImport';
+import { parseCsv } from '../utils/csv';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  buildImportRows,
+  guessColumnMapping,
+  missingRequiredFields,
+} from '../utils/applicationImport';
+
+type Step = 'pick' | 'map' | 'preview' | 'importing' | 'done';
+
+// How many problem rows the preview lists before summarizing the rest
+const MAX_LISTED_ERRORS = 50;
+
+export default function ImportApplicationsScreen({ navigation }: any) {
+  const { user } = useAuth();
+  const userId = user?.id ?? '';
+  const [step, setStep] = useState<Step>('pick');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [session, setSession] = useState<ImportSession | null>(null);
+  const [savedSession, setSavedSession] = useState<ImportSession | null>(null);
+  const [loadingFile, setLoadingFile] = useState(false);
+  const stopRequested = useRef(false);
+
+  // An import that was interrupted or left failures behind can be picked up again
+  useEffect(() => {
+    if (!userId) return;
+    applicationImport.load(userId).then(setSavedSession);
+  }, [userId]);
+
+  // Leaving the screen pauses the import; its progress is already saved
+  useEffect(() => () => {
+    stopRequested.current = true;
+  }, []);
+
+  const importRows = useMemo(() => buildImportRows(rows, mapping), [rows, mapping]);
+  const validRows = importRows.filter((row) => row.data);
+  const invalidRows = importRows.filter((row) => !row.data);
+  const missingFields = missingRequiredFields(mapping);
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      setLoadingFile(true);
+      const file = result.assets[0];
+      const [headerRow, ...dataRows] = parseCsv(await FileSystem.readAsStringAsync(file.uri));
+      if (!headerRow || dataRows.length === 0) {
+        Alert.alert('Error', 'The file has no rows to import. The first row should contain column names.');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(headerRow.map((header) => header.trim()));
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      Alert.alert('Error', 'Failed to read the file. Please make sure it is a CSV export.');
+    } finally {
+      setLoadingFile(false);
+    }
+  };
+
+  const runImport = async (initial: ImportSession) => {
+    stopRequested.current = false;
+    setSavedSession(null);
+    setSession(initial);
+    setStep('importing');
+    try {
+      const finished = await applicationImport.run(userId, initial, setSession, () => stopRequested.current);
+      setSession(finished);
+      setStep('done');
+      if (finished.pending.length > 0 && !stopRequested.current) {
+        Alert.alert('Import Paused', "Couldn't reach the server. The remaining rows are saved; resume when you're back online.");
+      }
+    } catch (error) {
+      console.error('Error running import:', error);
+      Alert.alert('Error', 'The import stopped unexpectedly. You can resume it later from this screen.');
+      setStep('done');
+    }
+  };
+
+  const handleStartImport = () => {
+    const items = validRows.map((row) => ({ rowNumber: row.rowNumber, data: row.data! }));
+    runImport(applicationImport.start(fileName, items));
+  };
+
+  const handleDiscardSaved = () => {
+    Alert.alert('Discard Import', 'Rows that were not imported will be forgotten.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: async () => {
+          await applicationImport.clear(userId);
+          setSavedSession(null);
+        },
+      },
+    ]);
+  };
+
+  const handleFinish = async () => {
+    if (session && session.failures.length === 0 && session.pending.length === 0) {
+      await applicationImport.clear(userId);
+    }
+    navigation.goBack();
+  };
+
+  const renderSavedSession = () => {
+    if (!savedSession || step !== 'pick') return null;
+    return (
+      <View style={[styles.card, styles.resumeCard]}>
+        <View style={styles.cardHeader}>
+          <Ionicons name="time-outline" size={20} color="#FF9500" />
+          <Text style={styles.cardTitle}>Unfinished Import</Text>
+        </View>
+        <Text style={styles.bodyText}>
+          {savedSession.fileName}: {savedSession.created} imported, {savedSession.pending.length} not sent,{' '}
+          {savedSession.failures.length} failed.
+        </Text>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleDiscardSaved}>
+            <Text style={styles.secondaryButtonText}>Discard</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => runImport(applicationImport.retryFailures(savedSession))}
+          >
+            <Text style={styles.primaryButtonText}>Resume</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderPick = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>Import from CSV</Text>
+      <Text style={styles.bodyText}>
+        Export your spreadsheet as CSV with a header row. You'll choose which column holds each field next.
+      </Text>
+      <TouchableOpacity style={[styles.primaryButton, styles.fullWidthButton]} onPress={handlePickFile} disabled={loadingFile}>
+        {loadingFile ? (
+          <ActivityIndicator size="small" color="white" />
+        ) : (
+          <>
+            <Ionicons name="document-text-outline" size={20} color="white" />
+            <Text style={styles.primaryButtonText}>Choose CSV File</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderMapping = () => (
+    <>
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{fileName}</Text>
+        <Text style={styles.bodyText}>
+          {rows.length} rows. Pick the column for each field; fields marked * are required.
+        </Text>
+      </View>
+
+      {IMPORT_FIELDS.map((field) => (
+        <View key={field.key} style={styles.card}>
+          <Text style={styles.fieldLabel}>
+            {field.label}
+            {field.required ? ' *' : ''}
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {!field.required && (
+                <TouchableOpacity
+                  style={[styles.chip, mapping[field.key] === undefined && styles.chipSelected]}
+                  onPress={() => setMapping({ ...mapping, [field.key]: undefined })}
+                >
+                  <Text style={[styles.chipText, mapping[field.key] === undefined && styles.chipTextSelected]}>
+                    Skip
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {headers.map((header, index) => {
+                const selected = mapping[field.key] === index;
+                return (
+                  <TouchableOpacity
+                    key={`${header}-${index}`}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setMapping({ ...mapping, [field.key]: index })}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {header || `Column ${index + 1}`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ScrollView>
+          {mapping[field.key] !== undefined && (
+            <Text style={styles.sampleText} numberOfLines={1}>
+              e.g. {rows[0]?.[mapping[field.key]!] || '(empty)'}
+            </Text>
+          )}
+        </View>
+      ))}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('pick')}>
+          <Text style={styles.secondaryButtonText}>Choose Another File</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, missingFields.length > 0 && styles.buttonDisabled]}
+          disabled={missingFields.length > 0}
+          onPress={() => setStep('preview')}
+        >
+          <Text style={styles.primaryButtonText}>Preview</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderPreview = () => (
+    <>
+      <View style={styles.card}>
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryNumber, { color: '#34C759' }]}>{validRows.length}</Text>
+            <Text style={styles.summaryLabel}>Ready</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryNumber, { color: '#FF3B30' }]}>{invalidRows.length}</Text>
+            <Text style={styles.summaryLabel}>With Errors</Text>
+          </View>
+        </View>
+        {invalidRows.length > 0 && (
+          <Text style={styles.bodyText}>Rows with errors are skipped. Fix them in the sheet and import again.</Text>
+        )}
+      </View>
+
+      {validRows.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>First Rows</Text>
+          {validRows.slice(0, 3).map((row) => (
+            <View key={row.rowNumber} style={styles.listRow}>
+              <Text style={styles.rowTitle}>
+                {row.data!.job_title} at {row.data!.company}
+              </Text>
+              <Text style={styles.rowMeta}>
+                {row.data!.application_status} • {new Date(row.data!.date_applied).toLocaleDateString()}
+                {row.data!.salary ? ` • ${row.data!.salary}` : ''}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {invalidRows.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Errors</Text>
+          {invalidRows.slice(0, MAX_LISTED_ERRORS).map((row) => (
+            <View key={row.rowNumber} style={styles.listRow}>
+              <Text style={styles.rowTitle}>Row {row.rowNumber}</Text>
+              <Text style={styles.errorText}>{row.errors.join(' • ')}</Text>
+            </View>
+          ))}
+          {invalidRows.length > MAX_LISTED_ERRORS && (
+            <Text style={styles.rowMeta}>…and {invalidRows.length - MAX_LISTED_ERRORS} more</Text>
+          )}
+        </View>
+      )}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setStep('map')}>
+          <Text style={styles.secondaryButtonText}>Back to Mapping</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, validRows.length === 0 && styles.buttonDisabled]}
+          disabled={validRows.length === 0}
+          onPress={handleStartImport}
+        >
+          <Text style={styles.primaryButtonText}>Import {validRows.length}</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderProgress = () => {
+    if (!session) return null;
+    const done = session.created + session.failures.length;
+    const total = done + session.pending.length;
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Importing…</Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${total ? (done / total) * 100 : 0}%` }]} />
+        </View>
+        <Text style={styles.bodyText}>
+          {done} of {total} • {session.failures.length} failed
+        </Text>
+        <TouchableOpacity style={[styles.secondaryButton, styles.fullWidthButton]} onPress={() => (stopRequested.current = true)}>
+          <Text style={styles.secondaryButtonText}>Pause</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderDone = () => {
+    if (!session) return null;
+    return (
+      <>
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Ionicons
+              name={session.failures.length === 0 && session.pending.length === 0 ? 'checkmark-circle' : 'alert-circle'}
+              size={24}
+              color={session.failures.length === 0 && session.pending.length === 0 ? '#34C759' : '#FF9500'}
+            />
+            <Text style={styles.cardTitle}>
+              {session.pending.length > 0 ? 'Import Paused' : 'Import Finished'}
+            </Text>
+          </View>
+          <Text style={styles.bodyText}>
+            {session.created} imported • {session.failures.length} failed
+            {session.pending.length > 0 ? ` • ${session.pending.length} not sent` : ''}
+          </Text>
+          {(session.failures.length > 0 || session.pending.length > 0) && (
+            <Text style={styles.bodyText}>
+              The remaining rows are saved. Retry now or come back to this screen later.
+            </Text>
+          )}
+        </View>
+
+        {session.failures.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Failed Rows</Text>
+            {session.failures.map((failure) => (
+              <View key={failure.rowNumber} style={styles.listRow}>
+                <Text style={styles.rowTitle}>
+                  Row {failure.rowNumber}: {failure.data.job_title} at {failure.data.company}
+                </Text>
+                <Text style={styles.errorText}>{failure.error}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleFinish}>
+            <Text style={styles.secondaryButtonText}>Done</Text>
+          </TouchableOpacity>
+          {(session.failures.length > 0 || session.pending.length > 0) && (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => runImport(applicationImport.retryFailures(session))}
+            >
+              <Text style={styles.primaryButtonText}>Retry</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {renderSavedSession()}
+      {step === 'pick' && renderPick()}
+      {step === 'map' && renderMapping()}
+      {step === 'preview' && renderPreview()}
+      {step === 'importing' && renderProgress()}
+      {step === 'done' && renderDone()}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  resumeCard: {
+    borderWidth: 1,
+    borderColor: '#FF9500',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  chipTextSelected: {
+    color: 'white',
+    fontWeight: '500',
+  },
+  sampleText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 50,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    height: 50,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  fullWidthButton: {
+    flex: 0,
+    marginTop: 8,
+  },
+  buttonDisabled: {
+    backgroundColor: '#C7C7CC',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryNumber: {
+    fontSize: 28,
+    fontWeight: 'bold',
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  listRow: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#F2F2F7',
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1D1D1F',
+  },
+  rowMeta: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF3B30',
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#F2F2F7',
+    overflow: 'hidden',
+    marginVertical: 12,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#007AFF',
+  },
+});
@@ -12,14 +12,16 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '../contexts/AuthContext';
+import { useConfig } from '../contexts/ConfigContext';
 
-export default function LoginScreen() {
+export default function LoginScreen({ navigation }: any) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [isSignUp, setIsSignUp] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const { signInWithEmail, signUpWithEmail } = useAuth();
+  const { environment } = useConfig();
 
   const handleAuth = async () => {
     if (!email.trim() || !password.trim()) {
@@ -177,6 +179,11 @@ export default function LoginScreen() {
           <Text style={styles.footerText}>
             Secure authentication powered by Supabase
           </Text>
+          <TouchableOpacity onPress={() => navigation.navigate('DeveloperSettings')}>
+            <Text style={styles.developerSettingsText}>
+              Backend: {environment.label} · Developer Settings
+            </Text>
+          </TouchableOpacity>
         </View>
       </View>
     </KeyboardAvoidingView>
@@ -304,4 +311,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 16,
   },
+  developerSettingsText: {
+    fontSize: 12,
+    color: '#007AFF',
+    textAlign: 'center',
+    marginTop: 8,
+  },
 }); 
\ No newline at end of file
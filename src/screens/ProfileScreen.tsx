@@ -1,24 +1,37 @@
 import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../contexts/AuthContext';
+import { useConfig } from '../contexts/ConfigContext';
+import { syncQueue } from '../services/syncQueue';
+import { RootStackParamList } from '../types';
+
+type ProfileScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MainTabs'>;
 
 export default function ProfileScreen() {
-  const { user, logout } = useAuth();
+  const navigation = useNavigation<ProfileScreenNavigationProp>();
+  const { user, signOut } = useAuth();
+  const { environment } = useConfig();
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    // Logging out wipes this device's copy, including changes that haven't synced yet
+    const unsynced = (await syncQueue.getPending()).length;
     Alert.alert(
       'Logout',
-      'Are you sure you want to logout?',
+      unsynced > 0
+        ? `${unsynced} change(s) haven't synced yet and will be lost. Are you sure you want to logout?`
+        : 'Are you sure you want to logout?',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Logout', style: 'destructive', onPress: logout },
+        { text: 'Logout', style: 'destructive', onPress: signOut },
       ]
     );
   };
 
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <View style={styles.profileHeader}>
         <Ionicons name="person-circle" size={80} color="#007AFF" />
         <Text style={styles.userName}>{user?.email || 'Demo User'}</Text>
@@ -28,6 +41,76 @@ export default function ProfileScreen() {
         </Text>
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Network</Text>
+        <TouchableOpacity style={styles.menuButton} onPress={() => navigation.navigate('Contacts')}>
+          <Ionicons name="people-outline" size={24} color="#007AFF" />
+          <View style={styles.menuContent}>
+            <Text style={styles.menuText}>Contacts</Text>
+            <Text style={styles.menuDetail}>Referrers, recruiters and interviewers</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Reminders</Text>
+        <TouchableOpacity style={styles.menuButton} onPress={() => navigation.navigate('ReminderSettings')}>
+          <Ionicons name="alarm-outline" size={24} color="#007AFF" />
+          <View style={styles.menuContent}>
+            <Text style={styles.menuText}>Follow-up Reminders</Text>
+            <Text style={styles.menuDetail}>When to suggest following up on quiet applications</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Data</Text>
+        <TouchableOpacity style={styles.menuButton} onPress={() => navigation.navigate('ImportApplications')}>
+          <Ionicons name="cloud-upload-outline" size={24} color="#007AFF" />
+          <View style={styles.menuContent}>
+            <Text style={styles.menuText}>Import from CSV</Text>
+            <Text style={styles.menuDetail}>Bring in applications from a spreadsheet</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.menuButton, styles.menuButtonSpacing]}
+          onPress={() => navigation.navigate('ExportData')}
+        >
+          <Ionicons name="share-outline" size={24} color="#007AFF" />
+          <View style={styles.menuContent}>
+            <Text style={styles.menuText}>Export Data</Text>
+            <Text style={styles.menuDetail}>CSV or JSON of applications, tasks and events</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.menuButton, styles.menuButtonSpacing]}
+          onPress={() => navigation.navigate('BackupRestore')}
+        >
+          <Ionicons name="archive-outline" size={24} color="#007AFF" />
+          <View style={styles.menuContent}>
+            <Text style={styles.menuText}>Backup & Restore</Text>
+            <Text style={styles.menuDetail}>Save everything to a file or bring it back</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Developer</Text>
+        <TouchableOpacity style={styles.menuButton} onPress={() => navigation.navigate('DeveloperSettings')}>
+          <Ionicons name="server-outline" size={24} color="#007AFF" />
+          <View style={styles.menuContent}>
+            <Text style={styles.menuText}>Developer Settings</Text>
+            <Text style={styles.menuDetail}>Backend: {environment.label}</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+        </TouchableOpacity>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Account</Text>
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
@@ -41,7 +124,7 @@ export default function ProfileScreen() {
           This is a demo app. In production, you'd have more profile options here.
         </Text>
       </View>
-    </View>
+    </ScrollView>
   );
 }
 
@@ -49,6 +132,8 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#F2F2F7',
+  },
+  content: {
     padding: 20,
   },
   profileHeader: {
@@ -89,6 +174,31 @@ const styles = StyleSheet.create({
     color: '#1D1D1F',
     marginBottom: 16,
   },
+  menuButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+  },
+  menuButtonSpacing: {
+    marginTop: 8,
+  },
+  menuContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  menuText: {
+    fontSize: 16,
+    color: '#1D1D1F',
+    fontWeight: '500',
+  },
+  menuDetail: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { followUpReminders } from '../services/followUpReminders';
+import { DEFAULT_REMINDER_SETTINGS, FollowUpReminderSettings } from '../utils/followUpReminders';
+
+const parseDays = (value: string) => {
+  const days = Number(value.trim());
+  return Number.isInteger(days) && days >= 1 && days <= 365 ? days : null;
+};
+
+export default function ReminderSettingsScreen({ navigation }: any) {
+  const { user } = useAuth();
+  const userId = user?.id ?? '';
+  const [loading, setLoading] = useState(true);
+  const [enabled, setEnabled] = useState(DEFAULT_REMINDER_SETTINGS.enabled);
+  const [appliedDays, setAppliedDays] = useState(String(DEFAULT_REMINDER_SETTINGS.appliedDays));
+  const [interviewDays, setInterviewDays] = useState(String(DEFAULT_REMINDER_SETTINGS.interviewDays));
+
+  useEffect(() => {
+    if (!userId) return;
+    followUpReminders.getSettings(userId).then((settings) => {
+      setEnabled(settings.enabled);
+      setAppliedDays(String(settings.appliedDays));
+      setInterviewDays(String(settings.interviewDays));
+      setLoading(false);
+    });
+  }, [userId]);
+
+  const handleSave = async () => {
+    const applied = parseDays(appliedDays);
+    const interview = parseDays(interviewDays);
+    if (applied === null || interview === null) {
+      Alert.alert('Error', 'Days must be a whole number between 1 and 365');
+      return;
+    }
+
+    const settings: FollowUpReminderSettings = { enabled, appliedDays: applied, interviewDays: interview };
+    await followUpReminders.saveSettings(userId, settings);
+    navigation.goBack();
+  };
+
+  const handleRestoreDismissed = () => {
+    Alert.alert('Restore Dismissed', 'Show every dismissed suggestion again if it still applies?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Restore',
+        onPress: async () => {
+          await followUpReminders.clearDismissed(userId);
+          Alert.alert('Restored', 'Dismissed suggestions will show up again on the dashboard.');
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.card}>
+        <View style={styles.switchRow}>
+          <View style={styles.switchInfo}>
+            <Text style={styles.cardTitle}>Suggest Follow-ups</Text>
+            <Text style={styles.bodyText}>
+              Applications that have gone quiet show up on the dashboard with the option to create a follow-up task.
+            </Text>
+          </View>
+          <Switch value={enabled} onValueChange={setEnabled} />
+        </View>
+      </View>
+
+      <View style={[styles.card, !enabled && styles.cardDisabled]}>
+        <Text style={styles.fieldLabel}>No response after applying</Text>
+        <View style={styles.daysRow}>
+          <TextInput
+            style={styles.daysInput}
+            value={appliedDays}
+            onChangeText={setAppliedDays}
+            keyboardType="number-pad"
+            editable={enabled}
+          />
+          <Text style={styles.daysText}>days in Applied with no activity</Text>
+        </View>
+
+        <Text style={[styles.fieldLabel, styles.fieldSpacing]}>Nothing heard after an interview</Text>
+        <View style={styles.daysRow}>
+          <TextInput
+            style={styles.daysInput}
+            value={interviewDays}
+            onChangeText={setInterviewDays}
+            keyboardType="number-pad"
+            editable={enabled}
+          />
+          <Text style={styles.daysText}>days after the latest interview</Text>
+        </View>
+      </View>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={handleRestoreDismissed}>
+        <Ionicons name="refresh-outline" size={20} color="#007AFF" />
+        <Text style={styles.secondaryButtonText}>Restore Dismissed Suggestions</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.primaryButton} onPress={handleSave}>
+        <Text style={styles.primaryButtonText}>Save</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardDisabled: {
+    opacity: 0.5,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 4,
+  },
+  bodyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginBottom: 8,
+  },
+  fieldSpacing: {
+    marginTop: 16,
+  },
+  daysRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  daysInput: {
+    width: 64,
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    color: '#1D1D1F',
+    textAlign: 'center',
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  daysText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#8E8E93',
+    marginLeft: 12,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    height: 50,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: 'white',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    height: 50,
+    marginBottom: 16,
+  },
+  secondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
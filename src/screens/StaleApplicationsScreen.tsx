@@ -0,0 +1,361 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useAuth } from '../contexts/AuthContext';
+import { staleApplications } from '../services/staleApplications';
+import { StaleApplication } from '../utils/staleApplications';
+import { ApplicationStatus } from '../types';
+
+const MIN_WEEKS = 1;
+const MAX_WEEKS = 26;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function StaleApplicationsScreen({ navigation }: any) {
+  const { user } = useAuth();
+  const userId = user?.id ?? '';
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [weeks, setWeeks] = useState<number | null>(null);
+  const [stale, setStale] = useState<StaleApplication[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const loadQueue = async () => {
+    try {
+      const [review, savedWeeks] = await Promise.all([
+        staleApplications.review(userId),
+        staleApplications.getWeeks(userId),
+      ]);
+      setStale(review.stale);
+      setWeeks(savedWeeks);
+      // Everything starts selected, since the usual answer is to close them all out
+      setSelected(review.stale.map((entry) => entry.application.id));
+    } catch (error) {
+      console.error('Error loading stale applications:', error);
+      Alert.alert('Error', 'Failed to load stale applications');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      if (userId) loadQueue();
+    }, [userId])
+  );
+
+  const handleChangeWeeks = async (change: number) => {
+    if (weeks === null) return;
+    const next = Math.min(MAX_WEEKS, Math.max(MIN_WEEKS, weeks + change));
+    if (next === weeks) return;
+    setWeeks(next);
+    await staleApplications.setWeeks(userId, next);
+    loadQueue();
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelected((current) => (current.includes(id) ? current.filter((selectedId) => selectedId !== id) : [...current, id]));
+  };
+
+  const allSelected = stale.length > 0 && selected.length === stale.length;
+
+  const toggleAll = () => {
+    setSelected(allSelected ? [] : stale.map((entry) => entry.application.id));
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setWorking(true);
+    try {
+      await action();
+      await loadQueue();
+    } catch (error) {
+      console.error('Error updating stale applications:', error);
+      Alert.alert('Error', 'Failed to update applications');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleMove = (status: ApplicationStatus) => {
+    Alert.alert(`Mark as ${status}`, `Move ${selected.length} applications to ${status}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Move', onPress: () => runAction(() => staleApplications.moveTo(selected, status)) },
+    ]);
+  };
+
+  const handleKeep = () => runAction(() => staleApplications.keep(userId, selected));
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  const renderItem = ({ item }: { item: StaleApplication }) => {
+    const isSelected = selected.includes(item.application.id);
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => toggleSelected(item.application.id)}
+        onLongPress={() => navigation.navigate('ApplicationDetail', { applicationId: item.application.id })}
+      >
+        <Ionicons
+          name={isSelected ? 'checkbox' : 'square-outline'}
+          size={22}
+          color={isSelected ? '#007AFF' : '#8E8E93'}
+        />
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {item.application.job_title}
+          </Text>
+          <Text style={styles.rowCompany} numberOfLines={1}>
+            {item.application.company} • {item.application.application_status}
+          </Text>
+          <Text style={styles.rowMeta}>
+            Last activity {formatDate(item.lastActivity)} • {item.weeksQuiet} weeks quiet
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const disabled = working || selected.length === 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.settingsCard}>
+        <Text style={styles.settingsText}>Stale after</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => handleChangeWeeks(-1)}>
+            <Ionicons name="remove" size={18} color="#007AFF" />
+          </TouchableOpacity>
+          <Text style={styles.stepperValue}>{weeks} weeks</Text>
+          <TouchableOpacity style={styles.stepperButton} onPress={() => handleChangeWeeks(1)}>
+            <Ionicons name="add" size={18} color="#007AFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+      <Text style={styles.hintText}>
+        Applied or Interviewing with no status change or follow-up in that time. Stale applications are left out of
+        the active pipeline. Long-press one to open it.
+      </Text>
+
+      <FlatList
+        data={stale}
+        keyExtractor={(item) => String(item.application.id)}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          stale.length > 0 ? (
+            <TouchableOpacity style={styles.selectAll} onPress={toggleAll}>
+              <Text style={styles.selectAllText}>{allSelected ? 'Select None' : 'Select All'}</Text>
+            </TouchableOpacity>
+          ) : null
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyState}>
+            <Ionicons name="checkmark-done-circle-outline" size={64} color="#34C759" />
+            <Text style={styles.emptyText}>Nothing stale</Text>
+            <Text style={styles.emptySubtext}>Every open application has had activity recently</Text>
+          </View>
+        }
+      />
+
+      {stale.length > 0 && (
+        <View style={styles.actionBar}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.rejectButton, disabled && styles.actionDisabled]}
+            onPress={() => handleMove('Rejected')}
+            disabled={disabled}
+          >
+            <Text style={styles.actionText}>Rejected</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.withdrawButton, disabled && styles.actionDisabled]}
+            onPress={() => handleMove('Withdrawn')}
+            disabled={disabled}
+          >
+            <Text style={styles.actionText}>Withdrawn</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.keepButton, disabled && styles.actionDisabled]}
+            onPress={handleKeep}
+            disabled={disabled}
+          >
+            <Text style={styles.actionText}>Keep</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F2F2F7',
+  },
+  settingsCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: 'white',
+    marginHorizontal: 20,
+    marginTop: 20,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  settingsText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    fontSize: 16,
+    color: '#1D1D1F',
+    minWidth: 72,
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginHorizontal: 20,
+    marginTop: 8,
+    lineHeight: 16,
+  },
+  list: {
+    padding: 20,
+    paddingBottom: 120,
+  },
+  selectAll: {
+    alignSelf: 'flex-end',
+    marginBottom: 8,
+  },
+  selectAllText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  rowInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1D1D1F',
+  },
+  rowCompany: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1D1D1F',
+    marginTop: 12,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  actionBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: 'row',
+    gap: 8,
+    padding: 16,
+    paddingBottom: 32,
+    backgroundColor: 'white',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5E5',
+  },
+  actionButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rejectButton: {
+    backgroundColor: '#FF3B30',
+  },
+  withdrawButton: {
+    backgroundColor: '#8E8E93',
+  },
+  keepButton: {
+    backgroundColor: '#007AFF',
+  },
+  actionDisabled: {
+    opacity: 0.4,
+  },
+  actionText: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -15,7 +15,8 @@ import {
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { Ionicons } from '@expo/vector-icons';
-import { tasksApi } from '../services/api';
+import { tasksRepository } from '../services/repositories';
+import SyncStatusBanner from '../components/SyncStatusBanner';
 import { Task, TaskCreate } from '../types';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
@@ -46,7 +47,7 @@ export default function TasksScreen() {
 
   const loadTasks = async () => {
     try {
-      const allTasks = await tasksApi.getAll();
+      const allTasks = await tasksRepository.getAll();
       setTasks(allTasks);
     } catch (error) {
       console.error('Error loading tasks:', error);
@@ -59,6 +60,9 @@ export default function TasksScreen() {
 
   useEffect(() => {
     loadTasks();
+    return tasksRepository.subscribe(() => {
+      tasksRepository.getCached().then(setTasks);
+    });
   }, []);
 
   const onRefresh = () => {
@@ -69,7 +73,7 @@ export default function TasksScreen() {
   const handleTaskToggle = async (task: Task) => {
     try {
       const newStatus = task.status === 'completed' ? 'pending' : 'completed';
-      await tasksApi.update(task.id, {
+      await tasksRepository.update(task.id, {
         status: newStatus,
         completed_at: newStatus === 'completed' ? new Date().toISOString() : undefined,
       });
@@ -100,7 +104,7 @@ export default function TasksScreen() {
         target_count: newTask.target_count || undefined,
       };
 
-      await tasksApi.create(taskData);
+      await tasksRepository.create(taskData);
       setShowAddModal(false);
       setNewTask({
         title: '',
@@ -201,6 +205,7 @@ export default function TasksScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
+      <SyncStatusBanner />
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Tasks</Text>
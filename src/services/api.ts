@@ -1,30 +1,78 @@
 import axios from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../lib/supabase';
-import { JobApplication, JobApplicationCreate, Task, TaskCreate, CalendarEvent, SummaryStats, TaskSummary } from '../types';
+import { getActiveEnvironment, onEnvironmentChange } from '../lib/config';
+import {
+  JobApplication,
+  JobApplicationCreate,
+  Task,
+  TaskCreate,
+  CalendarEvent,
+  SummaryStats,
+  TaskSummary,
+  ScrapeJobResponse,
+  StatusChangeEvent,
+  StatusChangeEventCreate,
+  Company,
+  CompanyCreate,
+  Contact,
+  ContactCreate,
+  ContactLink,
+  ContactLinkCreate,
+  FollowUp,
+  FollowUpCreate,
+  FollowUpUpdate,
+} from '../types';
+import { toJobApplicationWire } from './jobApplicationAdapter';
+import { Schema, validateResponse } from './schema';
+import {
+  jobApplicationSchema,
+  jobApplicationListSchema,
+  jobApplicationWithFollowUpsSchema,
+  followUpSchema,
+  followUpListSchema,
+  statusChangeEventSchema,
+  statusChangeEventListSchema,
+  companySchema,
+  companyListSchema,
+  contactSchema,
+  contactListSchema,
+  contactLinkSchema,
+  contactLinkListSchema,
+  taskSchema,
+  taskListSchema,
+  calendarEventSchema,
+  calendarEventListSchema,
+  monthViewSchema,
+  dayViewSchema,
+  DayView,
+  summaryStatsSchema,
+  taskSummarySchema,
+  scrapeJobResponseSchema,
+} from './apiSchemas';
 
 // API Configuration
-// Use your computer's network IP address so mobile devices can connect
-const API_BASE_URL = 'http://192.168.1.76:8000/api/v1';
-
-// Create axios instance
+// The base URL comes from the active backend environment (see src/lib/config.ts)
+// and can be switched at runtime from Developer Settings
 const api = axios.create({
-  baseURL: API_BASE_URL,
+  baseURL: getActiveEnvironment().apiUrl,
   timeout: 10000,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+onEnvironmentChange((env) => {
+  api.defaults.baseURL = env.apiUrl;
+});
+
 // Request interceptor to add Supabase JWT token
 api.interceptors.request.use(
   async (config) => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
-      if (session?.user?.id && config.headers) {
-        // Use the Supabase user ID as the Bearer token (matching web app)
-        config.headers.Authorization = `Bearer ${session.user.id}`;
-        console.log('🔑 API Request with user ID:', session.user.id.substring(0, 8) + '...');
+      if (session?.access_token && config.headers) {
+        config.headers.Authorization = `Bearer ${session.access_token}`;
       } else {
         console.log('❌ No Supabase session found for API request');
       }
@@ -38,39 +86,157 @@ api.interceptors.request.use(
   }
 );
 
+// A single in-flight token refresh shared by every request that got a 401,
+// so a burst of expired requests triggers one refresh rather than one each
+let refreshPromise: Promise<string | null> | null = null;
+
+const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    refreshPromise = supabase.auth
+      .refreshSession()
+      .then(({ data, error }) => {
+        if (error) {
+          console.log('Token refresh failed:', error.message);
+          return null;
+        }
+        return data.session?.access_token ?? null;
+      })
+      .catch((error) => {
+        console.error('Error refreshing Supabase session:', error);
+        return null;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Parallel 401s share one sign-out, like the refresh above
+let signOutPromise: Promise<void> | null = null;
+
+const endSession = () => {
+  if (!signOutPromise) {
+    console.log('Unauthorized access and token refresh failed, signing out...');
+    signOutPromise = supabase.auth
+      .signOut()
+      .then(({ error }) => {
+        if (error) console.error('Error signing out:', error);
+      })
+      .finally(() => {
+        signOutPromise = null;
+      });
+  }
+  return signOutPromise;
+};
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => response,
   async (error) => {
-    if (error.response?.status === 401) {
-      // Handle unauthorized access - sign out user
-      console.log('Unauthorized access, signing out...');
-      await supabase.auth.signOut();
+    const originalRequest = error.config;
+
+    if (error.response?.status === 401 && originalRequest && !originalRequest._retry) {
+      // Try once with a fresh token before giving up on the session
+      originalRequest._retry = true;
+      const accessToken = await refreshAccessToken();
+
+      if (accessToken) {
+        originalRequest.headers.Authorization = `Bearer ${accessToken}`;
+        return api(originalRequest);
+      }
+
+      await endSession();
     }
     return Promise.reject(error);
   }
 );
 
+// Thrown when an update was based on a version of the record that has since
+// changed on the server (e.g. it was edited in the web app)
+export class ConflictError<T = any> extends Error {
+  serverRecord: T;
+
+  constructor(serverRecord: T) {
+    super('Record was modified on the server');
+    this.name = 'ConflictError';
+    this.serverRecord = serverRecord;
+  }
+}
+
+export interface UpdateOptions {
+  // updated_at of the version the edit was made against
+  expectedUpdatedAt?: string;
+}
+
+// Every response is checked against its declared schema before it reaches the app;
+// a mismatch throws an ApiValidationError naming the endpoint and the offending path
+const parseWith = <T>(method: string, path: string, schema: Schema<T>) => (data: unknown): T =>
+  validateResponse(`${method} ${path}`, schema, data);
+
+const getValidated = async <T>(path: string, schema: Schema<T>): Promise<T> => {
+  const response = await api.get(path);
+  return parseWith('GET', path, schema)(response.data);
+};
+
+const postValidated = async <T>(path: string, data: object, schema: Schema<T>, config?: object): Promise<T> => {
+  const response = await api.post(path, data, config);
+  return parseWith('POST', path, schema)(response.data);
+};
+
+const putValidated = async <T>(path: string, data: object, schema: Schema<T>): Promise<T> => {
+  const response = await api.put(path, data);
+  return parseWith('PUT', path, schema)(response.data);
+};
+
+const sameTimestamp = (a?: string, b?: string) => !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+
+// Optimistic concurrency for PUTs: send the expected version as an If-Match header
+// for backends that enforce it, and check it ourselves for those that don't
+const updateIfUnchanged = async <T extends { updated_at?: string }>(
+  path: string,
+  data: object,
+  schema: Schema<T>,
+  options?: UpdateOptions
+): Promise<T> => {
+  const expectedUpdatedAt = options?.expectedUpdatedAt;
+  if (!expectedUpdatedAt) {
+    return putValidated(path, data, schema);
+  }
+
+  const current = await getValidated(path, schema);
+  if (current.updated_at && !sameTimestamp(current.updated_at, expectedUpdatedAt)) {
+    throw new ConflictError<T>(current);
+  }
+
+  try {
+    const response = await api.put(path, data, { headers: { 'If-Match': `"${expectedUpdatedAt}"` } });
+    return parseWith('PUT', path, schema)(response.data);
+  } catch (error: any) {
+    const status = error.response?.status;
+    if (status === 409 || status === 412) {
+      throw new ConflictError<T>(await getValidated(path, schema));
+    }
+    throw error;
+  }
+};
+
 // Job Applications API
 export const jobApplicationsApi = {
   getAll: async (): Promise<JobApplication[]> => {
-    const response = await api.get('/job-applications/');
-    return response.data;
+    return getValidated('/job-applications/', jobApplicationListSchema);
   },
 
   getById: async (id: number): Promise<JobApplication> => {
-    const response = await api.get(`/job-applications/${id}`);
-    return response.data;
+    return getValidated(`/job-applications/${id}`, jobApplicationSchema);
   },
 
   create: async (data: JobApplicationCreate): Promise<JobApplication> => {
-    const response = await api.post('/job-applications/', data);
-    return response.data;
+    return postValidated('/job-applications/', toJobApplicationWire(data), jobApplicationSchema);
   },
 
-  update: async (id: number, data: Partial<JobApplicationCreate>): Promise<JobApplication> => {
-    const response = await api.put(`/job-applications/${id}`, data);
-    return response.data;
+  update: async (id: number, data: Partial<JobApplicationCreate>, options?: UpdateOptions): Promise<JobApplication> => {
+    return updateIfUnchanged(`/job-applications/${id}`, toJobApplicationWire(data), jobApplicationSchema, options);
   },
 
   delete: async (id: number): Promise<void> => {
@@ -78,11 +244,10 @@ export const jobApplicationsApi = {
   },
 
   getStats: async (): Promise<SummaryStats> => {
-    const response = await api.get('/job-applications/stats');
-    return response.data;
+    return getValidated('/job-applications/stats', summaryStatsSchema);
   },
 
-  enhanceDescription: async (jobDescription: string): Promise<any> => {
+  enhanceDescription: async (jobDescription: string): Promise<ScrapeJobResponse> => {
     console.log('🔍 API: Making scraping request with URL:', jobDescription);
     console.log('🔍 API: Request payload:', { url: jobDescription });
     
@@ -93,49 +258,160 @@ export const jobApplicationsApi = {
     });
     
     console.log('🔍 API: Response received:', response.data);
-    return response.data;
+    return parseWith('POST', '/job-applications/scrape-job', scrapeJobResponseSchema)(response.data);
+  },
+
+  getWithFollowUps: async (id: number): Promise<JobApplication & { follow_ups: FollowUp[] }> => {
+    return getValidated(`/job-applications/${id}/with-follow-ups`, jobApplicationWithFollowUpsSchema);
+  },
+};
+
+// Follow-ups API - interviews, calls and emails logged against an application
+export const followUpsApi = {
+  // Every follow-up across all applications
+  getAll: async (): Promise<FollowUp[]> => {
+    return getValidated('/follow-ups/', followUpListSchema);
+  },
+
+  getForApplication: async (applicationId: number): Promise<FollowUp[]> => {
+    return getValidated(`/follow-ups/job-applications/${applicationId}/follow-ups`, followUpListSchema);
+  },
+
+  // Follow-ups still waiting to happen, across all applications
+  getPending: async (): Promise<FollowUp[]> => {
+    return getValidated('/follow-ups/pending', followUpListSchema);
+  },
+
+  create: async (applicationId: number, data: FollowUpCreate): Promise<FollowUp> => {
+    return postValidated(`/follow-ups/job-applications/${applicationId}/follow-ups`, data, followUpSchema);
+  },
+
+  update: async (id: number, data: FollowUpUpdate): Promise<FollowUp> => {
+    return putValidated(`/follow-ups/${id}`, data, followUpSchema);
+  },
+
+  complete: async (id: number): Promise<FollowUp> => {
+    const data: FollowUpUpdate = { status: 'Completed' };
+    return putValidated(`/follow-ups/${id}`, data, followUpSchema);
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/follow-ups/${id}`);
+  },
+};
+
+// Status History API - journal of status and interview stage changes
+export const statusHistoryApi = {
+  getAll: async (): Promise<StatusChangeEvent[]> => {
+    return getValidated('/status-history/', statusChangeEventListSchema);
+  },
+
+  getById: async (id: number): Promise<StatusChangeEvent> => {
+    return getValidated(`/status-history/${id}`, statusChangeEventSchema);
+  },
+
+  getForApplication: async (applicationId: number): Promise<StatusChangeEvent[]> => {
+    return getValidated(`/job-applications/${applicationId}/status-history`, statusChangeEventListSchema);
+  },
+
+  create: async (data: StatusChangeEventCreate): Promise<StatusChangeEvent> => {
+    return postValidated(`/job-applications/${data.job_application_id}/status-history`, data, statusChangeEventSchema);
+  },
+
+  update: async (id: number, data: Partial<StatusChangeEventCreate>): Promise<StatusChangeEvent> => {
+    return putValidated(`/status-history/${id}`, data, statusChangeEventSchema);
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/status-history/${id}`);
+  },
+};
+
+// Companies API
+export const companiesApi = {
+  getAll: async (): Promise<Company[]> => {
+    return getValidated('/companies/', companyListSchema);
+  },
+
+  getById: async (id: number): Promise<Company> => {
+    return getValidated(`/companies/${id}`, companySchema);
   },
 
-  getWithFollowUps: async (id: number) => {
-    const response = await api.get(`/job-applications/${id}/with-follow-ups`);
-    return response.data;
+  create: async (data: CompanyCreate): Promise<Company> => {
+    return postValidated('/companies/', data, companySchema);
   },
 
-  addFollowUp: async (applicationId: number, followUpData: any) => {
-    const response = await api.post(`/follow-ups/job-applications/${applicationId}/follow-ups`, followUpData);
-    return response.data;
+  update: async (id: number, data: Partial<CompanyCreate>): Promise<Company> => {
+    return putValidated(`/companies/${id}`, data, companySchema);
   },
 
-  updateFollowUp: async (applicationId: number, followUpId: number, followUpData: any) => {
-    const response = await api.put(`/follow-ups/${followUpId}`, followUpData);
-    return response.data;
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/companies/${id}`);
+  },
+};
+
+// Contacts API
+export const contactsApi = {
+  getAll: async (): Promise<Contact[]> => {
+    return getValidated('/contacts/', contactListSchema);
+  },
+
+  getById: async (id: number): Promise<Contact> => {
+    return getValidated(`/contacts/${id}`, contactSchema);
   },
 
-  deleteFollowUp: async (applicationId: number, followUpId: number) => {
-    await api.delete(`/follow-ups/${followUpId}`);
+  create: async (data: ContactCreate): Promise<Contact> => {
+    return postValidated('/contacts/', data, contactSchema);
+  },
+
+  update: async (id: number, data: Partial<ContactCreate>): Promise<Contact> => {
+    return putValidated(`/contacts/${id}`, data, contactSchema);
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/contacts/${id}`);
+  },
+};
+
+// Links between contacts and the applications they were involved in
+export const contactLinksApi = {
+  getAll: async (): Promise<ContactLink[]> => {
+    return getValidated('/contact-links/', contactLinkListSchema);
+  },
+
+  getById: async (id: number): Promise<ContactLink> => {
+    return getValidated(`/contact-links/${id}`, contactLinkSchema);
+  },
+
+  create: async (data: ContactLinkCreate): Promise<ContactLink> => {
+    return postValidated('/contact-links/', data, contactLinkSchema);
+  },
+
+  update: async (id: number, data: Partial<ContactLinkCreate>): Promise<ContactLink> => {
+    return putValidated(`/contact-links/${id}`, data, contactLinkSchema);
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/contact-links/${id}`);
   },
 };
 
 // Tasks API
 export const tasksApi = {
   getAll: async (): Promise<Task[]> => {
-    const response = await api.get('/tasks/');
-    return response.data;
+    return getValidated('/tasks/', taskListSchema);
   },
 
   getById: async (id: number): Promise<Task> => {
-    const response = await api.get(`/tasks/${id}`);
-    return response.data;
+    return getValidated(`/tasks/${id}`, taskSchema);
   },
 
   create: async (data: TaskCreate): Promise<Task> => {
-    const response = await api.post('/tasks/', data);
-    return response.data;
+    return postValidated('/tasks/', data, taskSchema);
   },
 
-  update: async (id: number, data: Partial<Task>): Promise<Task> => {
-    const response = await api.put(`/tasks/${id}`, data);
-    return response.data;
+  update: async (id: number, data: Partial<Task>, options?: UpdateOptions): Promise<Task> => {
+    return updateIfUnchanged(`/tasks/${id}`, data, taskSchema, options);
   },
 
   delete: async (id: number): Promise<void> => {
@@ -143,45 +419,39 @@ export const tasksApi = {
   },
 
   getSummary: async (): Promise<TaskSummary> => {
-    const response = await api.get('/tasks/summary/stats');
-    return response.data;
+    return getValidated('/tasks/summary/stats', taskSummarySchema);
   },
 };
 
 // Calendar Events API
 export const calendarEventsApi = {
   getAll: async (): Promise<CalendarEvent[]> => {
-    const response = await api.get('/calendar/events/');
-    return response.data;
+    return getValidated('/calendar/events/', calendarEventListSchema);
   },
 
   getById: async (id: number): Promise<CalendarEvent> => {
-    const response = await api.get(`/calendar/events/${id}`);
-    return response.data;
+    return getValidated(`/calendar/events/${id}`, calendarEventSchema);
   },
 
   create: async (data: Partial<CalendarEvent>): Promise<CalendarEvent> => {
-    const response = await api.post('/calendar/events/', data);
-    return response.data;
+    return postValidated('/calendar/events/', data, calendarEventSchema);
   },
 
   update: async (id: number, data: Partial<CalendarEvent>): Promise<CalendarEvent> => {
-    const response = await api.put(`/calendar/events/${id}`, data);
-    return response.data;
+    return putValidated(`/calendar/events/${id}`, data, calendarEventSchema);
   },
 
   delete: async (id: number): Promise<void> => {
     await api.delete(`/calendar/events/${id}`);
   },
 
-  getDayView: async (date: string): Promise<any> => {
-    const response = await api.get(`/calendar/view/day/${date}`);
-    return response.data;
+  getDayView: async (date: string): Promise<DayView> => {
+    return getValidated(`/calendar/view/day/${date}`, dayViewSchema);
   },
 
-  getMonthView: async (year: number, month: number): Promise<any> => {
-    const response = await api.get(`/calendar/view/month/${year}/${month}`);
-    return response.data;
+  // Flattened to the events in the month, whichever shape the backend sends
+  getMonthView: async (year: number, month: number): Promise<CalendarEvent[]> => {
+    return getValidated(`/calendar/view/month/${year}/${month}`, monthViewSchema);
   },
 };
 
@@ -0,0 +1,296 @@
+import {
+  Schema,
+  string,
+  number,
+  boolean,
+  oneOf,
+  optional,
+  withDefault,
+  array,
+  object,
+  union,
+  transform,
+} from './schema';
+import { JobApplicationWire, toJobApplication } from './jobApplicationAdapter';
+import { normalizeCompanyName } from '../utils/companyMatching';
+import {
+  JobApplication,
+  StatusChangeEvent,
+  Company,
+  Contact,
+  ContactLink,
+  Task,
+  CalendarEvent,
+  SummaryStats,
+  TaskSummary,
+  ScrapeJobResponse,
+  FollowUp,
+  FollowUpStatus,
+  FOLLOW_UP_STATUSES,
+} from '../types';
+
+// Declared response shapes for every backend endpoint. Where an endpoint has
+// returned more than one shape, each known variant is listed and normalized
+// into a single typed result here so screens never have to probe.
+
+const jobApplicationWireShape = {
+  id: number(),
+  user_id: optional(string()),
+  job_title: string(),
+  company: string(),
+  company_id: optional(number()),
+  location: optional(string()),
+  job_description: optional(string()),
+  salary: optional(string()),
+  salary_range: optional(string()),
+  job_url: optional(string()),
+  source: optional(string()),
+  job_board: optional(string()),
+  date_applied: optional(string()),
+  application_date: optional(string()),
+  date_job_posted: optional(string()),
+  application_status: optional(string()),
+  status: optional(string()),
+  interview_stage: optional(string()),
+  notes: optional(string()),
+  referred_by: optional(string()),
+  referral_relationship: optional(string()),
+  referral_date: optional(string()),
+  referral_notes: optional(string()),
+  created_at: string(),
+  updated_at: string(),
+};
+
+export const jobApplicationWireSchema: Schema<JobApplicationWire> = object(jobApplicationWireShape);
+
+// Validated wire record mapped onto the canonical model
+export const jobApplicationSchema: Schema<JobApplication> = transform(jobApplicationWireSchema, toJobApplication);
+
+// Either a bare array or wrapped in { applications: [...] }
+export const jobApplicationListSchema: Schema<JobApplication[]> = union(
+  array(jobApplicationSchema),
+  transform(object({ applications: array(jobApplicationSchema) }), (response) => response.applications)
+);
+
+// Statuses have been sent in lower case by some backend versions
+const toFollowUpStatus = (status: string): FollowUpStatus =>
+  FOLLOW_UP_STATUSES.find((known) => known.toLowerCase() === status.toLowerCase()) ?? 'Pending';
+
+export const followUpSchema: Schema<FollowUp> = transform(
+  object({
+    id: number(),
+    job_application_id: optional(number()),
+    follow_up_type: string(),
+    title: string(),
+    description: optional(string()),
+    date: string(),
+    status: withDefault(string(), 'Pending'),
+    outcome: optional(string()),
+    notes: optional(string()),
+    created_at: string(),
+  }),
+  (wire) => ({ ...wire, status: toFollowUpStatus(wire.status) })
+);
+
+export const followUpListSchema: Schema<FollowUp[]> = union(
+  array(followUpSchema),
+  transform(object({ follow_ups: array(followUpSchema) }), (response) => response.follow_ups)
+);
+
+export const jobApplicationWithFollowUpsSchema: Schema<JobApplication & { follow_ups: FollowUp[] }> = transform(
+  object({
+    ...jobApplicationWireShape,
+    follow_ups: withDefault(array(followUpSchema), []),
+  }),
+  (wire) => ({ ...toJobApplication(wire), follow_ups: wire.follow_ups })
+);
+
+export const statusChangeEventSchema: Schema<StatusChangeEvent> = object({
+  id: number(),
+  job_application_id: number(),
+  field: oneOf<StatusChangeEvent['field']>(['application_status', 'interview_stage']),
+  from_value: optional(string()),
+  to_value: string(),
+  changed_at: string(),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const statusChangeEventListSchema: Schema<StatusChangeEvent[]> = union(
+  array(statusChangeEventSchema),
+  transform(object({ events: array(statusChangeEventSchema) }), (response) => response.events)
+);
+
+// Older records may not carry normalized_name, so it is derived from name when missing
+export const companySchema: Schema<Company> = transform(
+  object({
+    id: number(),
+    user_id: optional(string()),
+    name: string(),
+    normalized_name: optional(string()),
+    website: optional(string()),
+    size: optional(oneOf<NonNullable<Company['size']>>(['1-10', '11-50', '51-200', '201-1000', '1001-5000', '5000+'])),
+    industry: optional(string()),
+    notes: optional(string()),
+    created_at: string(),
+    updated_at: string(),
+  }),
+  (wire) => ({ ...wire, normalized_name: wire.normalized_name || normalizeCompanyName(wire.name) })
+);
+
+export const companyListSchema: Schema<Company[]> = union(
+  array(companySchema),
+  transform(object({ companies: array(companySchema) }), (response) => response.companies)
+);
+
+export const contactSchema: Schema<Contact> = object({
+  id: number(),
+  user_id: optional(string()),
+  name: string(),
+  company: optional(string()),
+  role: optional(string()),
+  email: optional(string()),
+  phone: optional(string()),
+  linkedin_url: optional(string()),
+  relationship: optional(string()),
+  interactions: withDefault(
+    array(
+      object({
+        id: string(),
+        date: string(),
+        notes: string(),
+      })
+    ),
+    []
+  ),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const contactListSchema: Schema<Contact[]> = union(
+  array(contactSchema),
+  transform(object({ contacts: array(contactSchema) }), (response) => response.contacts)
+);
+
+export const contactLinkSchema: Schema<ContactLink> = object({
+  id: number(),
+  contact_id: number(),
+  job_application_id: number(),
+  role: oneOf<ContactLink['role']>(['Referrer', 'Recruiter', 'Interviewer']),
+  created_at: string(),
+  updated_at: string(),
+});
+
+export const contactLinkListSchema: Schema<ContactLink[]> = union(
+  array(contactLinkSchema),
+  transform(object({ links: array(contactLinkSchema) }), (response) => response.links)
+);
+
+export const taskSchema: Schema<Task> = object({
+  id: number(),
+  user_id: string(),
+  title: string(),
+  description: optional(string()),
+  task_type: oneOf<Task['task_type']>(['job_application', 'interview_prep', 'networking', 'skill_building', 'daily_goal', 'custom']),
+  priority: oneOf<Task['priority']>(['low', 'medium', 'high', 'urgent']),
+  status: oneOf<Task['status']>(['pending', 'in_progress', 'completed', 'cancelled']),
+  due_date: optional(string()),
+  due_time: optional(string()),
+  estimated_duration: optional(number()),
+  actual_duration: optional(number()),
+  target_count: optional(number()),
+  completed_count: withDefault(number(), 0),
+  job_application_id: optional(number()),
+  calendar_event_id: optional(number()),
+  created_at: string(),
+  updated_at: string(),
+  completed_at: optional(string()),
+});
+
+export const taskListSchema: Schema<Task[]> = union(
+  array(taskSchema),
+  transform(object({ tasks: array(taskSchema) }), (response) => response.tasks)
+);
+
+export const calendarEventSchema: Schema<CalendarEvent> = object({
+  id: number(),
+  user_id: string(),
+  title: string(),
+  description: optional(string()),
+  event_type: oneOf<CalendarEvent['event_type']>(['interview', 'networking', 'deadline', 'follow_up', 'task', 'custom']),
+  start_datetime: string(),
+  end_datetime: string(),
+  location: optional(string()),
+  is_all_day: withDefault(boolean(), false),
+  reminder_minutes: withDefault(number(), 0),
+  status: oneOf<CalendarEvent['status']>(['scheduled', 'completed', 'cancelled', 'rescheduled']),
+  job_application_id: optional(number()),
+  follow_up_id: optional(number()),
+  created_at: string(),
+  updated_at: string(),
+});
+
+const eventsEnvelopeSchema = transform(object({ events: array(calendarEventSchema) }), (response) => response.events);
+
+export const calendarEventListSchema: Schema<CalendarEvent[]> = union(array(calendarEventSchema), eventsEnvelopeSchema);
+
+// The month view has come back as a grid of weeks (each a list of days with
+// their events), as a flat list of events, or as { events: [...] }
+export const monthViewSchema: Schema<CalendarEvent[]> = union(
+  transform(
+    object({
+      weeks: array(array(optional(object({ events: withDefault(array(calendarEventSchema), []) })))),
+    }),
+    (response) => response.weeks.flat().flatMap((day) => day?.events ?? [])
+  ),
+  array(calendarEventSchema),
+  eventsEnvelopeSchema
+);
+
+export interface DayView {
+  events: CalendarEvent[];
+  tasks: Task[];
+}
+
+export const dayViewSchema: Schema<DayView> = union(
+  object({
+    events: array(calendarEventSchema),
+    tasks: withDefault(array(taskSchema), []),
+  }),
+  transform(array(calendarEventSchema), (events) => ({ events, tasks: [] }))
+);
+
+export const summaryStatsSchema: Schema<SummaryStats> = object({
+  total_applications: number(),
+  applications_this_week: withDefault(number(), 0),
+  applications_this_month: withDefault(number(), 0),
+  interviews_scheduled: withDefault(number(), 0),
+  pending_follow_ups: withDefault(number(), 0),
+  response_rate: withDefault(number(), 0),
+});
+
+export const taskSummarySchema: Schema<TaskSummary> = object({
+  total_tasks: number(),
+  completed_tasks: withDefault(number(), 0),
+  pending_tasks: withDefault(number(), 0),
+  overdue_tasks: withDefault(number(), 0),
+  today_tasks: withDefault(number(), 0),
+  this_week_tasks: withDefault(number(), 0),
+});
+
+export const scrapeJobResponseSchema: Schema<ScrapeJobResponse> = object({
+  success: boolean(),
+  error: optional(string()),
+  data: optional(
+    object({
+      success: withDefault(boolean(), true),
+      job_title: optional(string()),
+      company: optional(string()),
+      location: optional(string()),
+      job_description: optional(string()),
+      salary: optional(string()),
+      job_board: optional(string()),
+      error: optional(string()),
+    })
+  ),
+});
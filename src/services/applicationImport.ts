@@ -0,0 +1,89 @@
+import { jobApplicationsApi } from './api';
+import { localStore } from './localStore';
+import { shouldRetryLater } from './syncQueue';
+import { preferences } from './preferences';
+import { JobApplicationCreate } from '../types';
+import { describeError } from '../utils/errors';
+
+// Runs a CSV import against the API one row at a time. Progress is saved after
+// every row, so an import interrupted by a crash, sign-out or lost connection
+// can be resumed, and rows the server rejected can be retried later.
+const SESSION_KEY = 'applicationImport';
+
+export interface ImportItem {
+  rowNumber: number;
+  data: JobApplicationCreate;
+}
+
+export interface ImportFailure extends ImportItem {
+  error: string;
+}
+
+export interface ImportSession {
+  fileName: string;
+  startedAt: string;
+  // Rows not sent yet
+  pending: ImportItem[];
+  failures: ImportFailure[];
+  created: number;
+}
+
+export const applicationImport = {
+  start: (fileName: string, items: ImportItem[]): ImportSession => ({
+    fileName,
+    startedAt: new Date().toISOString(),
+    pending: items,
+    failures: [],
+    created: 0,
+  }),
+
+  load: (userId: string) => preferences.get<ImportSession | null>(userId, SESSION_KEY, null),
+
+  save: (userId: string, session: ImportSession) => preferences.set(userId, SESSION_KEY, session),
+
+  clear: (userId: string) => preferences.set<ImportSession | null>(userId, SESSION_KEY, null),
+
+  // Puts failed rows back in the queue for another run
+  retryFailures: (session: ImportSession): ImportSession => ({
+    ...session,
+    pending: [...session.failures, ...session.pending].map(({ rowNumber, data }) => ({ rowNumber, data })),
+    failures: [],
+  }),
+
+  // Sends pending rows until none are left or shouldStop returns true. Losing
+  // the connection pauses the run with the current row still pending; only rows
+  // the server rejected are recorded as failures.
+  run: async (
+    userId: string,
+    initial: ImportSession,
+    onProgress: (session: ImportSession) => void,
+    shouldStop: () => boolean = () => false
+  ): Promise<ImportSession> => {
+    let session = initial;
+    await applicationImport.save(userId, session);
+
+    while (session.pending.length > 0 && !shouldStop()) {
+      const [item, ...rest] = session.pending;
+      try {
+        const created = await jobApplicationsApi.create(item.data);
+        // Show imported rows in the lists right away
+        await localStore.upsert('applications', created);
+        session = { ...session, pending: rest, created: session.created + 1 };
+      } catch (error: any) {
+        if (shouldRetryLater(error)) {
+          console.log(`📴 Import paused at row ${item.rowNumber}:`, error?.message);
+          break;
+        }
+        console.error(`Error importing row ${item.rowNumber}:`, error);
+        session = { ...session, pending: rest, failures: [...session.failures, { ...item, error: describeError(error) }] };
+      }
+      await applicationImport.save(userId, session);
+      onProgress(session);
+    }
+
+    if (session.pending.length === 0 && session.failures.length === 0) {
+      await applicationImport.clear(userId);
+    }
+    return session;
+  },
+};
@@ -0,0 +1,188 @@
+import * as FileSystem from 'expo-file-system';
+import { jobApplicationsApi, followUpsApi, tasksApi, calendarEventsApi } from './api';
+import { applicationsRepository, tasksRepository, eventsRepository } from './repositories';
+import { dataExport } from './dataExport';
+import { EXPORT_ENTITIES } from '../utils/dataExport';
+import {
+  BackupArchive,
+  ExistingAccountData,
+  RestoreEntity,
+  RestorePlan,
+  RestoreStep,
+  buildBackupArchive,
+  parseBackupArchive,
+} from '../utils/backup';
+import {
+  CalendarEvent,
+  FollowUp,
+  FollowUpCreate,
+  JobApplication,
+  JobApplicationCreate,
+  Task,
+  TaskCreate,
+} from '../types';
+import { describeError } from '../utils/errors';
+
+export interface RestoreFailure {
+  entity: RestoreEntity;
+  title: string;
+  error: string;
+}
+
+export interface RestoreResult {
+  created: number;
+  overwritten: number;
+  skipped: number;
+  failures: RestoreFailure[];
+}
+
+// Server-owned fields are dropped; company_id belongs to the old account's companies
+const toApplicationPayload = ({
+  id,
+  user_id,
+  company_id,
+  created_at,
+  updated_at,
+  ...application
+}: JobApplication): JobApplicationCreate => application;
+
+const toFollowUpPayload = ({ id, job_application_id, created_at, ...followUp }: FollowUp): FollowUpCreate => followUp;
+
+// Old id -> new id for each kind of record that others point at
+type IdMap = Map<number, number>;
+
+const remap = (ids: IdMap, id?: number) => (id === undefined ? undefined : ids.get(id));
+
+export const backup = {
+  // Collects everything and writes it to a backup file, returning its URI.
+  // A backup missing some follow-ups isn't written at all, since it would restore as if they never existed.
+  create: async (onProgress?: (done: number, total: number) => void): Promise<string> => {
+    const { data, missingFollowUps } = await dataExport.collect([...EXPORT_ENTITIES], {}, onProgress);
+    if (missingFollowUps.length > 0) {
+      throw new Error(
+        `Follow-ups couldn't be loaded for ${missingFollowUps.length} application(s). Connect to the internet and try again so the backup is complete.`
+      );
+    }
+    const archive = buildBackupArchive(data);
+    const [uri] = await dataExport.write([
+      {
+        name: `jobtracker-backup-${archive.created_at.slice(0, 10)}.json`,
+        mimeType: 'application/json',
+        contents: JSON.stringify(archive),
+      },
+    ]);
+    return uri;
+  },
+
+  read: async (uri: string): Promise<BackupArchive> => parseBackupArchive(await FileSystem.readAsStringAsync(uri)),
+
+  // Restores are planned against the server's copy, so this needs a connection
+  loadExisting: async (): Promise<ExistingAccountData> => {
+    const [applications, followUps, tasks, events] = await Promise.all([
+      jobApplicationsApi.getAll(),
+      followUpsApi.getAll(),
+      tasksApi.getAll(),
+      calendarEventsApi.getAll(),
+    ]);
+    return { applications, followUps, tasks, events };
+  },
+
+  // Applies a plan one record at a time. Records are written parents first
+  // (applications, follow-ups, events, tasks) so every link can be pointed at
+  // the parent's new id. A record that fails is reported and the rest go on.
+  restore: async (plan: RestorePlan, onProgress?: (done: number, total: number) => void): Promise<RestoreResult> => {
+    const result: RestoreResult = { created: 0, overwritten: 0, skipped: 0, failures: [] };
+    const applicationIds: IdMap = new Map();
+    const followUpIds: IdMap = new Map();
+    const eventIds: IdMap = new Map();
+    const total = plan.applications.length + plan.followUps.length + plan.events.length + plan.tasks.length;
+    let done = 0;
+
+    const apply = async <T extends { id: number }>(
+      entity: RestoreEntity,
+      entry: RestoreStep<T>,
+      title: string,
+      ids: IdMap | null,
+      write: () => Promise<number | undefined>
+    ) => {
+      try {
+        if (entry.action === 'skip') {
+          result.skipped++;
+          if (ids && entry.existingId !== undefined) ids.set(entry.record.id, entry.existingId);
+        } else {
+          const newId = await write();
+          if (entry.action === 'create') result.created++;
+          else result.overwritten++;
+          if (ids && newId !== undefined) ids.set(entry.record.id, newId);
+        }
+      } catch (error) {
+        console.error(`Error restoring ${entity} "${title}":`, error);
+        result.failures.push({ entity, title, error: describeError(error) });
+      }
+      onProgress?.(++done, total);
+    };
+
+    for (const entry of plan.applications) {
+      const payload = toApplicationPayload(entry.record);
+      await apply('applications', entry, `${entry.record.job_title} at ${entry.record.company}`, applicationIds, async () =>
+        entry.existingId === undefined
+          ? (await jobApplicationsApi.create(payload)).id
+          : (await jobApplicationsApi.update(entry.existingId, payload)).id
+      );
+    }
+
+    for (const entry of plan.followUps) {
+      const applicationId = applicationIds.get(entry.applicationId);
+      const payload = toFollowUpPayload(entry.record);
+      await apply('followUps', entry, entry.record.title, followUpIds, async () => {
+        if (applicationId === undefined) throw new Error('Its application was not restored');
+        return entry.existingId === undefined
+          ? (await followUpsApi.create(applicationId, payload)).id
+          : (await followUpsApi.update(entry.existingId, payload)).id;
+      });
+    }
+
+    for (const entry of plan.events) {
+      const { id, user_id, created_at, updated_at, ...event } = entry.record;
+      const payload: Partial<CalendarEvent> = {
+        ...event,
+        job_application_id: remap(applicationIds, event.job_application_id),
+        follow_up_id: remap(followUpIds, event.follow_up_id),
+      };
+      await apply('events', entry, entry.record.title, eventIds, async () =>
+        entry.existingId === undefined
+          ? (await calendarEventsApi.create(payload)).id
+          : (await calendarEventsApi.update(entry.existingId, payload)).id
+      );
+    }
+
+    for (const entry of plan.tasks) {
+      const { id, user_id, created_at, updated_at, ...task } = entry.record;
+      const payload: Partial<Task> = {
+        ...task,
+        job_application_id: remap(applicationIds, task.job_application_id),
+        calendar_event_id: remap(eventIds, task.calendar_event_id),
+      };
+      await apply('tasks', entry, entry.record.title, null, async () => {
+        if (entry.existingId !== undefined) {
+          return (await tasksApi.update(entry.existingId, payload)).id;
+        }
+        // Creating only takes the planning fields; progress and status go on afterwards
+        const created = await tasksApi.create(payload as TaskCreate);
+        if (task.status !== created.status || task.completed_count !== created.completed_count) {
+          await tasksApi.update(created.id, payload);
+        }
+        return created.id;
+      });
+    }
+
+    // Bring the offline caches up to date with what was written
+    await Promise.all([
+      applicationsRepository.getAll().catch(() => undefined),
+      tasksRepository.getAll().catch(() => undefined),
+      eventsRepository.getAll().catch(() => undefined),
+    ]);
+
+    return result;
+  },
+};
@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EntityName } from './localStore';
+
+// Edits the sync queue couldn't apply because the record changed on the server
+// (web app) after the edit was made. They wait here until the user picks which
+// version of each field to keep.
+export type ConflictEntity = Extract<EntityName, 'applications' | 'tasks'>;
+
+export interface SyncConflict {
+  id: string;
+  entity: ConflictEntity;
+  recordId: number;
+  // Fields the user changed on this device
+  localChanges: Record<string, any>;
+  localRecord: Record<string, any>;
+  serverRecord: Record<string, any>;
+  detectedAt: string;
+}
+
+export interface FieldDifference {
+  field: string;
+  label: string;
+  localValue: any;
+  serverValue: any;
+  changedLocally: boolean;
+}
+
+const CONFLICTS_KEY = '@jobtracker/conflicts';
+
+// Bookkeeping fields that always differ and aren't meaningful to merge
+const IGNORED_FIELDS = ['id', 'user_id', 'created_at', 'updated_at', 'follow_ups'];
+
+let conflicts: SyncConflict[] | null = null;
+const listeners = new Set<(conflicts: SyncConflict[]) => void>();
+
+const load = async (): Promise<SyncConflict[]> => {
+  if (conflicts) return conflicts;
+  try {
+    const raw = await AsyncStorage.getItem(CONFLICTS_KEY);
+    conflicts = raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error reading sync conflicts:', error);
+    conflicts = [];
+  }
+  return conflicts!;
+};
+
+const save = async (next: SyncConflict[]) => {
+  conflicts = next;
+  try {
+    await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error writing sync conflicts:', error);
+  }
+  listeners.forEach((listener) => listener(next));
+};
+
+const isEqual = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const toLabel = (field: string) => {
+  const words = field.replace(/_id$/, '').split('_');
+  return words.map((word, index) => (index === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word)).join(' ');
+};
+
+// Field-by-field differences between this device's version and the server's
+export const diffConflict = (conflict: SyncConflict): FieldDifference[] => {
+  const fields = new Set([...Object.keys(conflict.localRecord), ...Object.keys(conflict.serverRecord)]);
+
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => !isEqual(conflict.localRecord[field], conflict.serverRecord[field]))
+    .map((field) => ({
+      field,
+      label: toLabel(field),
+      localValue: conflict.localRecord[field],
+      serverValue: conflict.serverRecord[field],
+      changedLocally: field in conflict.localChanges,
+    }));
+};
+
+export const conflictsStore = {
+  getAll: async () => {
+    return [...(await load())];
+  },
+
+  getById: async (id: string) => {
+    return (await load()).find((conflict) => conflict.id === id);
+  },
+
+  add: async (conflict: Omit<SyncConflict, 'id' | 'detectedAt'>) => {
+    const current = await load();
+    // A newer conflict on the same record supersedes the old one
+    const others = current.filter(
+      (existing) => !(existing.entity === conflict.entity && existing.recordId === conflict.recordId)
+    );
+    await save([
+      ...others,
+      { ...conflict, id: `${conflict.entity}-${conflict.recordId}-${Date.now()}`, detectedAt: new Date().toISOString() },
+    ]);
+  },
+
+  remove: async (id: string) => {
+    await save((await load()).filter((conflict) => conflict.id !== id));
+  },
+
+  subscribe: (listener: (conflicts: SyncConflict[]) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  clear: async () => {
+    await save([]);
+  },
+};
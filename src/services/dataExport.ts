@@ -0,0 +1,74 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { jobApplicationsApi } from './api';
+import { applicationsRepository, tasksRepository, eventsRepository } from './repositories';
+import { isTempId } from './localStore';
+import { ExportData, ExportDateRange, ExportEntity, ExportFile, filterExportData } from '../utils/dataExport';
+
+const EXPORT_DIRECTORY = `${FileSystem.cacheDirectory}exports/`;
+
+// Exports read the freshest data available but still work offline from the cache
+const loadAll = <T>(repository: { getAll: () => Promise<T[]>; getCached: () => Promise<T[]> }) =>
+  repository.getAll().catch(() => repository.getCached());
+
+export interface CollectedExport {
+  data: ExportData;
+  // Applications whose follow-ups couldn't be loaded (e.g. offline); they're exported without any
+  missingFollowUps: number[];
+}
+
+export const dataExport = {
+  // Loads the selected entities within the range. Follow-ups come from one
+  // request per application, so onProgress reports how far along that is.
+  collect: async (
+    entities: ExportEntity[],
+    range: ExportDateRange,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<CollectedExport> => {
+    const [applications, tasks, events] = await Promise.all([
+      entities.includes('applications') ? loadAll(applicationsRepository) : [],
+      entities.includes('tasks') ? loadAll(tasksRepository) : [],
+      entities.includes('events') ? loadAll(eventsRepository) : [],
+    ]);
+
+    const data = filterExportData(
+      { applications: applications.map((application) => ({ ...application, follow_ups: [] })), tasks, events },
+      range
+    );
+
+    const missingFollowUps: number[] = [];
+    for (const [index, application] of data.applications.entries()) {
+      // Applications still waiting to sync have nothing on the server yet
+      if (!isTempId(application.id)) {
+        try {
+          application.follow_ups = (await jobApplicationsApi.getWithFollowUps(application.id)).follow_ups;
+        } catch (error) {
+          console.log('📴 Exporting without follow-ups for application', application.id, error);
+          missingFollowUps.push(application.id);
+        }
+      }
+      onProgress?.(index + 1, data.applications.length);
+    }
+
+    return { data, missingFollowUps };
+  },
+
+  // Writes the files to the cache directory and returns their URIs
+  write: async (files: ExportFile[]): Promise<string[]> => {
+    await FileSystem.makeDirectoryAsync(EXPORT_DIRECTORY, { intermediates: true });
+    return Promise.all(
+      files.map(async (file) => {
+        const uri = `${EXPORT_DIRECTORY}${file.name}`;
+        await FileSystem.writeAsStringAsync(uri, file.contents);
+        return uri;
+      })
+    );
+  },
+
+  share: async (uri: string, mimeType: string) => {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(uri, { mimeType, dialogTitle: 'Export Job Tracker data' });
+  },
+};
@@ -0,0 +1,54 @@
+import { followUpsApi } from './api';
+import { applicationsRepository, statusHistoryRepository, tasksRepository } from './repositories';
+import { preferences } from './preferences';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  FollowUpReminderSettings,
+  FollowUpSuggestion,
+  buildReminderTask,
+  findFollowUpSuggestions,
+} from '../utils/followUpReminders';
+import { Task } from '../types';
+
+const SETTINGS_KEY = 'followUpReminders';
+const DISMISSED_KEY = 'followUpReminders/dismissed';
+
+export const followUpReminders = {
+  getSettings: async (userId: string): Promise<FollowUpReminderSettings> => ({
+    ...DEFAULT_REMINDER_SETTINGS,
+    ...(await preferences.get<Partial<FollowUpReminderSettings>>(userId, SETTINGS_KEY, {})),
+  }),
+
+  saveSettings: (userId: string, settings: FollowUpReminderSettings) =>
+    preferences.set(userId, SETTINGS_KEY, settings),
+
+  // Runs the rules over everything on the device. History and follow-ups only
+  // refine the dates, so suggestions still work offline without them.
+  scan: async (userId: string): Promise<FollowUpSuggestion[]> => {
+    const [settings, dismissed] = await Promise.all([
+      followUpReminders.getSettings(userId),
+      preferences.get<string[]>(userId, DISMISSED_KEY, []),
+    ]);
+    if (!settings.enabled) return [];
+
+    const [applications, history, followUps, tasks] = await Promise.all([
+      applicationsRepository.getAll().catch(() => applicationsRepository.getCached()),
+      statusHistoryRepository.getAll().catch(() => statusHistoryRepository.getCached()),
+      followUpsApi.getAll().catch(() => []),
+      tasksRepository.getAll().catch(() => tasksRepository.getCached()),
+    ]);
+    return findFollowUpSuggestions({ applications, history, followUps, tasks }, settings, dismissed);
+  },
+
+  accept: (suggestion: FollowUpSuggestion): Promise<Task> => tasksRepository.create(buildReminderTask(suggestion)),
+
+  dismiss: async (userId: string, suggestion: FollowUpSuggestion) => {
+    const dismissed = await preferences.get<string[]>(userId, DISMISSED_KEY, []);
+    if (!dismissed.includes(suggestion.key)) {
+      await preferences.set(userId, DISMISSED_KEY, [...dismissed, suggestion.key]);
+    }
+  },
+
+  // Brings back every suggestion dismissed so far
+  clearDismissed: (userId: string) => preferences.set<string[]>(userId, DISMISSED_KEY, []),
+};
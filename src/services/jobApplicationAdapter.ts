@@ -0,0 +1,96 @@
+import {
+  JobApplication,
+  JobApplicationCreate,
+  ApplicationStatus,
+  InterviewStage,
+  APPLICATION_STATUSES,
+  INTERVIEW_STAGES,
+} from '../types';
+
+// Maps job applications between the backend wire format and the app's
+// canonical JobApplication model. The backend has used a few different field
+// names over time (and the web app still sends some of them), so every
+// variant is accepted here and nowhere else.
+export interface JobApplicationWire {
+  id: number;
+  user_id?: string | null;
+  job_title: string;
+  company: string;
+  company_id?: number | null;
+  location?: string | null;
+  job_description?: string | null;
+  salary?: string | null;
+  salary_range?: string | null; // legacy name for salary
+  job_url?: string | null;
+  source?: string | null; // legacy name for job_url
+  job_board?: string | null;
+  date_applied?: string | null;
+  application_date?: string | null; // legacy name for date_applied
+  date_job_posted?: string | null;
+  application_status?: string | null;
+  status?: string | null; // legacy lowercase status ('applied', 'offered', ...)
+  interview_stage?: string | null;
+  notes?: string | null;
+  referred_by?: string | null;
+  referral_relationship?: string | null;
+  referral_date?: string | null;
+  referral_notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const STATUS_ALIASES: Record<string, ApplicationStatus> = {
+  interview: 'Interviewing',
+  offered: 'Offer',
+};
+
+const optional = (value?: string | null) => (value === null || value === undefined ? undefined : value);
+
+export const toApplicationStatus = (value?: string | null): ApplicationStatus => {
+  const normalized = (value || '').trim().toLowerCase();
+  const match = APPLICATION_STATUSES.find((status) => status.toLowerCase() === normalized);
+  if (match) return match;
+  if (STATUS_ALIASES[normalized]) return STATUS_ALIASES[normalized];
+
+  if (normalized) {
+    console.warn('Unknown application status from backend:', value);
+  }
+  return 'Pending';
+};
+
+export const toInterviewStage = (value?: string | null): InterviewStage => {
+  const normalized = (value || '').trim().toLowerCase();
+  return INTERVIEW_STAGES.find((stage) => stage.toLowerCase() === normalized) ?? 'None';
+};
+
+export const toJobApplication = (wire: JobApplicationWire): JobApplication => ({
+  id: wire.id,
+  user_id: optional(wire.user_id),
+  job_title: wire.job_title,
+  company: wire.company,
+  company_id: wire.company_id ?? undefined,
+  location: optional(wire.location),
+  job_description: optional(wire.job_description),
+  salary: optional(wire.salary ?? wire.salary_range),
+  job_url: optional(wire.job_url ?? wire.source),
+  job_board: optional(wire.job_board),
+  date_applied: wire.date_applied ?? wire.application_date ?? wire.created_at,
+  date_job_posted: optional(wire.date_job_posted),
+  application_status: toApplicationStatus(wire.application_status ?? wire.status),
+  interview_stage: toInterviewStage(wire.interview_stage),
+  notes: optional(wire.notes),
+  referred_by: optional(wire.referred_by),
+  referral_relationship: optional(wire.referral_relationship),
+  referral_date: optional(wire.referral_date),
+  referral_notes: optional(wire.referral_notes),
+  created_at: wire.created_at,
+  updated_at: wire.updated_at,
+});
+
+// Canonical create/update payload -> request body. Fields left undefined are
+// omitted so partial updates don't blank out values on the server.
+export const toJobApplicationWire = (data: Partial<JobApplicationCreate>): Partial<JobApplicationWire> => {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<JobApplicationWire>;
+};
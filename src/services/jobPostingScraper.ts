@@ -0,0 +1,32 @@
+import { ScrapedJobData } from '../types';
+import { parseJobPostingHtml } from '../utils/jobPostingParser';
+
+const FETCH_TIMEOUT_MS = 15000;
+
+// Fallback for when the backend scraper can't read a posting: fetch the page
+// from the device and parse it locally
+export const scrapeJobPostingLocally = async (url: string): Promise<ScrapedJobData> => {
+  const target = /^https?:\/\//i.test(url.trim()) ? url.trim() : `https://${url.trim()}`;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    console.log('🔍 Local scrape: fetching', target);
+    const response = await fetch(target, {
+      signal: controller.signal,
+      headers: { Accept: 'text/html,application/xhtml+xml' },
+    });
+    if (!response.ok) {
+      return { success: false, error: `The job page returned ${response.status}` };
+    }
+    return parseJobPostingHtml(await response.text(), target);
+  } catch (error: any) {
+    console.error('🔍 Local scrape failed:', error);
+    return {
+      success: false,
+      error: error?.name === 'AbortError' ? 'The job page took too long to load' : 'Could not load the job page',
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
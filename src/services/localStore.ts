@@ -0,0 +1,121 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Local persistent copy of the records each screen reads from.
+// Every entity is stored as a single JSON array under its own AsyncStorage key
+// and mirrored in memory so repeated reads don't hit storage.
+export type EntityName = 'applications' | 'tasks' | 'events' | 'statusHistory' | 'contacts' | 'contactLinks' | 'companies';
+
+export interface StoredRecord {
+  id: number;
+  [key: string]: any;
+}
+
+type Listener = () => void;
+
+const STORAGE_PREFIX = '@jobtracker/store/';
+export const ENTITY_NAMES: EntityName[] = ['applications', 'tasks', 'events', 'statusHistory', 'contacts', 'contactLinks', 'companies'];
+
+const cache = new Map<EntityName, StoredRecord[]>();
+const listeners = new Map<EntityName, Set<Listener>>();
+
+const notify = (entity: EntityName) => {
+  listeners.get(entity)?.forEach((listener) => listener());
+};
+
+const read = async (entity: EntityName): Promise<StoredRecord[]> => {
+  const cached = cache.get(entity);
+  if (cached) return cached;
+
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_PREFIX + entity);
+    const records = raw ? JSON.parse(raw) : [];
+    cache.set(entity, records);
+    return records;
+  } catch (error) {
+    console.error(`Error reading local ${entity}:`, error);
+    return [];
+  }
+};
+
+const write = async (entity: EntityName, records: StoredRecord[]) => {
+  cache.set(entity, records);
+  try {
+    await AsyncStorage.setItem(STORAGE_PREFIX + entity, JSON.stringify(records));
+  } catch (error) {
+    console.error(`Error writing local ${entity}:`, error);
+  }
+  notify(entity);
+};
+
+export const localStore = {
+  getAll: async <T extends StoredRecord>(entity: EntityName): Promise<T[]> => {
+    return (await read(entity)) as T[];
+  },
+
+  getById: async <T extends StoredRecord>(entity: EntityName, id: number): Promise<T | undefined> => {
+    const records = await read(entity);
+    return records.find((record) => record.id === id) as T | undefined;
+  },
+
+  setAll: async <T extends StoredRecord>(entity: EntityName, records: T[]) => {
+    await write(entity, records);
+  },
+
+  upsert: async <T extends StoredRecord>(entity: EntityName, record: T) => {
+    const records = await read(entity);
+    const exists = records.some((existing) => existing.id === record.id);
+    await write(
+      entity,
+      exists
+        ? records.map((existing) => (existing.id === record.id ? { ...existing, ...record } : existing))
+        : [...records, record]
+    );
+  },
+
+  remove: async (entity: EntityName, id: number) => {
+    const records = await read(entity);
+    await write(entity, records.filter((record) => record.id !== id));
+  },
+
+  // Swap a temporary client ID for the record the server returned
+  replaceId: async <T extends StoredRecord>(entity: EntityName, tempId: number, serverRecord: T) => {
+    const records = await read(entity);
+    const withoutTemp = records.filter((record) => record.id !== tempId && record.id !== serverRecord.id);
+    await write(entity, [...withoutTemp, serverRecord]);
+  },
+
+  // Rewrite a foreign key (e.g. job_application_id) that still points at a temporary ID
+  replaceReference: async (entity: EntityName, field: string, tempId: number, serverId: number) => {
+    const records = await read(entity);
+    if (!records.some((record) => record[field] === tempId)) return;
+    await write(
+      entity,
+      records.map((record) => (record[field] === tempId ? { ...record, [field]: serverId } : record))
+    );
+  },
+
+  subscribe: (entity: EntityName, listener: Listener) => {
+    if (!listeners.has(entity)) listeners.set(entity, new Set());
+    listeners.get(entity)!.add(listener);
+    return () => {
+      listeners.get(entity)?.delete(listener);
+    };
+  },
+
+  // Drop every locally stored record (used on sign out so accounts don't leak into each other)
+  clear: async () => {
+    cache.clear();
+    await AsyncStorage.multiRemove(ENTITY_NAMES.map((entity) => STORAGE_PREFIX + entity));
+    ENTITY_NAMES.forEach(notify);
+  },
+};
+
+// Temporary IDs are negative so they can never collide with server IDs
+let lastTempId = 0;
+
+export const createTempId = () => {
+  lastTempId = Math.min(lastTempId - 1, -Date.now());
+  return lastTempId;
+};
+
+export const isTempId = (id: number) => id < 0;
@@ -0,0 +1,116 @@
+import { AppState, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { followUpsApi } from './api';
+import { eventsRepository, tasksRepository } from './repositories';
+import { planNotifications } from '../utils/notificationSchedule';
+import { FollowUp } from '../types';
+
+const CHANNEL_ID = 'reminders';
+
+// Record changes tend to arrive in bursts (a sync, a bulk edit), so rescheduling waits for them to settle
+const RESCHEDULE_DELAY_MS = 1000;
+
+// Follow-ups are not cached on the device; offline, the last list fetched is used
+let lastFollowUps: FollowUp[] = [];
+let running: Promise<void> | null = null;
+let rerun = false;
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+const hasPermission = async (ask: boolean) => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !ask || !current.canAskAgain) return current.granted;
+  return (await Notifications.requestPermissionsAsync()).granted;
+};
+
+const reschedule = async () => {
+  if (!(await hasPermission(false))) return;
+
+  const [events, tasks, followUps] = await Promise.all([
+    eventsRepository.getCached(),
+    tasksRepository.getCached(),
+    followUpsApi.getPending().catch(() => lastFollowUps),
+  ]);
+  lastFollowUps = followUps;
+
+  const planned = planNotifications({ events, tasks, followUps });
+  await Notifications.cancelAllScheduledNotificationsAsync();
+  for (const notification of planned) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: notification.key,
+      content: { title: notification.title, body: notification.body, data: { url: notification.url } },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: notification.date, channelId: CHANNEL_ID },
+    });
+  }
+  console.log(`🔔 Scheduled ${planned.length} reminders`);
+};
+
+export const notificationScheduler = {
+  // Throws the pending reminders away and schedules them again from the
+  // current events, tasks and follow-ups. Calls made while one is running
+  // are folded into a single rerun.
+  sync: async (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        rerun = false;
+        try {
+          await reschedule();
+        } catch (error) {
+          console.error('Error scheduling reminders:', error);
+        }
+      } while (rerun);
+      running = null;
+    })();
+    return running;
+  },
+
+  // Asks for permission once, then keeps reminders in step with local changes
+  // and with anything synced while the app was in the background
+  start: () => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleSync = () => {
+      clearTimeout(timer);
+      timer = setTimeout(notificationScheduler.sync, RESCHEDULE_DELAY_MS);
+    };
+
+    (async () => {
+      if (Platform.OS === 'android') {
+        await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+          name: 'Reminders',
+          importance: Notifications.AndroidImportance.HIGH,
+        });
+      }
+      if (await hasPermission(true)) notificationScheduler.sync();
+    })().catch((error) => console.error('Error setting up reminders:', error));
+
+    const unsubscribeEvents = eventsRepository.subscribe(scheduleSync);
+    const unsubscribeTasks = tasksRepository.subscribe(scheduleSync);
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') scheduleSync();
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribeEvents();
+      unsubscribeTasks();
+      appStateSubscription.remove();
+    };
+  },
+
+  // Reminders belong to the signed-in user and are cleared on sign-out
+  clear: async () => {
+    lastFollowUps = [];
+    await Notifications.cancelAllScheduledNotificationsAsync().catch(() => undefined);
+  },
+};
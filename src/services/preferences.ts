@@ -0,0 +1,27 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Small per-user UI preferences (view modes, saved filters, ...). These live
+// on the device and survive sign-out, unlike the offline data cache.
+const PREFERENCES_KEY_PREFIX = '@jobtracker/preferences/';
+
+const storageKey = (userId: string, key: string) => `${PREFERENCES_KEY_PREFIX}${userId}/${key}`;
+
+export const preferences = {
+  get: async <T>(userId: string, key: string, fallback: T): Promise<T> => {
+    try {
+      const raw = await AsyncStorage.getItem(storageKey(userId, key));
+      return raw ? (JSON.parse(raw) as T) : fallback;
+    } catch (error) {
+      console.error(`Error reading preference ${key}:`, error);
+      return fallback;
+    }
+  },
+
+  set: async <T>(userId: string, key: string, value: T): Promise<void> => {
+    try {
+      await AsyncStorage.setItem(storageKey(userId, key), JSON.stringify(value));
+    } catch (error) {
+      console.error(`Error saving preference ${key}:`, error);
+    }
+  },
+};
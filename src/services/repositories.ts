@@ -0,0 +1,348 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  jobApplicationsApi,
+  tasksApi,
+  calendarEventsApi,
+  statusHistoryApi,
+  contactsApi,
+  contactLinksApi,
+  companiesApi,
+} from './api';
+import { localStore, createTempId, isTempId, EntityName, StoredRecord } from './localStore';
+import { syncQueue, shouldRetryLater } from './syncQueue';
+import { conflictsStore, SyncConflict } from './conflicts';
+import { UNDO_WINDOW_MS } from './undo';
+import { findExactCompany, normalizeCompanyName } from '../utils/companyMatching';
+import {
+  JobApplication,
+  JobApplicationCreate,
+  Task,
+  TaskCreate,
+  CalendarEvent,
+  StatusChangeEvent,
+  StatusChangeEventCreate,
+  StatusChangeField,
+  Company,
+  CompanyCreate,
+  Contact,
+  ContactCreate,
+  ContactLink,
+  ContactLinkCreate,
+} from '../types';
+
+// Offline-first data access for the screens. Reads come from the local store
+// (refreshed from the server whenever it is reachable) and writes are applied
+// locally straight away, then queued for the server in the sync outbox.
+interface RemoteSource<T> {
+  getAll: () => Promise<T[]>;
+  getById: (id: number) => Promise<T>;
+}
+
+const createRepository = <T extends StoredRecord, C extends object, U extends object = Partial<C>>(
+  entity: EntityName,
+  remote: RemoteSource<T>
+) => {
+  // Deletes still inside their undo window, keyed by record id. They are hidden
+  // locally but not queued for the server until the window closes.
+  const pendingDeletes = new Map<number, ReturnType<typeof setTimeout>>();
+
+  // Layer changes the server hasn't seen yet over a fresh server snapshot
+  const mergeUnsynced = async (serverRecords: T[]) => {
+    const pending = (await syncQueue.getPending()).filter((mutation) => mutation.entity === entity);
+    const deleted = new Set(pending.filter((mutation) => mutation.type === 'delete').map((mutation) => mutation.recordId));
+    const updates = new Map(
+      pending.filter((mutation) => mutation.type === 'update').map((mutation) => [mutation.recordId, mutation.payload])
+    );
+    const local = await localStore.getAll<T>(entity);
+
+    return [
+      ...serverRecords
+        .filter((record) => !deleted.has(record.id) && !pendingDeletes.has(record.id))
+        .map((record) => (updates.has(record.id) ? { ...record, ...updates.get(record.id) } : record)),
+      // Records created offline that the server hasn't confirmed yet
+      ...local.filter((record) => isTempId(record.id)),
+    ];
+  };
+
+  return {
+    // Local copy only - never touches the network
+    getCached: async (): Promise<T[]> => {
+      return localStore.getAll<T>(entity);
+    },
+
+    // Push queued changes, then refresh from the server. Falls back to the
+    // local copy when the backend can't be reached.
+    getAll: async (): Promise<T[]> => {
+      try {
+        await syncQueue.flush();
+        const serverRecords = await remote.getAll();
+        const records = await mergeUnsynced(serverRecords);
+        await localStore.setAll(entity, records);
+        return records;
+      } catch (error: any) {
+        if (!shouldRetryLater(error)) throw error;
+        console.log(`📴 Using cached ${entity}:`, error?.message);
+        return localStore.getAll<T>(entity);
+      }
+    },
+
+    // Pass refresh = false to read only the local copy, e.g. from a store subscription
+    getById: async (id: number, refresh = true): Promise<T | undefined> => {
+      const resolvedId = syncQueue.resolveId(entity, id);
+      // Deleted and waiting out the undo window - fetching it again would bring it back
+      if (pendingDeletes.has(resolvedId)) return undefined;
+      const cached = await localStore.getById<T>(entity, resolvedId);
+      if (cached || !refresh || isTempId(resolvedId)) return cached;
+
+      try {
+        const record = await remote.getById(resolvedId);
+        await localStore.upsert(entity, record);
+        return record;
+      } catch (error: any) {
+        if (!shouldRetryLater(error)) throw error;
+        return undefined;
+      }
+    },
+
+    create: async (data: C): Promise<T> => {
+      const now = new Date().toISOString();
+      const record = { ...data, id: createTempId(), created_at: now, updated_at: now } as unknown as T;
+
+      await localStore.upsert(entity, record);
+      await syncQueue.enqueue({ entity, type: 'create', recordId: record.id, payload: data });
+      syncQueue.flush();
+      return record;
+    },
+
+    update: async (id: number, changes: U): Promise<T> => {
+      const resolvedId = syncQueue.resolveId(entity, id);
+      const existing = await localStore.getById<T>(entity, resolvedId);
+      // updated_at is left alone so it keeps tracking the server version this edit is based on
+      const record = { ...existing, ...changes, id: resolvedId } as unknown as T;
+
+      await localStore.upsert(entity, record);
+      await syncQueue.enqueue({
+        entity,
+        type: 'update',
+        recordId: resolvedId,
+        payload: changes,
+        baseUpdatedAt: existing?.updated_at,
+      });
+      syncQueue.flush();
+      return record;
+    },
+
+    delete: async (id: number): Promise<void> => {
+      const resolvedId = syncQueue.resolveId(entity, id);
+      await localStore.remove(entity, resolvedId);
+      await syncQueue.enqueue({ entity, type: 'delete', recordId: resolvedId });
+      syncQueue.flush();
+    },
+
+    // Hides the record straight away but only queues the delete once the undo
+    // window has passed. Resolves to a function that brings the record back.
+    deleteWithUndo: async (id: number, windowMs = UNDO_WINDOW_MS): Promise<() => Promise<void>> => {
+      const resolvedId = syncQueue.resolveId(entity, id);
+      const snapshot = await localStore.getById<T>(entity, resolvedId);
+      await localStore.remove(entity, resolvedId);
+
+      const timer = setTimeout(async () => {
+        pendingDeletes.delete(resolvedId);
+        // An offline-created record may have synced (and got a server id) during the window
+        const recordId = syncQueue.resolveId(entity, resolvedId);
+        await localStore.remove(entity, recordId);
+        await syncQueue.enqueue({ entity, type: 'delete', recordId });
+        syncQueue.flush();
+      }, windowMs);
+      pendingDeletes.set(resolvedId, timer);
+
+      return async () => {
+        const pending = pendingDeletes.get(resolvedId);
+        if (!pending) return;
+        clearTimeout(pending);
+        pendingDeletes.delete(resolvedId);
+        if (snapshot) {
+          await localStore.upsert(entity, snapshot);
+        }
+      };
+    },
+
+    subscribe: (listener: () => void) => {
+      return localStore.subscribe(entity, listener);
+    },
+  };
+};
+
+const baseStatusHistoryRepository = createRepository<StatusChangeEvent, StatusChangeEventCreate>(
+  'statusHistory',
+  statusHistoryApi
+);
+
+export const statusHistoryRepository = {
+  ...baseStatusHistoryRepository,
+
+  // Server history for one application plus any entries still waiting to sync.
+  // The journal is secondary data, so any failure falls back to the local copy.
+  // Pass refresh = false to read only the local copy, e.g. from a store subscription
+  getForApplication: async (applicationId: number, refresh = true): Promise<StatusChangeEvent[]> => {
+    const resolvedId = syncQueue.resolveId('applications', applicationId);
+    const cached = await localStore.getAll<StatusChangeEvent>('statusHistory');
+    const local = cached.filter((event) => event.job_application_id === resolvedId);
+    if (!refresh || isTempId(resolvedId)) return local;
+
+    try {
+      const remote = await statusHistoryApi.getForApplication(resolvedId);
+      const unsynced = local.filter((event) => isTempId(event.id));
+      await localStore.setAll('statusHistory', [
+        ...cached.filter((event) => event.job_application_id !== resolvedId),
+        ...remote,
+        ...unsynced,
+      ]);
+      return [...remote, ...unsynced];
+    } catch (error: any) {
+      console.log('📴 Using cached status history:', error?.message);
+      return local;
+    }
+  },
+};
+
+const JOURNALED_FIELDS: StatusChangeField[] = ['application_status', 'interview_stage'];
+
+// Record each status/stage transition so the history survives later edits
+const journalStatusChanges = async (before: JobApplication | undefined, after: JobApplication) => {
+  if (!before) return;
+  const changedAt = new Date().toISOString();
+
+  for (const field of JOURNALED_FIELDS) {
+    if (after[field] && before[field] !== after[field]) {
+      await baseStatusHistoryRepository.create({
+        job_application_id: after.id,
+        field,
+        from_value: before[field],
+        to_value: after[field],
+        changed_at: changedAt,
+      });
+    }
+  }
+};
+
+const baseApplicationsRepository = createRepository<JobApplication, JobApplicationCreate>(
+  'applications',
+  jobApplicationsApi
+);
+
+export const applicationsRepository = {
+  ...baseApplicationsRepository,
+
+  update: async (id: number, changes: Partial<JobApplicationCreate>): Promise<JobApplication> => {
+    const before = await localStore.getById<JobApplication>('applications', syncQueue.resolveId('applications', id));
+    const record = await baseApplicationsRepository.update(id, changes);
+    await journalStatusChanges(before, record);
+    return record;
+  },
+};
+
+export const tasksRepository = createRepository<Task, TaskCreate, Partial<Task>>('tasks', tasksApi);
+
+export const eventsRepository = createRepository<CalendarEvent, Partial<CalendarEvent>>('events', calendarEventsApi);
+
+const baseContactLinksRepository = createRepository<ContactLink, ContactLinkCreate>('contactLinks', contactLinksApi);
+
+// Links only decorate other screens, so any failure falls back to the local copy
+const getAllContactLinks = () =>
+  baseContactLinksRepository.getAll().catch((error) => {
+    console.log('📴 Using cached contact links:', error?.message);
+    return baseContactLinksRepository.getCached();
+  });
+
+export const contactLinksRepository = {
+  ...baseContactLinksRepository,
+
+  // Pass refresh = false to read only the local copy, e.g. from a store subscription
+  getForContact: async (contactId: number, refresh = true): Promise<ContactLink[]> => {
+    const resolvedId = syncQueue.resolveId('contacts', contactId);
+    const links = refresh ? await getAllContactLinks() : await baseContactLinksRepository.getCached();
+    return links.filter((link) => link.contact_id === resolvedId);
+  },
+
+  getForApplication: async (applicationId: number, refresh = true): Promise<ContactLink[]> => {
+    const resolvedId = syncQueue.resolveId('applications', applicationId);
+    const links = refresh ? await getAllContactLinks() : await baseContactLinksRepository.getCached();
+    return links.filter((link) => link.job_application_id === resolvedId);
+  },
+};
+
+const baseContactsRepository = createRepository<Contact, ContactCreate>('contacts', contactsApi);
+
+export const contactsRepository = {
+  ...baseContactsRepository,
+
+  // A contact's links go with it so no application points at a missing person
+  delete: async (id: number): Promise<void> => {
+    const links = await contactLinksRepository.getForContact(id, false);
+    for (const link of links) {
+      await contactLinksRepository.delete(link.id);
+    }
+    await baseContactsRepository.delete(id);
+  },
+};
+
+const baseCompaniesRepository = createRepository<Company, CompanyCreate>('companies', companiesApi);
+
+export const companiesRepository = {
+  ...baseCompaniesRepository,
+
+  // The company with the same normalized name, or a new one if there isn't one yet
+  findOrCreate: async (name: string): Promise<Company> => {
+    const existing = findExactCompany(name, await baseCompaniesRepository.getCached());
+    if (existing) return existing;
+    return baseCompaniesRepository.create({ name: name.trim(), normalized_name: normalizeCompanyName(name) });
+  },
+};
+
+// Apply the user's pick for each conflicting field. Fields taken from this
+// device are re-sent against the server's current version; if every field was
+// taken from the server there is nothing left to send.
+export const resolveConflict = async (conflict: SyncConflict, merged: Record<string, any>) => {
+  const { entity, recordId, serverRecord } = conflict;
+  const changes = Object.fromEntries(
+    Object.entries(merged).filter(([field, value]) => JSON.stringify(value) !== JSON.stringify(serverRecord[field]))
+  );
+
+  await localStore.upsert(entity, { ...serverRecord, ...changes, id: recordId });
+  if (Object.keys(changes).length > 0) {
+    await syncQueue.enqueue({
+      entity,
+      type: 'update',
+      recordId,
+      payload: changes,
+      baseUpdatedAt: serverRecord.updated_at,
+    });
+  }
+  await conflictsStore.remove(conflict.id);
+  syncQueue.flush();
+};
+
+// The user the local copy and unsent changes belong to
+const OFFLINE_OWNER_KEY = '@jobtracker/offline-owner';
+
+// Wipe the local copy and any unsent changes (e.g. when the user signs out)
+export const clearOfflineData = async () => {
+  await syncQueue.clear();
+  await conflictsStore.clear();
+  await localStore.clear();
+  await AsyncStorage.removeItem(OFFLINE_OWNER_KEY);
+};
+
+// Called before a user's session is used. A session that ended on its own (a
+// failed token refresh) leaves the offline data in place; it is kept if the
+// same user signs back in and wiped if someone else does.
+export const claimOfflineData = async (userId: string) => {
+  const owner = await AsyncStorage.getItem(OFFLINE_OWNER_KEY);
+  if (owner === userId) return;
+  if (owner) {
+    console.log('🧹 Clearing offline data left by another account');
+    await clearOfflineData();
+  }
+  await AsyncStorage.setItem(OFFLINE_OWNER_KEY, userId);
+};
@@ -0,0 +1,143 @@
+// Minimal runtime schemas for API responses. Each schema checks a value,
+// normalizes it into its typed result, and reports exactly where a response
+// diverged from what the app expects.
+export interface Schema<T> {
+  expected: string;
+  parse: (value: unknown, path: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Raised inside a schema; converted to an ApiValidationError at the API boundary
+class SchemaMismatch extends Error {
+  path: string;
+  expected: string;
+  actual: unknown;
+
+  constructor(path: string, expected: string, actual: unknown) {
+    super(`${path}: expected ${expected}`);
+    this.path = path;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+// Thrown when the backend returns something that doesn't match the declared schema
+export class ApiValidationError extends Error {
+  endpoint: string;
+  path: string;
+  expected: string;
+  actual: string;
+
+  constructor(endpoint: string, path: string, expected: string, actual: unknown) {
+    const actualSummary = describeValue(actual);
+    super(`Unexpected response from ${endpoint}: at ${path} expected ${expected}, got ${actualSummary}`);
+    this.name = 'ApiValidationError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.expected = expected;
+    this.actual = actualSummary;
+  }
+
+  toJSON() {
+    return { endpoint: this.endpoint, path: this.path, expected: this.expected, actual: this.actual };
+  }
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === 'object') return `object{${Object.keys(value as object).slice(0, 8).join(', ')}}`;
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+const primitive = <T>(expected: string, check: (value: unknown) => boolean): Schema<T> => ({
+  expected,
+  parse: (value, path) => {
+    if (!check(value)) throw new SchemaMismatch(path, expected, value);
+    return value as T;
+  },
+});
+
+export const string = () => primitive<string>('string', (value) => typeof value === 'string');
+
+export const number = () =>
+  primitive<number>('number', (value) => typeof value === 'number' && !Number.isNaN(value));
+
+export const boolean = () => primitive<boolean>('boolean', (value) => typeof value === 'boolean');
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> =>
+  primitive<T>(`one of ${values.join('|')}`, (value) => values.includes(value as T));
+
+// Missing and null both become undefined
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  expected: `${schema.expected} (optional)`,
+  parse: (value, path) => (value === null || value === undefined ? undefined : schema.parse(value, path)),
+});
+
+// Missing and null both fall back to a default value
+export const withDefault = <T>(schema: Schema<T>, fallback: T): Schema<T> => ({
+  expected: `${schema.expected} (optional)`,
+  parse: (value, path) => (value === null || value === undefined ? fallback : schema.parse(value, path)),
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  expected: `array of ${item.expected}`,
+  parse: (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaMismatch(path, `array of ${item.expected}`, value);
+    return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+  },
+});
+
+// Declared fields are validated; anything else the backend sends is passed through untouched
+export const object = <Shape extends Record<string, Schema<any>>>(
+  shape: Shape
+): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> => ({
+  expected: `object with ${Object.keys(shape).join(', ')}`,
+  parse: (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaMismatch(path, 'object', value);
+    }
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const [key, schema] of Object.entries(shape)) {
+      result[key] = schema.parse((value as Record<string, unknown>)[key], `${path}.${key}`);
+    }
+    return result as { [K in keyof Shape]: Infer<Shape[K]> };
+  },
+});
+
+// Tries each variant in order; used to normalize the different shapes an endpoint has returned over time
+export const union = <T>(...variants: Schema<T>[]): Schema<T> => ({
+  expected: variants.map((variant) => variant.expected).join(' OR '),
+  parse: (value, path) => {
+    let closest: SchemaMismatch | null = null;
+    for (const variant of variants) {
+      try {
+        return variant.parse(value, path);
+      } catch (error) {
+        if (!(error instanceof SchemaMismatch)) throw error;
+        // Report the variant that got furthest into the value
+        if (!closest || error.path.length > closest.path.length) closest = error;
+      }
+    }
+    throw closest ?? new SchemaMismatch(path, 'a known response shape', value);
+  },
+});
+
+export const transform = <T, U>(schema: Schema<T>, map: (value: T) => U): Schema<U> => ({
+  expected: schema.expected,
+  parse: (value, path) => map(schema.parse(value, path)),
+});
+
+export const validateResponse = <T>(endpoint: string, schema: Schema<T>, data: unknown): T => {
+  try {
+    return schema.parse(data, '$');
+  } catch (error) {
+    if (!(error instanceof SchemaMismatch)) throw error;
+    const validationError = new ApiValidationError(endpoint, error.path, error.expected, error.actual);
+    console.error('🧩 API response validation failed:', validationError.toJSON());
+    throw validationError;
+  }
+};
@@ -0,0 +1,53 @@
+import { followUpsApi } from './api';
+import { applicationsRepository, statusHistoryRepository } from './repositories';
+import { preferences } from './preferences';
+import {
+  DEFAULT_STALE_WEEKS,
+  StaleApplication,
+  countActivePipeline,
+  findStaleApplications,
+} from '../utils/staleApplications';
+import { ApplicationStatus } from '../types';
+
+const WEEKS_KEY = 'staleApplications/weeks';
+const KEPT_KEY = 'staleApplications/kept';
+
+export interface PipelineReview {
+  stale: StaleApplication[];
+  // Open applications that are not stale
+  active: number;
+}
+
+export const staleApplications = {
+  getWeeks: (userId: string) => preferences.get<number>(userId, WEEKS_KEY, DEFAULT_STALE_WEEKS),
+
+  setWeeks: (userId: string, weeks: number) => preferences.set(userId, WEEKS_KEY, weeks),
+
+  // History and follow-ups only add activity dates, so this still works offline without them
+  review: async (userId: string): Promise<PipelineReview> => {
+    const [weeks, kept, applications, history, followUps] = await Promise.all([
+      staleApplications.getWeeks(userId),
+      preferences.get<Record<number, string>>(userId, KEPT_KEY, {}),
+      applicationsRepository.getAll().catch(() => applicationsRepository.getCached()),
+      statusHistoryRepository.getAll().catch(() => statusHistoryRepository.getCached()),
+      followUpsApi.getAll().catch(() => []),
+    ]);
+    const stale = findStaleApplications({ applications, history, followUps }, weeks, kept);
+    return { stale, active: countActivePipeline(applications, stale) };
+  },
+
+  // Keeping restarts the clock: the application only comes back after another quiet stretch
+  keep: async (userId: string, applicationIds: number[]) => {
+    const kept = await preferences.get<Record<number, string>>(userId, KEPT_KEY, {});
+    const now = new Date().toISOString();
+    for (const id of applicationIds) kept[id] = now;
+    await preferences.set(userId, KEPT_KEY, kept);
+  },
+
+  // Status changes go through the repository so they are journaled and work offline
+  moveTo: async (applicationIds: number[], status: ApplicationStatus) => {
+    for (const id of applicationIds) {
+      await applicationsRepository.update(id, { application_status: status });
+    }
+  },
+};
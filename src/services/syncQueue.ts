@@ -0,0 +1,328 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  jobApplicationsApi,
+  tasksApi,
+  calendarEventsApi,
+  statusHistoryApi,
+  contactsApi,
+  contactLinksApi,
+  companiesApi,
+  ConflictError,
+  UpdateOptions,
+} from './api';
+import { localStore, EntityName, StoredRecord, isTempId } from './localStore';
+import { conflictsStore, ConflictEntity } from './conflicts';
+import { ApiValidationError } from './schema';
+
+// Outbox of create/update/delete mutations made while offline (or before the
+// server has confirmed them). Mutations are replayed strictly in the order
+// they were recorded.
+export type MutationType = 'create' | 'update' | 'delete';
+
+export interface QueuedMutation {
+  id: string;
+  entity: EntityName;
+  type: MutationType;
+  recordId: number;
+  payload?: Record<string, any>;
+  // For updates: the server's updated_at when the edit was made
+  baseUpdatedAt?: string;
+  queuedAt: string;
+}
+
+export interface FlushResult {
+  synced: number;
+  remaining: number;
+}
+
+interface EntityApi {
+  create: (data: any) => Promise<StoredRecord>;
+  update: (id: number, data: any, options?: UpdateOptions) => Promise<StoredRecord>;
+  delete: (id: number) => Promise<void>;
+}
+
+const OUTBOX_KEY = '@jobtracker/outbox';
+
+const entityApis: Record<EntityName, EntityApi> = {
+  applications: jobApplicationsApi,
+  tasks: tasksApi,
+  events: calendarEventsApi,
+  statusHistory: statusHistoryApi,
+  contacts: contactsApi,
+  contactLinks: contactLinksApi,
+  companies: companiesApi,
+};
+
+// Entities whose updates are checked against the server version before being applied
+const CONFLICT_CHECKED: EntityName[] = ['applications', 'tasks'];
+
+// Foreign keys that still point at a temporary ID and need rewriting once the
+// referenced record has been created on the server
+const REFERENCES: Partial<Record<EntityName, { entity: EntityName; field: string }[]>> = {
+  applications: [
+    { entity: 'tasks', field: 'job_application_id' },
+    { entity: 'events', field: 'job_application_id' },
+    { entity: 'statusHistory', field: 'job_application_id' },
+    { entity: 'contactLinks', field: 'job_application_id' },
+  ],
+  contacts: [{ entity: 'contactLinks', field: 'contact_id' }],
+  companies: [{ entity: 'applications', field: 'company_id' }],
+};
+
+let queue: QueuedMutation[] | null = null;
+let flushing: Promise<FlushResult> | null = null;
+// The mutation currently being sent. Its payload is already on the wire, so
+// later edits are queued behind it rather than folded into it.
+let inFlightId: string | null = null;
+const listeners = new Set<(pending: number) => void>();
+
+let mutationCounter = 0;
+const nextMutationId = () => `${Date.now()}-${mutationCounter++}`;
+
+// tempId -> serverId for creates that have already been replayed
+const resolvedIds = new Map<string, number>();
+
+const loadQueue = async (): Promise<QueuedMutation[]> => {
+  if (queue) return queue;
+  try {
+    const raw = await AsyncStorage.getItem(OUTBOX_KEY);
+    queue = raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error reading sync outbox:', error);
+    queue = [];
+  }
+  return queue!;
+};
+
+const saveQueue = async (next: QueuedMutation[]) => {
+  queue = next;
+  try {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error('Error writing sync outbox:', error);
+  }
+  listeners.forEach((listener) => listener(next.length));
+};
+
+// Offline, backend down, or a transient/auth failure: keep the mutation and try again later
+export const shouldRetryLater = (error: any) => {
+  // The request went through but the response was malformed; retrying won't fix that
+  if (error instanceof ApiValidationError) return false;
+  const status = error?.response?.status;
+  return !status || status >= 500 || status === 401 || status === 408 || status === 429;
+};
+
+const rewriteTempId = (mutations: QueuedMutation[], entity: EntityName, tempId: number, serverId: number) =>
+  mutations.map((mutation) => {
+    let next = mutation;
+    if (mutation.entity === entity && mutation.recordId === tempId) {
+      next = { ...next, recordId: serverId };
+    }
+    for (const reference of REFERENCES[entity] ?? []) {
+      if (mutation.entity === reference.entity && mutation.payload?.[reference.field] === tempId) {
+        next = { ...next, payload: { ...next.payload, [reference.field]: serverId } };
+      }
+    }
+    return next;
+  });
+
+// Edits queued while a mutation was in flight were made on top of it: they
+// still apply over the server's copy, and are based on the version it returned
+const withQueuedChanges = (serverRecord: StoredRecord, following: QueuedMutation[]) =>
+  following
+    .filter((queued) => queued.type === 'update')
+    .reduce((record, queued) => ({ ...record, ...queued.payload }), serverRecord);
+
+const rebaseUpdates = (mutations: QueuedMutation[], entity: EntityName, serverRecord: StoredRecord) =>
+  mutations.map((mutation) =>
+    mutation.entity === entity && mutation.recordId === serverRecord.id && mutation.type === 'update'
+      ? { ...mutation, baseUpdatedAt: serverRecord.updated_at ?? mutation.baseUpdatedAt }
+      : mutation
+  );
+
+const replay = async (mutation: QueuedMutation) => {
+  const entityApi = entityApis[mutation.entity];
+
+  switch (mutation.type) {
+    case 'create': {
+      const serverRecord = await entityApi.create(mutation.payload);
+      // Everything else queued by now, with the temporary id swapped for the server's
+      const settled = async () =>
+        rewriteTempId(
+          (await loadQueue()).filter((queued) => queued.id !== mutation.id),
+          mutation.entity,
+          mutation.recordId,
+          serverRecord.id
+        );
+      const following = (await settled()).filter(
+        (queued) => queued.entity === mutation.entity && queued.recordId === serverRecord.id
+      );
+      if (following.some((queued) => queued.type === 'delete')) {
+        // Deleted locally while the create was in flight; the queued delete removes it from the server
+        await localStore.remove(mutation.entity, mutation.recordId);
+      } else {
+        await localStore.replaceId(mutation.entity, mutation.recordId, withQueuedChanges(serverRecord, following));
+      }
+      resolvedIds.set(`${mutation.entity}:${mutation.recordId}`, serverRecord.id);
+
+      for (const reference of REFERENCES[mutation.entity] ?? []) {
+        await localStore.replaceReference(reference.entity, reference.field, mutation.recordId, serverRecord.id);
+      }
+      // Read the queue again: changes may have been queued while the local store was being updated
+      await saveQueue(rebaseUpdates(await settled(), mutation.entity, serverRecord));
+      return;
+    }
+    case 'update': {
+      try {
+        const serverRecord = await entityApi.update(mutation.recordId, mutation.payload, {
+          expectedUpdatedAt: CONFLICT_CHECKED.includes(mutation.entity) ? mutation.baseUpdatedAt : undefined,
+        });
+        if (serverRecord?.id) {
+          const following = (await loadQueue()).filter(
+            (queued) =>
+              queued.id !== mutation.id && queued.entity === mutation.entity && queued.recordId === mutation.recordId
+          );
+          if (!following.some((queued) => queued.type === 'delete')) {
+            await localStore.upsert(mutation.entity, withQueuedChanges(serverRecord, following));
+          }
+          // Read the queue again: changes may have been queued while the local store was being updated
+          const rest = (await loadQueue()).filter((queued) => queued.id !== mutation.id);
+          await saveQueue(rebaseUpdates(rest, mutation.entity, serverRecord));
+          return;
+        }
+      } catch (error) {
+        if (!(error instanceof ConflictError)) throw error;
+        // Park the edit until the user decides which version wins
+        console.log(`⚠️ Conflict on ${mutation.entity} ${mutation.recordId}, waiting for user to resolve`);
+        const localRecord = await localStore.getById(mutation.entity, mutation.recordId);
+        await conflictsStore.add({
+          entity: mutation.entity as ConflictEntity,
+          recordId: mutation.recordId,
+          localChanges: mutation.payload || {},
+          localRecord: localRecord || { ...mutation.payload },
+          serverRecord: error.serverRecord,
+        });
+      }
+      break;
+    }
+    case 'delete':
+      try {
+        await entityApi.delete(mutation.recordId);
+      } catch (error: any) {
+        // Already gone on the server - nothing left to do
+        if (error?.response?.status !== 404) throw error;
+      }
+      break;
+  }
+
+  await saveQueue((await loadQueue()).filter((queued) => queued.id !== mutation.id));
+};
+
+const runFlush = async (): Promise<FlushResult> => {
+  let synced = 0;
+
+  while (true) {
+    const [next] = await loadQueue();
+    if (!next) break;
+
+    inFlightId = next.id;
+    try {
+      await replay(next);
+      synced++;
+    } catch (error: any) {
+      if (shouldRetryLater(error)) {
+        console.log('📴 Sync paused, will retry later:', error?.message);
+        break;
+      }
+      // The server rejected this mutation outright; replaying it again would fail the same way
+      console.error(`Dropping rejected ${next.type} on ${next.entity} ${next.recordId}:`, error?.response?.data);
+      // Without its create, anything queued against the temporary id has nothing to apply to
+      const dropped = (queued: QueuedMutation) =>
+        queued.id === next.id ||
+        (next.type === 'create' && queued.entity === next.entity && queued.recordId === next.recordId);
+      await saveQueue((await loadQueue()).filter((queued) => !dropped(queued)));
+    } finally {
+      inFlightId = null;
+    }
+  }
+
+  const remaining = (await loadQueue()).length;
+  if (synced > 0) {
+    console.log(`🔄 Synced ${synced} queued change(s), ${remaining} remaining`);
+  }
+  return { synced, remaining };
+};
+
+export const syncQueue = {
+  enqueue: async (mutation: Omit<QueuedMutation, 'id' | 'queuedAt'>) => {
+    const current = await loadQueue();
+    const forRecord = (queued: QueuedMutation) =>
+      queued.entity === mutation.entity && queued.recordId === mutation.recordId;
+
+    const unsent = (type: MutationType) =>
+      current.find((queued) => forRecord(queued) && queued.type === type && queued.id !== inFlightId);
+
+    const pendingCreate = unsent('create');
+    const pendingUpdate = unsent('update');
+
+    if (mutation.type === 'update' && (pendingCreate || pendingUpdate)) {
+      // Fold the change into the mutation that hasn't been sent yet
+      const target = (pendingCreate || pendingUpdate)!;
+      await saveQueue(
+        current.map((queued) =>
+          queued.id === target.id ? { ...queued, payload: { ...queued.payload, ...mutation.payload } } : queued
+        )
+      );
+      return;
+    }
+
+    if (mutation.type === 'delete') {
+      const withoutRecord = current.filter((queued) => !forRecord(queued) || queued.id === inFlightId);
+      const createInFlight = current.some(
+        (queued) => forRecord(queued) && queued.type === 'create' && queued.id === inFlightId
+      );
+      // The server never heard of this record, so there's nothing to delete remotely.
+      // A create already on its way will land, though: the delete follows it and
+      // picks up the server id once the create has been replayed.
+      if (!createInFlight && (pendingCreate || isTempId(mutation.recordId))) {
+        await saveQueue(withoutRecord);
+        return;
+      }
+      await saveQueue([...withoutRecord, { ...mutation, id: nextMutationId(), queuedAt: new Date().toISOString() }]);
+      return;
+    }
+
+    await saveQueue([...current, { ...mutation, id: nextMutationId(), queuedAt: new Date().toISOString() }]);
+  },
+
+  // Replay queued mutations in order. Concurrent callers share a single run.
+  flush: (): Promise<FlushResult> => {
+    if (!flushing) {
+      flushing = runFlush().finally(() => {
+        flushing = null;
+      });
+    }
+    return flushing;
+  },
+
+  getPending: async () => {
+    return [...(await loadQueue())];
+  },
+
+  // Server ID a temporary ID was reconciled to, if its create has been replayed
+  resolveId: (entity: EntityName, id: number) => {
+    return resolvedIds.get(`${entity}:${id}`) ?? id;
+  },
+
+  subscribe: (listener: (pending: number) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  clear: async () => {
+    resolvedIds.clear();
+    await saveQueue([]);
+  },
+};
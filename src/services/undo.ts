@@ -0,0 +1,59 @@
+// The most recent undoable action (e.g. a delete that hasn't been sent yet).
+// Only one is offered at a time; showing a new one replaces the previous offer.
+export interface UndoAction {
+  id: string;
+  message: string;
+  undo: () => Promise<void>;
+  expiresAt: number;
+}
+
+export const UNDO_WINDOW_MS = 5000;
+
+type Listener = (action: UndoAction | null) => void;
+
+let current: UndoAction | null = null;
+let expiryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<Listener>();
+
+const setCurrent = (action: UndoAction | null) => {
+  current = action;
+  listeners.forEach((listener) => listener(current));
+};
+
+export const undoStore = {
+  show: (message: string, undo: () => Promise<void>, durationMs = UNDO_WINDOW_MS): UndoAction => {
+    if (expiryTimer) clearTimeout(expiryTimer);
+    const action = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      message,
+      undo,
+      expiresAt: Date.now() + durationMs,
+    };
+    expiryTimer = setTimeout(() => undoStore.dismiss(action.id), durationMs);
+    setCurrent(action);
+    return action;
+  },
+
+  getCurrent: () => current,
+
+  undo: async (id: string) => {
+    if (!current || current.id !== id) return;
+    const action = current;
+    undoStore.dismiss(id);
+    await action.undo();
+  },
+
+  dismiss: (id: string) => {
+    if (!current || current.id !== id) return;
+    if (expiryTimer) clearTimeout(expiryTimer);
+    expiryTimer = null;
+    setCurrent(null);
+  },
+
+  subscribe: (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
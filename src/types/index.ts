@@ -1,19 +1,35 @@
 // Job Application Types
+// The single app-wide shape of an application. Whatever the backend sends is
+// mapped onto this by services/jobApplicationAdapter.ts.
+export const APPLICATION_STATUSES = ['Pending', 'Applied', 'Interviewing', 'Offer', 'Rejected', 'Withdrawn'] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export const INTERVIEW_STAGES = [
+  'None', 'Phone Screen', 'Technical Interview', 'Behavioral Interview',
+  'System Design', 'Coding Challenge', 'Onsite', 'Final Round',
+] as const;
+export type InterviewStage = typeof INTERVIEW_STAGES[number];
+
 export interface JobApplication {
   id: number;
-  user_id: string;
+  user_id?: string;
   job_title: string;
   company: string;
+  company_id?: number;
   location?: string;
   job_description?: string;
-  requirements?: string;
-  salary_range?: string;
-  job_type?: string;
-  application_date: string;
-  status: 'applied' | 'interviewing' | 'offered' | 'rejected' | 'withdrawn';
-  source?: string;
-  contact_info?: string;
+  salary?: string;
+  job_url?: string;
+  job_board?: string; // set when the posting was read from a known board, e.g. 'Workday'
+  date_applied: string;
+  date_job_posted?: string;
+  application_status: ApplicationStatus;
+  interview_stage: InterviewStage;
   notes?: string;
+  referred_by?: string;
+  referral_relationship?: string;
+  referral_date?: string;
+  referral_notes?: string;
   created_at: string;
   updated_at: string;
 }
@@ -21,14 +37,16 @@ export interface JobApplication {
 export interface JobApplicationCreate {
   job_title: string;
   company: string;
+  company_id?: number;
   location?: string;
   job_description?: string;
-  salary?: string; // Changed from salary_range
-  job_url?: string; // Changed from source
-  date_applied: string; // Changed from application_date
+  salary?: string;
+  job_url?: string;
+  job_board?: string;
+  date_applied: string;
   date_job_posted?: string;
-  application_status: 'Applied' | 'Interviewing' | 'Offer' | 'Rejected' | 'Withdrawn' | 'Pending'; // Changed from status
-  interview_stage?: 'None' | 'Phone Screen' | 'Technical Interview' | 'Behavioral Interview' | 'System Design' | 'Coding Challenge' | 'Onsite' | 'Final Round';
+  application_status: ApplicationStatus;
+  interview_stage?: InterviewStage;
   notes?: string;
   referred_by?: string;
   referral_relationship?: string;
@@ -36,6 +54,162 @@ export interface JobApplicationCreate {
   referral_notes?: string;
 }
 
+// One recorded change of an application's status or interview stage
+export type StatusChangeField = 'application_status' | 'interview_stage';
+
+export interface StatusChangeEvent {
+  id: number;
+  job_application_id: number;
+  field: StatusChangeField;
+  from_value?: string;
+  to_value: string;
+  changed_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StatusChangeEventCreate {
+  job_application_id: number;
+  field: StatusChangeField;
+  from_value?: string;
+  to_value: string;
+  changed_at: string;
+}
+
+// An interaction logged against an application: an interview, a call, an email...
+export const FOLLOW_UP_TYPES = [
+  'Interview', 'Phone Call', 'Email', 'Follow-up', 'Technical Interview',
+  'Behavioral Interview', 'System Design', 'Coding Challenge', 'Onsite',
+  'Final Round', 'Reference Check', 'Background Check', 'Offer Discussion',
+] as const;
+
+export const FOLLOW_UP_STATUSES = ['Pending', 'Completed', 'Cancelled', 'Rescheduled'] as const;
+export type FollowUpStatus = typeof FOLLOW_UP_STATUSES[number];
+
+export interface FollowUp {
+  id: number;
+  job_application_id?: number;
+  // Usually one of FOLLOW_UP_TYPES, but older records may hold anything
+  follow_up_type: string;
+  title: string;
+  description?: string;
+  date: string;
+  status: FollowUpStatus;
+  outcome?: string;
+  notes?: string;
+  created_at: string;
+}
+
+// Optional text fields are sent as null to clear them
+export interface FollowUpCreate {
+  follow_up_type: string;
+  title: string;
+  description?: string | null;
+  date: string;
+  status: FollowUpStatus;
+  outcome?: string | null;
+  notes?: string | null;
+}
+
+export type FollowUpUpdate = Partial<FollowUpCreate>;
+
+// A company applications can be grouped under. normalized_name is what
+// fuzzy matching compares, so "Google LLC" and "google" land on one record.
+export const COMPANY_SIZES = ['1-10', '11-50', '51-200', '201-1000', '1001-5000', '5000+'] as const;
+export type CompanySize = typeof COMPANY_SIZES[number];
+
+export interface Company {
+  id: number;
+  user_id?: string;
+  name: string;
+  normalized_name: string;
+  website?: string;
+  size?: CompanySize;
+  industry?: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CompanyCreate {
+  name: string;
+  normalized_name: string;
+  website?: string;
+  size?: CompanySize;
+  industry?: string;
+  notes?: string;
+}
+
+// People met during the search (referrers, recruiters, interviewers)
+export interface ContactInteraction {
+  id: string;
+  date: string;
+  notes: string;
+}
+
+export interface Contact {
+  id: number;
+  user_id?: string;
+  name: string;
+  company?: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+  linkedin_url?: string;
+  relationship?: string;
+  interactions: ContactInteraction[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContactCreate {
+  name: string;
+  company?: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+  linkedin_url?: string;
+  relationship?: string;
+  interactions?: ContactInteraction[];
+}
+
+// The part a contact played in an application
+export const CONTACT_LINK_ROLES = ['Referrer', 'Recruiter', 'Interviewer'] as const;
+export type ContactLinkRole = typeof CONTACT_LINK_ROLES[number];
+
+export interface ContactLink {
+  id: number;
+  contact_id: number;
+  job_application_id: number;
+  role: ContactLinkRole;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ContactLinkCreate {
+  contact_id: number;
+  job_application_id: number;
+  role: ContactLinkRole;
+}
+
+// Job details scraped from a posting URL
+export interface ScrapedJobData {
+  job_title?: string;
+  company?: string;
+  location?: string;
+  job_description?: string;
+  salary?: string;
+  job_board?: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface ScrapeJobResponse {
+  success: boolean;
+  data?: ScrapedJobData;
+  error?: string;
+}
+
 // Task Types
 export interface Task {
   id: number;
@@ -121,13 +295,26 @@ export type RootStackParamList = {
   AddEvent: undefined;
   EditEvent: { id: number };
   ApplicationsList: undefined;
-  AddApplication: undefined;
+  // url comes from jobtracker://add?url=... and is scraped on open
+  AddApplication: { url?: string } | undefined;
+  ResolveConflict: { conflictId: string };
+  DeveloperSettings: undefined;
+  Analytics: undefined;
+  Contacts: undefined;
+  ContactDetail: { contactId: number };
+  CompanyDetail: { companyId: number };
+  ImportApplications: undefined;
+  ExportData: undefined;
+  BackupRestore: undefined;
+  ReminderSettings: undefined;
+  StaleApplications: undefined;
 };
 
 export type MainTabParamList = {
   Dashboard: undefined;
   Applications: undefined;
-  Calendar: undefined;
+  // date (YYYY-MM-DD) comes from reminder links and selects that day
+  Calendar: { date?: string } | undefined;
   Tasks: undefined;
   Profile: undefined;
 };
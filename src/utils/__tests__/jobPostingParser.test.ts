@@ -0,0 +1,90 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { decodeEntities, parseJobPostingHtml } from '../jobPostingParser';
+
+// Saved copies of real posting layouts, trimmed to the parts the parser reads
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('parseJobPostingHtml', () => {
+  it('reads a Greenhouse posting', () => {
+    const data = parseJobPostingHtml(fixture('greenhouse.html'), 'https://boards.greenhouse.io/acme/jobs/123');
+
+    expect(data).toMatchObject({
+      success: true,
+      job_title: 'Senior Backend Engineer',
+      company: 'Acme Robotics',
+      location: 'San Francisco, CA',
+      job_board: 'Greenhouse',
+    });
+    expect(data.job_description).toContain("What you'll do");
+    expect(data.job_description).toContain('• Design APIs & services');
+    expect(data.job_description).toContain('Full health coverage');
+  });
+
+  it('reads a Lever posting', () => {
+    const data = parseJobPostingHtml(fixture('lever.html'), 'https://jobs.lever.co/northwind/abc-123');
+
+    expect(data).toMatchObject({
+      success: true,
+      job_title: 'Product Designer',
+      company: 'Northwind',
+      location: 'Remote — US',
+      job_board: 'Lever',
+    });
+    expect(data.job_description).toContain('You will shape the mobile app');
+  });
+
+  it('reads a Workday posting', () => {
+    const data = parseJobPostingHtml(
+      fixture('workday.html'),
+      'https://contoso-health.wd5.myworkdayjobs.com/en-US/External/job/Chicago/Data-Analyst-II_R123'
+    );
+
+    expect(data).toMatchObject({
+      success: true,
+      job_title: 'Data Analyst II',
+      company: 'Contoso Health',
+      location: 'Chicago, IL',
+      job_board: 'Workday',
+    });
+    expect(data.job_description).toContain('• Tableau');
+  });
+
+  it('prefers JSON-LD JobPosting data over the page tags', () => {
+    const data = parseJobPostingHtml(fixture('json-ld.html'), 'https://careers.globex.com/jobs/sre');
+
+    expect(data).toMatchObject({
+      success: true,
+      job_title: 'Site Reliability Engineer',
+      company: 'Globex Corporation',
+      location: 'Austin, TX, US (Remote)',
+      salary: '$140,000 - $175,000 / year',
+    });
+    expect(data.job_description).toBe('Keep Globex online.\n\n• On-call rotation');
+    expect(data.job_board).toBeUndefined();
+  });
+
+  it('falls back to OpenGraph tags', () => {
+    const data = parseJobPostingHtml(fixture('opengraph.html'), 'https://initech.example/jobs/42');
+
+    expect(data).toMatchObject({
+      success: true,
+      job_title: 'Marketing Manager',
+      company: 'Initech',
+    });
+    expect(data.job_description).toBe('Lead campaigns for Initech’s TPS product line. &#99999999; bonus included.');
+  });
+
+  it('reports failure when nothing is found', () => {
+    const data = parseJobPostingHtml('<html><body><p>Hello</p></body></html>');
+
+    expect(data.success).toBe(false);
+    expect(data.error).toBeDefined();
+  });
+});
+
+describe('decodeEntities', () => {
+  it('keeps numeric entities outside the Unicode range as written', () => {
+    expect(decodeEntities('&#99999999; &#x110000; &#65;')).toBe('&#99999999; &#x110000; A');
+  });
+});
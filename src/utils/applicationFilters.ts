@@ -0,0 +1,123 @@
+import { JobApplication, ApplicationStatus, InterviewStage, INTERVIEW_STAGES } from '../types';
+
+// Search, filtering and sorting for the applications list. Everything here is
+// pure so the same query can be applied to cached and freshly fetched data.
+export type SalaryFilter = 'any' | 'with' | 'without';
+
+export interface ApplicationFilters {
+  statuses: ApplicationStatus[];
+  stages: InterviewStage[];
+  appliedFrom?: string; // YYYY-MM-DD, inclusive
+  appliedTo?: string; // YYYY-MM-DD, inclusive
+  salary: SalaryFilter;
+}
+
+export type ApplicationSortField = 'date_applied' | 'company' | 'updated_at' | 'interview_stage';
+
+export interface ApplicationSort {
+  field: ApplicationSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface ApplicationQuery {
+  search: string;
+  filters: ApplicationFilters;
+  sort: ApplicationSort;
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: ApplicationFilters;
+  sort: ApplicationSort;
+}
+
+export const DEFAULT_FILTERS: ApplicationFilters = {
+  statuses: [],
+  stages: [],
+  salary: 'any',
+};
+
+export const DEFAULT_SORT: ApplicationSort = { field: 'date_applied', direction: 'desc' };
+
+export const SORT_OPTIONS: { field: ApplicationSortField; label: string }[] = [
+  { field: 'date_applied', label: 'Date Applied' },
+  { field: 'company', label: 'Company' },
+  { field: 'updated_at', label: 'Last Updated' },
+  { field: 'interview_stage', label: 'Interview Stage' },
+];
+
+const SEARCH_FIELDS: (keyof JobApplication)[] = ['company', 'job_title', 'location', 'notes', 'referred_by'];
+
+// Every word in the query has to appear in at least one searchable field
+export const matchesSearch = (application: JobApplication, search: string) => {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = SEARCH_FIELDS.map((field) => String(application[field] ?? '').toLowerCase()).join('\n');
+  return terms.every((term) => haystack.includes(term));
+};
+
+export const matchesFilters = (application: JobApplication, filters: ApplicationFilters) => {
+  if (filters.statuses.length > 0 && !filters.statuses.includes(application.application_status)) return false;
+  if (filters.stages.length > 0 && !filters.stages.includes(application.interview_stage)) return false;
+
+  const applied = (application.date_applied || '').split('T')[0];
+  if (filters.appliedFrom && applied < filters.appliedFrom) return false;
+  if (filters.appliedTo && applied > filters.appliedTo) return false;
+
+  const hasSalary = !!application.salary?.trim();
+  if (filters.salary === 'with' && !hasSalary) return false;
+  if (filters.salary === 'without' && hasSalary) return false;
+
+  return true;
+};
+
+const compareBy = (field: ApplicationSortField, a: JobApplication, b: JobApplication) => {
+  switch (field) {
+    case 'company':
+      return a.company.localeCompare(b.company, undefined, { sensitivity: 'base' });
+    case 'interview_stage':
+      return INTERVIEW_STAGES.indexOf(a.interview_stage) - INTERVIEW_STAGES.indexOf(b.interview_stage);
+    case 'updated_at':
+      return new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime();
+    case 'date_applied':
+    default:
+      return new Date(a.date_applied).getTime() - new Date(b.date_applied).getTime();
+  }
+};
+
+export const sortApplications = (applications: JobApplication[], sort: ApplicationSort) => {
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  // Ties fall back to most recently applied so the order is stable between refreshes
+  return [...applications].sort(
+    (a, b) => direction * compareBy(sort.field, a, b) || compareBy('date_applied', b, a) || b.id - a.id
+  );
+};
+
+export const applyApplicationQuery = (applications: JobApplication[], query: ApplicationQuery) =>
+  sortApplications(
+    applications.filter(
+      (application) => matchesSearch(application, query.search) && matchesFilters(application, query.filters)
+    ),
+    query.sort
+  );
+
+export const countActiveFilters = (filters: ApplicationFilters) =>
+  (filters.statuses.length > 0 ? 1 : 0) +
+  (filters.stages.length > 0 ? 1 : 0) +
+  (filters.appliedFrom || filters.appliedTo ? 1 : 0) +
+  (filters.salary !== 'any' ? 1 : 0);
+
+export const isSameFilterSet = (a: Pick<FilterPreset, 'filters' | 'sort'>, b: Pick<FilterPreset, 'filters' | 'sort'>) => {
+  const normalize = ({ filters, sort }: Pick<FilterPreset, 'filters' | 'sort'>) =>
+    JSON.stringify({
+      statuses: [...filters.statuses].sort(),
+      stages: [...filters.stages].sort(),
+      appliedFrom: filters.appliedFrom || '',
+      appliedTo: filters.appliedTo || '',
+      salary: filters.salary,
+      sort,
+    });
+  return normalize(a) === normalize(b);
+};
@@ -0,0 +1,157 @@
+import { APPLICATION_STATUSES, ApplicationStatus, JobApplicationCreate } from '../types';
+
+// Turns spreadsheet rows into JobApplicationCreate payloads. The user maps each
+// field to a CSV column; every row is then validated on its own so one bad
+// line doesn't block the rest of the import.
+export const IMPORT_FIELDS = [
+  { key: 'job_title', label: 'Job Title', required: true },
+  { key: 'company', label: 'Company', required: true },
+  { key: 'date_applied', label: 'Date Applied', required: true },
+  { key: 'application_status', label: 'Status', required: false },
+  { key: 'salary', label: 'Salary', required: false },
+  { key: 'job_url', label: 'Job URL', required: false },
+  { key: 'notes', label: 'Notes', required: false },
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number]['key'];
+
+// Field -> index of the CSV column it is read from
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+  // Row in the file as a spreadsheet shows it, counting the header as row 1
+  rowNumber: number;
+  data?: JobApplicationCreate;
+  errors: string[];
+}
+
+// Header names commonly used for each field, compared without case or punctuation
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  job_title: ['jobtitle', 'title', 'position', 'role', 'job'],
+  company: ['company', 'companyname', 'employer', 'organization', 'organisation'],
+  date_applied: ['dateapplied', 'applieddate', 'applied', 'applicationdate', 'date', 'appliedon'],
+  application_status: ['applicationstatus', 'status', 'stage', 'outcome'],
+  salary: ['salary', 'salaryrange', 'compensation', 'pay'],
+  job_url: ['joburl', 'url', 'link', 'joblink', 'posting', 'postingurl'],
+  notes: ['notes', 'note', 'comments', 'comment'],
+};
+
+const STATUS_ALIASES: Record<string, ApplicationStatus> = {
+  submitted: 'Applied',
+  sent: 'Applied',
+  saved: 'Pending',
+  wishlist: 'Pending',
+  'not applied': 'Pending',
+  interview: 'Interviewing',
+  interviewed: 'Interviewing',
+  'phone screen': 'Interviewing',
+  onsite: 'Interviewing',
+  offered: 'Offer',
+  'offer received': 'Offer',
+  accepted: 'Offer',
+  declined: 'Rejected',
+  rejection: 'Rejected',
+  'not selected': 'Rejected',
+  ghosted: 'Rejected',
+  withdrew: 'Withdrawn',
+};
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const keys = headers.map(headerKey);
+
+  for (const { key } of IMPORT_FIELDS) {
+    const index = HEADER_ALIASES[key].map((alias) => keys.indexOf(alias)).find((candidate) => candidate >= 0);
+    if (index !== undefined && !Object.values(mapping).includes(index)) {
+      mapping[key] = index;
+    }
+  }
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping) =>
+  IMPORT_FIELDS.filter((field) => field.required && mapping[field.key] === undefined);
+
+const toIso = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects rollovers like 02/31
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date.toISOString() : null;
+};
+
+// Accepts ISO dates, US (M/D/YYYY) and European (D.M.YYYY) forms, Excel serial
+// numbers and anything else Date can parse. Returns null when it can't tell.
+export const normalizeImportDate = (value: string): string | null => {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  if (iso) return toIso(+iso[1], +iso[2], +iso[3]);
+
+  const slashed = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (slashed) {
+    const year = slashed[3].length === 2 ? 2000 + +slashed[3] : +slashed[3];
+    // Month first unless that can't be right
+    return +slashed[1] > 12 ? toIso(year, +slashed[2], +slashed[1]) : toIso(year, +slashed[1], +slashed[2]);
+  }
+
+  const dotted = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (dotted) return toIso(+dotted[3], +dotted[2], +dotted[1]);
+
+  // Excel stores dates as days since 1899-12-30
+  if (/^\d{5}$/.test(text)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Number(text) * 86400000);
+    return date.toISOString();
+  }
+
+  // Free-form text like "March 3, 2024" parses as local midnight; keep that calendar day
+  // rather than converting to UTC, which lands on the day before east of UTC
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime())
+    ? null
+    : toIso(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+};
+
+// Blank statuses count as Applied since the sheet records past applications
+export const normalizeImportStatus = (value: string): ApplicationStatus | null => {
+  const text = value.trim().toLowerCase();
+  if (!text) return 'Applied';
+  return APPLICATION_STATUSES.find((status) => status.toLowerCase() === text) ?? STATUS_ALIASES[text] ?? null;
+};
+
+export const buildImportRows = (rows: string[][], mapping: ColumnMapping): ImportRow[] =>
+  rows.map((cells, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const jobTitle = cell('job_title');
+    const company = cell('company');
+    if (!jobTitle) errors.push('Job title is missing');
+    if (!company) errors.push('Company is missing');
+
+    const rawDate = cell('date_applied');
+    const dateApplied = rawDate ? normalizeImportDate(rawDate) : null;
+    if (!rawDate) errors.push('Date applied is missing');
+    else if (!dateApplied) errors.push(`Unrecognized date "${rawDate}"`);
+
+    const rawStatus = cell('application_status');
+    const status = normalizeImportStatus(rawStatus);
+    if (!status) errors.push(`Unknown status "${rawStatus}"`);
+
+    const row: ImportRow = { rowNumber: index + 2, errors };
+    if (errors.length === 0) {
+      row.data = {
+        job_title: jobTitle,
+        company,
+        date_applied: dateApplied!,
+        application_status: status!,
+        salary: cell('salary') || undefined,
+        job_url: cell('job_url') || undefined,
+        notes: cell('notes') || undefined,
+      };
+    }
+    return row;
+  });
@@ -0,0 +1,106 @@
+import { JobApplication } from '../types';
+import { ApplicationProgress, OFFER_LEVEL } from './pipelineAnalytics';
+
+// Where an application came from, worked out from its referral, job board and job URL.
+export const APPLICATION_SOURCES = [
+  'Referral',
+  'LinkedIn',
+  'Indeed',
+  'Greenhouse',
+  'Lever',
+  'Workday',
+  'Other Job Board',
+  'Company Site',
+  'Unknown',
+] as const;
+export type ApplicationSource = typeof APPLICATION_SOURCES[number];
+
+export interface SourceReportRow {
+  source: ApplicationSource;
+  applications: number;
+  responses: number;
+  interviews: number;
+  offers: number;
+  // Rates are shares of applications (0-1)
+  responseRate: number;
+  interviewRate: number;
+  offerRate: number;
+}
+
+// Checked in order against the URL's host; first match wins
+const HOST_SOURCES: { pattern: RegExp; source: ApplicationSource }[] = [
+  { pattern: /(^|\.)linkedin\.com$/, source: 'LinkedIn' },
+  { pattern: /(^|\.)indeed\.[a-z.]+$/, source: 'Indeed' },
+  { pattern: /(^|\.)greenhouse\.io$/, source: 'Greenhouse' },
+  { pattern: /(^|\.)lever\.co$/, source: 'Lever' },
+  { pattern: /(^|\.)myworkdayjobs\.com$/, source: 'Workday' },
+  {
+    pattern: /(^|\.)(glassdoor\.[a-z.]+|ziprecruiter\.com|monster\.com|wellfound\.com|angel\.co|dice\.com|simplyhired\.com|builtin\.com|workatastartup\.com)$/,
+    source: 'Other Job Board',
+  },
+];
+
+// React Native's URL polyfill doesn't implement hostname, so pull it out by hand
+export const getHost = (url: string) => {
+  const match = url.trim().match(/^(?:[a-z][a-z0-9+.-]*:\/\/)?(?:[^@/?#]*@)?([^/?#:]+)/i);
+  return match ? match[1].toLowerCase().replace(/^www\./, '') : null;
+};
+
+// First http(s) link in free text, e.g. "Check out this role: https://…" shared from another app
+export const findUrl = (text: string) => text.match(/https?:\/\/[^\s<>"']+/i)?.[0];
+
+export const classifyApplicationSource = (
+  application: Pick<JobApplication, 'job_url' | 'referred_by' | 'job_board'>
+): ApplicationSource => {
+  if (application.referred_by?.trim()) return 'Referral';
+
+  // The board the posting was scraped from beats guessing from the host (Workday tenants use custom domains)
+  const board = application.job_board?.trim().toLowerCase();
+  const scraped = board && APPLICATION_SOURCES.find((source) => source.toLowerCase() === board);
+  if (scraped) return scraped;
+
+  if (!application.job_url?.trim()) return 'Unknown';
+
+  const host = getHost(application.job_url);
+  if (!host) return 'Unknown';
+
+  // Company career pages often embed a Greenhouse board (…?gh_jid=123)
+  if (/[?&]gh_jid=/.test(application.job_url)) return 'Greenhouse';
+
+  return HOST_SOURCES.find(({ pattern }) => pattern.test(host))?.source ?? 'Company Site';
+};
+
+// Response = heard anything back (an interview step, an offer or a rejection)
+export const buildSourceReport = (progress: ApplicationProgress[]): SourceReportRow[] => {
+  const rows = new Map<ApplicationSource, SourceReportRow>();
+
+  for (const entry of progress) {
+    const source = classifyApplicationSource(entry.application);
+    const row = rows.get(source) ?? {
+      source,
+      applications: 0,
+      responses: 0,
+      interviews: 0,
+      offers: 0,
+      responseRate: 0,
+      interviewRate: 0,
+      offerRate: 0,
+    };
+
+    row.applications += 1;
+    if (entry.level >= 1 || entry.application.application_status === 'Rejected') row.responses += 1;
+    if (entry.level >= 1) row.interviews += 1;
+    if (entry.level >= OFFER_LEVEL) row.offers += 1;
+    rows.set(source, row);
+  }
+
+  return APPLICATION_SOURCES.filter((source) => rows.has(source)).map((source) => {
+    const row = rows.get(source)!;
+    return {
+      ...row,
+      responseRate: row.responses / row.applications,
+      interviewRate: row.interviews / row.applications,
+      offerRate: row.offers / row.applications,
+    };
+  });
+};
@@ -0,0 +1,22 @@
+import { ApplicationStatus } from '../types';
+
+// Colour and icon for each application status, shared by the list and board views
+export const getStatusColor = (status: ApplicationStatus) => {
+  switch (status) {
+    case 'Applied': return '#007AFF';
+    case 'Interviewing': return '#FF9500';
+    case 'Offer': return '#4CAF50';
+    case 'Rejected': return '#FF3B30';
+    default: return '#8E8E93';
+  }
+};
+
+export const getStatusIcon = (status: ApplicationStatus) => {
+  switch (status) {
+    case 'Applied': return 'paper-plane';
+    case 'Interviewing': return 'people';
+    case 'Offer': return 'checkmark-circle';
+    case 'Rejected': return 'close-circle';
+    default: return 'document';
+  }
+};
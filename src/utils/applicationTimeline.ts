@@ -0,0 +1,92 @@
+import { FollowUp, JobApplication, StatusChangeEvent } from '../types';
+
+// Builds the detail screen's timeline: when the application was submitted,
+// every recorded status/stage change, and the follow-ups, oldest first.
+export type TimelineEntryKind = 'applied' | 'status' | 'stage' | 'follow_up';
+
+export interface TimelineEntry {
+  key: string;
+  kind: TimelineEntryKind;
+  date: string;
+  title: string;
+  detail?: string;
+  // Status or stage the application moved into at this point
+  value?: string;
+  // Whole days since the previous status or stage change (or since applying)
+  daysSincePrevious?: number;
+  followUp?: FollowUp;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS));
+
+export const formatDuration = (days: number) => {
+  if (days === 0) return 'same day';
+  if (days === 1) return 'after 1 day';
+  return `after ${days} days`;
+};
+
+export const buildTimeline = (
+  application: JobApplication,
+  history: StatusChangeEvent[],
+  followUps: FollowUp[] = []
+): TimelineEntry[] => {
+  const changes = [...history].sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime());
+
+  // Before any recorded change the application was in the first change's "from" status
+  const firstStatusChange = changes.find((change) => change.field === 'application_status');
+  const initialStatus = firstStatusChange?.from_value || application.application_status;
+
+  const milestones: TimelineEntry[] = [
+    {
+      key: 'applied',
+      kind: 'applied',
+      date: application.date_applied,
+      title: 'Application submitted',
+      detail: `Status: ${initialStatus}`,
+      value: initialStatus,
+    },
+  ];
+
+  let previousDate = application.date_applied;
+  for (const change of changes) {
+    const isStatus = change.field === 'application_status';
+    milestones.push({
+      key: `change-${change.id}`,
+      kind: isStatus ? 'status' : 'stage',
+      date: change.changed_at,
+      title: change.from_value ? `${change.from_value} → ${change.to_value}` : change.to_value,
+      detail: isStatus ? 'Status changed' : 'Interview stage changed',
+      value: change.to_value,
+      daysSincePrevious: daysBetween(previousDate, change.changed_at),
+    });
+    previousDate = change.changed_at;
+  }
+
+  const followUpEntries: TimelineEntry[] = followUps.map((followUp) => ({
+    key: `follow-up-${followUp.id}`,
+    kind: 'follow_up',
+    date: followUp.date,
+    title: followUp.title,
+    detail: followUp.follow_up_type,
+    followUp,
+  }));
+
+  return [...milestones, ...followUpEntries].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+};
+
+// One-line journey, e.g. "Applied → Phone Screen after 9 days → Rejected after 3 days"
+export const summarizeJourney = (entries: TimelineEntry[]) => {
+  const steps = entries.filter((entry) => entry.kind !== 'follow_up');
+  if (steps.length <= 1) return null;
+
+  return steps
+    .map((entry) =>
+      entry.kind === 'applied' ? entry.value : `${entry.value} ${formatDuration(entry.daysSincePrevious ?? 0)}`
+    )
+    .join(' → ');
+};
@@ -0,0 +1,168 @@
+import { jobApplicationWithFollowUpsSchema, taskSchema, calendarEventSchema } from '../services/apiSchemas';
+import { array, number, object, string, validateResponse } from '../services/schema';
+import { CalendarEvent, FollowUp, JobApplication, Task } from '../types';
+import { normalizeCompanyName } from './companyMatching';
+import { ExportData } from './dataExport';
+import { normalizeJobUrl } from './duplicateDetection';
+
+// A backup is every application (with its follow-ups), task and event in one
+// versioned JSON file. Restoring plans each record against what the account
+// already has, then recreates them with fresh server ids, rewriting the links
+// between records (task -> application, event -> follow-up, ...) on the way.
+export const BACKUP_FORMAT = 'jobtracker-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupArchive extends ExportData {
+  format: string;
+  version: number;
+  created_at: string;
+}
+
+const backupArchiveSchema = object({
+  format: string(),
+  version: number(),
+  created_at: string(),
+  applications: array(jobApplicationWithFollowUpsSchema),
+  tasks: array(taskSchema),
+  events: array(calendarEventSchema),
+});
+
+export const buildBackupArchive = (data: ExportData, createdAt = new Date()): BackupArchive => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_FORMAT_VERSION,
+  created_at: createdAt.toISOString(),
+  ...data,
+});
+
+// Throws with a readable message when the text isn't a backup this version can restore
+export const parseBackupArchive = (text: string): BackupArchive => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (json?.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a Job Tracker backup');
+  }
+  if (typeof json.version !== 'number' || json.version > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+  return validateResponse('backup file', backupArchiveSchema, json);
+};
+
+// What happens to a backed-up record that matches one already in the account
+export type RestoreMode = 'skip' | 'overwrite';
+export type RestoreAction = 'create' | 'skip' | 'overwrite';
+
+export interface RestoreStep<T> {
+  record: T;
+  action: RestoreAction;
+  // Matching record in the account, for skip and overwrite
+  existingId?: number;
+}
+
+export interface FollowUpRestoreStep extends RestoreStep<FollowUp> {
+  // The application's id in the backup
+  applicationId: number;
+}
+
+export interface RestorePlan {
+  applications: RestoreStep<JobApplication>[];
+  followUps: FollowUpRestoreStep[];
+  tasks: RestoreStep<Task>[];
+  events: RestoreStep<CalendarEvent>[];
+}
+
+export type RestoreEntity = keyof RestorePlan;
+
+export const RESTORE_ENTITY_LABELS: Record<RestoreEntity, string> = {
+  applications: 'Applications',
+  followUps: 'Follow-ups',
+  tasks: 'Tasks',
+  events: 'Calendar Events',
+};
+
+export interface ExistingAccountData {
+  applications: JobApplication[];
+  followUps: FollowUp[];
+  tasks: Task[];
+  events: CalendarEvent[];
+}
+
+// Records are recognized by content, not id: ids differ between accounts and
+// change every time something is restored
+const applicationKeys = (application: JobApplication) =>
+  [
+    normalizeJobUrl(application.job_url),
+    [
+      normalizeCompanyName(application.company),
+      application.job_title.trim().toLowerCase(),
+      application.date_applied.slice(0, 10),
+    ].join('|'),
+  ].filter(Boolean);
+
+const followUpKey = (followUp: FollowUp) => `${followUp.title.trim().toLowerCase()}|${followUp.date.slice(0, 10)}`;
+const taskKey = (task: Task) => `${task.title.trim().toLowerCase()}|${task.task_type}|${task.due_date ?? ''}`;
+const eventKey = (event: CalendarEvent) => `${event.title.trim().toLowerCase()}|${event.start_datetime}`;
+
+const indexBy = <T extends { id: number }>(records: T[], keys: (record: T) => string[]) => {
+  const index = new Map<string, number>();
+  for (const record of records) {
+    for (const key of keys(record)) {
+      if (!index.has(key)) index.set(key, record.id);
+    }
+  }
+  return index;
+};
+
+const step = <T>(record: T, existingId: number | undefined, mode: RestoreMode): RestoreStep<T> =>
+  existingId === undefined ? { record, action: 'create' } : { record, action: mode, existingId };
+
+export const planRestore = (archive: BackupArchive, existing: ExistingAccountData, mode: RestoreMode): RestorePlan => {
+  const applicationIndex = indexBy(existing.applications, applicationKeys);
+  const taskIndex = indexBy(existing.tasks, (task) => [taskKey(task)]);
+  const eventIndex = indexBy(existing.events, (event) => [eventKey(event)]);
+
+  const applications = archive.applications.map(({ follow_ups, ...application }) =>
+    step<JobApplication>(
+      application,
+      applicationKeys(application).map((key) => applicationIndex.get(key)).find((id) => id !== undefined),
+      mode
+    )
+  );
+
+  // Follow-ups can only already exist under an application that does
+  const followUps = archive.applications.flatMap((application, index): FollowUpRestoreStep[] => {
+    const existingApplicationId = applications[index].existingId;
+    const siblings = existing.followUps.filter((followUp) => followUp.job_application_id === existingApplicationId);
+    const siblingIndex = indexBy(siblings, (followUp) => [followUpKey(followUp)]);
+    return application.follow_ups.map((followUp) => ({
+      ...step(followUp, existingApplicationId === undefined ? undefined : siblingIndex.get(followUpKey(followUp)), mode),
+      applicationId: application.id,
+    }));
+  });
+
+  return {
+    applications,
+    followUps,
+    tasks: archive.tasks.map((task) => step(task, taskIndex.get(taskKey(task)), mode)),
+    events: archive.events.map((event) => step(event, eventIndex.get(eventKey(event)), mode)),
+  };
+};
+
+export type RestoreSummary = Record<RestoreEntity, Record<RestoreAction, number>>;
+
+export const summarizeRestorePlan = (plan: RestorePlan): RestoreSummary => {
+  const count = (steps: RestoreStep<unknown>[]) => ({
+    create: steps.filter((entry) => entry.action === 'create').length,
+    skip: steps.filter((entry) => entry.action === 'skip').length,
+    overwrite: steps.filter((entry) => entry.action === 'overwrite').length,
+  });
+  return {
+    applications: count(plan.applications),
+    followUps: count(plan.followUps),
+    tasks: count(plan.tasks),
+    events: count(plan.events),
+  };
+};
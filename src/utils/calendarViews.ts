@@ -0,0 +1,172 @@
+import { CalendarEvent, Task } from '../types';
+
+// Date maths and layout for the calendar's day, week and agenda views. Days
+// are local calendar days keyed as YYYY-MM-DD; weeks start on Sunday to match
+// the month grid.
+export const CALENDAR_VIEWS = ['Month', 'Week', 'Day', 'Agenda'] as const;
+export type CalendarView = typeof CALENDAR_VIEWS[number];
+
+const DAY_MINUTES = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+// Short events still get a tappable block
+export const MIN_EVENT_MINUTES = 30;
+
+export const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const fromDayKey = (day: string) => {
+  const [year, month, date] = day.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+export const weekDays = (date: Date) => {
+  const start = startOfWeek(date);
+  return Array.from({ length: 7 }, (_, index) => addDays(start, index));
+};
+
+// Timed events are matched on the local day(s) they cover; all-day events on their date as stored
+const eventOverlapsDay = (event: CalendarEvent, day: Date) => {
+  if (event.is_all_day) {
+    const first = event.start_datetime.slice(0, 10);
+    const last = (event.end_datetime || event.start_datetime).slice(0, 10);
+    const key = toDayKey(day);
+    return key >= first && key <= last;
+  }
+  const start = new Date(event.start_datetime).getTime();
+  const end = event.end_datetime ? new Date(event.end_datetime).getTime() : start;
+  const dayStart = day.getTime();
+  const dayEnd = addDays(day, 1).getTime();
+  return start < dayEnd && Math.max(end, start + MINUTE_MS) > dayStart;
+};
+
+export const eventsOnDay = (events: CalendarEvent[], day: Date) =>
+  events.filter((event) => eventOverlapsDay(event, day));
+
+export const tasksOnDay = (tasks: Task[], day: Date) =>
+  tasks.filter((task) => task.due_date?.slice(0, 10) === toDayKey(day));
+
+export interface PositionedEvent {
+  event: CalendarEvent;
+  // Minutes from midnight, clipped to the day
+  startMinute: number;
+  endMinute: number;
+  // Overlapping events share the width side by side
+  column: number;
+  columns: number;
+}
+
+export interface DayLayout {
+  allDay: CalendarEvent[];
+  timed: PositionedEvent[];
+}
+
+export const layoutDay = (events: CalendarEvent[], day: Date): DayLayout => {
+  const dayEvents = eventsOnDay(events, day);
+  const dayStart = day.getTime();
+
+  const timed = dayEvents
+    .filter((event) => !event.is_all_day)
+    .map((event) => {
+      const start = new Date(event.start_datetime).getTime();
+      const end = event.end_datetime ? new Date(event.end_datetime).getTime() : start;
+      const startMinute = Math.max(0, Math.floor((start - dayStart) / MINUTE_MS));
+      const endMinute = Math.min(
+        DAY_MINUTES,
+        Math.max(Math.ceil((end - dayStart) / MINUTE_MS), startMinute + MIN_EVENT_MINUTES)
+      );
+      return { event, startMinute, endMinute, column: 0, columns: 1 };
+    })
+    .sort((a, b) => a.startMinute - b.startMinute || b.endMinute - a.endMinute);
+
+  // Greedy columns within each cluster of mutually overlapping events
+  let cluster: PositionedEvent[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+  const closeCluster = () => {
+    for (const positioned of cluster) positioned.columns = columnEnds.length;
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const positioned of timed) {
+    if (positioned.startMinute >= clusterEnd) closeCluster();
+    let column = columnEnds.findIndex((end) => end <= positioned.startMinute);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(positioned.endMinute);
+    } else {
+      columnEnds[column] = positioned.endMinute;
+    }
+    positioned.column = column;
+    cluster.push(positioned);
+    clusterEnd = Math.max(clusterEnd, positioned.endMinute);
+  }
+  closeCluster();
+
+  return { allDay: dayEvents.filter((event) => event.is_all_day), timed };
+};
+
+export const getEventColor = (eventType: string) => {
+  switch (eventType?.toLowerCase()) {
+    case 'interview': return '#FF9500';
+    case 'application': return '#007AFF';
+    case 'follow_up': return '#4CAF50';
+    case 'deadline': return '#FF3B30';
+    default: return '#8E8E93';
+  }
+};
+
+export const getTaskColor = (priority: string) => {
+  switch (priority?.toLowerCase()) {
+    case 'high': return '#FF3B30';
+    case 'medium': return '#FF9500';
+    case 'low': return '#4CAF50';
+    default: return '#8E8E93';
+  }
+};
+
+export type AgendaItem =
+  | { kind: 'event'; key: string; time: number; event: CalendarEvent }
+  | { kind: 'task'; key: string; time: number; task: Task };
+
+export interface AgendaSection {
+  day: string;
+  items: AgendaItem[];
+}
+
+// Upcoming events and open tasks from the given day on, grouped by day
+export const buildAgenda = (events: CalendarEvent[], tasks: Task[], from: Date, days = 60): AgendaSection[] => {
+  const first = toDayKey(from);
+  const last = toDayKey(addDays(from, days));
+  const sections = new Map<string, AgendaItem[]>();
+  const add = (day: string, item: AgendaItem) => {
+    if (day < first || day > last) return;
+    sections.set(day, [...(sections.get(day) ?? []), item]);
+  };
+
+  for (const event of events) {
+    if (event.status === 'cancelled') continue;
+    const start = new Date(event.start_datetime);
+    const day = event.is_all_day ? event.start_datetime.slice(0, 10) : toDayKey(start);
+    // All-day events sort first in their day
+    add(day, { kind: 'event', key: `event-${event.id}`, time: event.is_all_day ? 0 : start.getTime(), event });
+  }
+  for (const task of tasks) {
+    if (!task.due_date || task.status === 'completed' || task.status === 'cancelled') continue;
+    const day = task.due_date.slice(0, 10);
+    const [hours, minutes] = (task.due_time ?? '23:59').split(':').map(Number);
+    const due = fromDayKey(day);
+    due.setHours(hours || 0, minutes || 0);
+    add(day, { kind: 'task', key: `task-${task.id}`, time: due.getTime(), task });
+  }
+
+  return [...sections.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, items]) => ({ day, items: items.sort((a, b) => a.time - b.time) }));
+};
@@ -0,0 +1,82 @@
+import { Company, JobApplication } from '../types';
+
+// Fuzzy matching of typed company names against the companies already on
+// file, so "Google LLC", "google" and "Gogle" all point at the same record.
+export interface CompanyMatch {
+  company: Company;
+  // 0-1, where 1 means the normalized names are identical
+  score: number;
+}
+
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'corp', 'corporation',
+  'co', 'company', 'gmbh', 'plc', 'ag', 'sa', 'bv', 'pty', 'group', 'holdings',
+]);
+
+const MATCH_THRESHOLD = 0.75;
+
+// One letter is too big a share of a name this short ("Meta" vs "Beta"), so these only match exactly
+const SHORT_NAME_LENGTH = 5;
+
+export const normalizeCompanyName = (name: string) => {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  // Keep the first word even when it looks like a suffix ("Company.com")
+  const meaningful = words.filter((word, index) => index === 0 || !LEGAL_SUFFIXES.has(word));
+  if (meaningful[0] === 'the' && meaningful.length > 1) meaningful.shift();
+  return meaningful.join(' ');
+};
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const companyNameSimilarity = (a: string, b: string) => {
+  const left = normalizeCompanyName(a);
+  const right = normalizeCompanyName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  // "Google" vs "Google Cloud": one name is a whole-word prefix of the other
+  const [shorter, longer] = left.length <= right.length ? [left, right] : [right, left];
+  if (longer.startsWith(`${shorter} `)) return 0.85;
+  if (longer.length <= SHORT_NAME_LENGTH) return 0;
+
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+};
+
+export const findCompanyMatches = (name: string, companies: Company[], limit = 3): CompanyMatch[] =>
+  companies
+    .map((company) => ({ company, score: companyNameSimilarity(name, company.name) }))
+    .filter((match) => match.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+export const findExactCompany = (name: string, companies: Company[]) => {
+  const normalized = normalizeCompanyName(name);
+  return normalized ? companies.find((company) => normalizeCompanyName(company.name) === normalized) : undefined;
+};
+
+// Applications saved before companies existed have no company_id, so fall back to the name
+export const belongsToCompany = (application: JobApplication, company: Company) =>
+  application.company_id !== undefined
+    ? application.company_id === company.id
+    : normalizeCompanyName(application.company) === normalizeCompanyName(company.name);
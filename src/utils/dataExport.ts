@@ -0,0 +1,125 @@
+import { CalendarEvent, FollowUp, JobApplication, Task } from '../types';
+import { toCsv } from './csv';
+
+// Serializes the user's data for export: one CSV per entity, or a single
+// versioned JSON document that a later restore can read back.
+export const EXPORT_FORMAT_VERSION = 1;
+
+export const EXPORT_ENTITIES = ['applications', 'tasks', 'events'] as const;
+export type ExportEntity = typeof EXPORT_ENTITIES[number];
+
+export const EXPORT_ENTITY_LABELS: Record<ExportEntity, string> = {
+  applications: 'Applications',
+  tasks: 'Tasks',
+  events: 'Calendar Events',
+};
+
+export type ApplicationWithFollowUps = JobApplication & { follow_ups: FollowUp[] };
+
+export interface ExportData {
+  applications: ApplicationWithFollowUps[];
+  tasks: Task[];
+  events: CalendarEvent[];
+}
+
+// Inclusive, either end may be open
+export interface ExportDateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export interface ExportDocument extends Partial<ExportData> {
+  version: number;
+  exported_at: string;
+  range: { from?: string; to?: string };
+}
+
+export interface ExportFile {
+  name: string;
+  mimeType: string;
+  contents: string;
+}
+
+const APPLICATION_COLUMNS: (keyof JobApplication & string)[] = [
+  'id', 'job_title', 'company', 'location', 'salary', 'job_url', 'date_applied', 'date_job_posted',
+  'application_status', 'interview_stage', 'referred_by', 'referral_relationship', 'referral_date',
+  'referral_notes', 'notes', 'job_description', 'created_at', 'updated_at',
+];
+
+const FOLLOW_UP_COLUMNS: (keyof FollowUp & string)[] = [
+  'id', 'job_application_id', 'follow_up_type', 'title', 'description', 'date', 'status', 'outcome', 'notes', 'created_at',
+];
+
+const TASK_COLUMNS: (keyof Task & string)[] = [
+  'id', 'title', 'description', 'task_type', 'priority', 'status', 'due_date', 'due_time', 'estimated_duration',
+  'actual_duration', 'target_count', 'completed_count', 'job_application_id', 'calendar_event_id', 'created_at',
+  'updated_at', 'completed_at',
+];
+
+const EVENT_COLUMNS: (keyof CalendarEvent & string)[] = [
+  'id', 'title', 'description', 'event_type', 'start_datetime', 'end_datetime', 'location', 'is_all_day',
+  'reminder_minutes', 'status', 'job_application_id', 'follow_up_id', 'created_at', 'updated_at',
+];
+
+// The date each entity is filtered on; tasks without a due date fall back to when they were made
+const ENTITY_DATES = {
+  applications: (application: JobApplication) => application.date_applied,
+  tasks: (task: Task) => task.due_date || task.created_at,
+  events: (event: CalendarEvent) => event.start_datetime,
+};
+
+export const isInRange = (value: string | undefined, range: ExportDateRange) => {
+  if (!range.from && !range.to) return true;
+  const time = value ? new Date(value).getTime() : NaN;
+  if (Number.isNaN(time)) return false;
+  return (!range.from || time >= range.from.getTime()) && (!range.to || time <= range.to.getTime());
+};
+
+export const filterExportData = (data: ExportData, range: ExportDateRange): ExportData => ({
+  applications: data.applications.filter((application) => isInRange(ENTITY_DATES.applications(application), range)),
+  tasks: data.tasks.filter((task) => isInRange(ENTITY_DATES.tasks(task), range)),
+  events: data.events.filter((event) => isInRange(ENTITY_DATES.events(event), range)),
+});
+
+const dateStamp = (date: Date) => date.toISOString().slice(0, 10);
+
+export const buildCsvFiles = (data: ExportData, entities: ExportEntity[], exportedAt = new Date()): ExportFile[] => {
+  const stamp = dateStamp(exportedAt);
+  const file = (name: string, contents: string): ExportFile => ({
+    name: `jobtracker-${name}-${stamp}.csv`,
+    mimeType: 'text/csv',
+    contents,
+  });
+  const files: ExportFile[] = [];
+
+  if (entities.includes('applications')) {
+    files.push(file('applications', toCsv(data.applications, APPLICATION_COLUMNS)));
+    // Follow-ups are nested under applications, which CSV can't express, so they get their own sheet
+    const followUps = data.applications.flatMap((application) =>
+      application.follow_ups.map((followUp) => ({ ...followUp, job_application_id: application.id }))
+    );
+    files.push(file('follow-ups', toCsv(followUps, FOLLOW_UP_COLUMNS)));
+  }
+  if (entities.includes('tasks')) files.push(file('tasks', toCsv(data.tasks, TASK_COLUMNS)));
+  if (entities.includes('events')) files.push(file('events', toCsv(data.events, EVENT_COLUMNS)));
+
+  return files;
+};
+
+export const buildJsonDocument = (
+  data: ExportData,
+  entities: ExportEntity[],
+  range: ExportDateRange,
+  exportedAt = new Date()
+): ExportDocument => ({
+  version: EXPORT_FORMAT_VERSION,
+  exported_at: exportedAt.toISOString(),
+  range: { from: range.from?.toISOString(), to: range.to?.toISOString() },
+  ...Object.fromEntries(entities.map((entity) => [entity, data[entity]])),
+});
+
+export const buildJsonFile = (document: ExportDocument): ExportFile => ({
+  name: `jobtracker-export-${dateStamp(new Date(document.exported_at))}.json`,
+  mimeType: 'application/json',
+  contents: JSON.stringify(document, null, 2),
+});
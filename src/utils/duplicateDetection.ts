@@ -0,0 +1,134 @@
+import { JobApplication, JobApplicationCreate } from '../types';
+import { companyNameSimilarity } from './companyMatching';
+
+// Catches the same posting being added twice: either the exact job URL again,
+// or the same title at the same company typed slightly differently.
+export type DuplicateReason = 'url' | 'similar';
+
+export interface DuplicateMatch {
+  application: JobApplication;
+  reason: DuplicateReason;
+}
+
+type DuplicateCandidate = Pick<JobApplicationCreate, 'company' | 'job_title' | 'job_url' | 'company_id'>;
+
+const COMPANY_THRESHOLD = 0.85;
+const TITLE_THRESHOLD = 0.8;
+
+// Query params that only track where the click came from
+const TRACKING_PARAMS = /^(utm_.*|ref|refid|src|source|trk|trackingid|fbclid|gclid|lipi|origin)$/i;
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: 'senior',
+  jr: 'junior',
+  eng: 'engineer',
+  engr: 'engineer',
+  dev: 'developer',
+  mgr: 'manager',
+  swe: 'software engineer',
+};
+
+// Reduces a job URL to host + path + meaningful params so that http/https,
+// "www.", trailing slashes, fragments and tracking params don't hide a repeat
+export const normalizeJobUrl = (url?: string) => {
+  const trimmed = (url || '').trim();
+  if (!trimmed) return '';
+
+  const match = trimmed.match(/^(?:[a-z]+:\/\/)?([^/?#]+)([^?#]*)(?:\?([^#]*))?/i);
+  if (!match) return trimmed.toLowerCase();
+
+  const host = match[1].toLowerCase().replace(/^www\./, '');
+  const path = match[2].replace(/\/+$/, '');
+  const params = (match[3] || '')
+    .split('&')
+    .filter((param) => param && !TRACKING_PARAMS.test(param.split('=')[0]))
+    .sort();
+
+  return `${host}${path}${params.length ? `?${params.join('&')}` : ''}`;
+};
+
+const titleWords = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+    .flatMap((word) => (TITLE_ABBREVIATIONS[word] ?? word).split(' '));
+
+// Dice coefficient over the words, so word order and abbreviations don't matter
+export const jobTitleSimilarity = (a: string, b: string) => {
+  const left = new Set(titleWords(a));
+  const right = new Set(titleWords(b));
+  if (left.size === 0 || right.size === 0) return 0;
+
+  const shared = [...left].filter((word) => right.has(word)).length;
+  return (2 * shared) / (left.size + right.size);
+};
+
+const isSameCompany = (candidate: DuplicateCandidate, application: JobApplication) =>
+  candidate.company_id !== undefined && application.company_id !== undefined
+    ? candidate.company_id === application.company_id
+    : companyNameSimilarity(candidate.company, application.company) >= COMPANY_THRESHOLD;
+
+export const findDuplicateApplications = (
+  candidate: DuplicateCandidate,
+  applications: JobApplication[]
+): DuplicateMatch[] => {
+  const url = normalizeJobUrl(candidate.job_url);
+
+  const matches = applications.flatMap((application): DuplicateMatch[] => {
+    if (url && normalizeJobUrl(application.job_url) === url) {
+      return [{ application, reason: 'url' }];
+    }
+    if (
+      isSameCompany(candidate, application) &&
+      jobTitleSimilarity(candidate.job_title, application.job_title) >= TITLE_THRESHOLD
+    ) {
+      return [{ application, reason: 'similar' }];
+    }
+    return [];
+  });
+
+  // Exact URL matches first, then the most recent
+  return matches.sort(
+    (a, b) =>
+      (a.reason === 'url' ? 0 : 1) - (b.reason === 'url' ? 0 : 1) ||
+      new Date(b.application.date_applied).getTime() - new Date(a.application.date_applied).getTime()
+  );
+};
+
+const MERGEABLE_FIELDS = [
+  'location',
+  'job_description',
+  'salary',
+  'job_url',
+  'job_board',
+  'date_job_posted',
+  'referred_by',
+  'referral_relationship',
+  'referral_date',
+  'referral_notes',
+] as const;
+
+// Changes that fold a new entry into an existing application: blanks on the
+// existing record are filled in and notes are appended, nothing is overwritten
+export const mergeApplicationFields = (
+  existing: JobApplication,
+  incoming: JobApplicationCreate
+): Partial<JobApplicationCreate> => {
+  const changes: Partial<JobApplicationCreate> = {};
+
+  for (const field of MERGEABLE_FIELDS) {
+    if (!existing[field] && incoming[field]) {
+      changes[field] = incoming[field];
+    }
+  }
+
+  const newNotes = incoming.notes?.trim();
+  if (newNotes && !(existing.notes || '').includes(newNotes)) {
+    changes.notes = existing.notes ? `${existing.notes}\n\n${newNotes}` : newNotes;
+  }
+
+  return changes;
+};
@@ -0,0 +1,7 @@
+// One-line reason for a failed request, preferring the backend's own detail message
+export const describeError = (error: any) => {
+  const detail = error?.response?.data?.detail;
+  if (typeof detail === 'string') return detail;
+  if (detail) return JSON.stringify(detail);
+  return error?.message || 'Unknown error';
+};
@@ -0,0 +1,150 @@
+import { FollowUp, JobApplication, StatusChangeEvent, Task, TaskCreate } from '../types';
+import { toDayKey } from './calendarViews';
+
+// Rules that notice applications going quiet and suggest a follow-up task:
+// still "Applied" with no activity for a while, or nothing heard since an
+// interview. Each suggestion has a stable key so it can be dismissed for good.
+export type ReminderRule = 'no_response' | 'post_interview';
+
+export interface FollowUpReminderSettings {
+  enabled: boolean;
+  // Days in "Applied" without any activity before suggesting a nudge
+  appliedDays: number;
+  // Days after the latest interview before suggesting a check-in
+  interviewDays: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: FollowUpReminderSettings = {
+  enabled: true,
+  appliedDays: 7,
+  interviewDays: 3,
+};
+
+export interface FollowUpSuggestion {
+  key: string;
+  rule: ReminderRule;
+  application: JobApplication;
+  // When the quiet period started: entering "Applied", the interview, or the last follow-up
+  since: string;
+  daysWaiting: number;
+}
+
+export interface ReminderInputs {
+  applications: JobApplication[];
+  history: StatusChangeEvent[];
+  followUps: FollowUp[];
+  tasks: Task[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INTERVIEW_FOLLOW_UP_TYPES = [
+  'Interview', 'Technical Interview', 'Behavioral Interview', 'System Design',
+  'Coding Challenge', 'Onsite', 'Final Round',
+];
+
+const time = (date: string) => new Date(date).getTime();
+
+const latest = (dates: string[]) =>
+  dates.reduce<string | undefined>((max, date) => (!max || time(date) > time(max) ? date : max), undefined);
+
+// A suggestion dismissed once stays dismissed; a later interview or status change starts a new one
+export const suggestionKey = (rule: ReminderRule, applicationId: number, since: string) =>
+  `${rule}:${applicationId}:${since.slice(0, 10)}`;
+
+export const findFollowUpSuggestions = (
+  { applications, history, followUps, tasks }: ReminderInputs,
+  settings: FollowUpReminderSettings,
+  dismissed: string[],
+  now = new Date()
+): FollowUpSuggestion[] => {
+  if (!settings.enabled) return [];
+
+  const dismissedKeys = new Set(dismissed);
+  const suggestions: FollowUpSuggestion[] = [];
+
+  for (const application of applications) {
+    const changes = history.filter((event) => event.job_application_id === application.id);
+    // Only what has already happened counts as activity, not follow-ups planned for later
+    const pastFollowUps = followUps.filter(
+      (followUp) =>
+        followUp.job_application_id === application.id &&
+        followUp.status !== 'Cancelled' &&
+        time(followUp.date) <= now.getTime()
+    );
+    const lastActivity = latest(pastFollowUps.map((followUp) => followUp.date));
+
+    let rule: ReminderRule | undefined;
+    let since: string | undefined;
+    let threshold = 0;
+
+    if (application.application_status === 'Applied') {
+      const enteredApplied = latest(
+        changes
+          .filter((event) => event.field === 'application_status' && event.to_value === 'Applied')
+          .map((event) => event.changed_at)
+      );
+      rule = 'no_response';
+      since = latest([enteredApplied ?? application.date_applied, ...(lastActivity ? [lastActivity] : [])]);
+      threshold = settings.appliedDays;
+    } else if (application.application_status === 'Interviewing') {
+      const interviewDates = [
+        ...changes
+          .filter((event) => event.field === 'interview_stage' && event.to_value !== 'None')
+          .map((event) => event.changed_at),
+        ...pastFollowUps
+          .filter((followUp) => INTERVIEW_FOLLOW_UP_TYPES.includes(followUp.follow_up_type))
+          .map((followUp) => followUp.date),
+      ];
+      const lastInterview = latest(interviewDates);
+      // A thank-you email or call logged after the interview means it was already followed up
+      if (lastInterview && (!lastActivity || time(lastActivity) <= time(lastInterview))) {
+        rule = 'post_interview';
+        since = lastInterview;
+        threshold = settings.interviewDays;
+      }
+    }
+
+    if (!rule || !since) continue;
+    const quietSince = since;
+
+    const daysWaiting = Math.floor((now.getTime() - time(quietSince)) / DAY_MS);
+    if (daysWaiting < threshold) continue;
+
+    const key = suggestionKey(rule, application.id, quietSince);
+    if (dismissedKeys.has(key)) continue;
+
+    // Accepting a suggestion creates a networking task, which covers it until things move again
+    const alreadyPlanned = tasks.some(
+      (task) =>
+        task.job_application_id === application.id &&
+        task.task_type === 'networking' &&
+        time(task.created_at) >= time(quietSince)
+    );
+    if (alreadyPlanned) continue;
+
+    suggestions.push({ key, rule, application, since: quietSince, daysWaiting });
+  }
+
+  return suggestions.sort((a, b) => b.daysWaiting - a.daysWaiting);
+};
+
+export const describeSuggestion = (suggestion: FollowUpSuggestion) =>
+  suggestion.rule === 'no_response'
+    ? `No response for ${suggestion.daysWaiting} days`
+    : `${suggestion.daysWaiting} days since your interview`;
+
+export const buildReminderTask = (suggestion: FollowUpSuggestion, today = new Date()): TaskCreate => {
+  const { application } = suggestion;
+  return {
+    title:
+      suggestion.rule === 'no_response'
+        ? `Follow up on ${application.job_title} at ${application.company}`
+        : `Check in after interview at ${application.company}`,
+    description: `${describeSuggestion(suggestion)} on the ${application.job_title} application.`,
+    task_type: 'networking',
+    priority: 'medium',
+    due_date: toDayKey(today),
+    job_application_id: application.id,
+  };
+};
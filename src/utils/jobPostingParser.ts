@@ -0,0 +1,285 @@
+import { ScrapedJobData } from '../types';
+import { getHost } from './applicationSource';
+
+// Client-side extraction of job details from a posting's HTML, used when the
+// backend scraper fails. Sources are tried from most to least structured:
+// schema.org JobPosting JSON-LD, then known ATS page layouts, then OpenGraph
+// and plain <meta>/<title> tags. Each field comes from the first source that
+// has it. There's no DOM in React Native, so everything here is regex-based.
+type JobFields = Omit<ScrapedJobData, 'success' | 'error'>;
+
+export type AtsLayout = 'Greenhouse' | 'Lever' | 'Workday';
+
+const FIELDS: (keyof JobFields)[] = ['job_title', 'company', 'location', 'job_description', 'salary', 'job_board'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  hellip: '…',
+  bull: '•',
+};
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Out-of-range code points make fromCodePoint throw; leave those entities as written
+      return point >= 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+// Keeps paragraph and list structure as line breaks so descriptions stay readable
+export const htmlToText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<(script|style|noscript)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n• ')
+      .replace(/<\/(p|div|h[1-6]|ul|ol|li|section|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const clean = (value?: string | null) => {
+  const text = value ? htmlToText(value).replace(/\s+/g, ' ').trim() : '';
+  return text || undefined;
+};
+
+const parseAttributes = (tag: string) => {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+// Inner HTML of the first element whose opening tag matches, following nesting
+// of the same tag name so a <div> full of <div>s comes back whole
+export const extractElement = (html: string, openingTag: RegExp) => {
+  const start = html.match(openingTag);
+  if (!start || start.index === undefined) return undefined;
+
+  const tagName = start[0].match(/^<([a-z0-9]+)/i)?.[1].toLowerCase();
+  if (!tagName) return undefined;
+
+  const contentStart = start.index + start[0].length;
+  const tags = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi');
+  tags.lastIndex = contentStart;
+
+  let depth = 1;
+  for (let tag = tags.exec(html); tag; tag = tags.exec(html)) {
+    depth += tag[1] ? -1 : 1;
+    if (depth === 0) return html.slice(contentStart, tag.index);
+  }
+  return html.slice(contentStart);
+};
+
+const byClass = (html: string, tag: string, className: string) =>
+  extractElement(html, new RegExp(`<${tag}\\b[^>]*class=["'][^"']*\\b${className}\\b[^"']*["'][^>]*>`, 'i'));
+
+const byAttribute = (html: string, tag: string, name: string, value: string) =>
+  extractElement(html, new RegExp(`<${tag}\\b[^>]*${name}=["']${value}["'][^>]*>`, 'i'));
+
+// ---- JSON-LD ----
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const isJobPosting = (node: any) => asArray(node?.['@type']).some((type) => type === 'JobPosting');
+
+const findJobPosting = (node: any): any => {
+  if (!node || typeof node !== 'object') return undefined;
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findJobPosting(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (isJobPosting(node)) return node;
+  return findJobPosting(node['@graph']);
+};
+
+const formatPlace = (place: any) => {
+  if (typeof place === 'string') return place;
+  const address = place?.address ?? place;
+  if (typeof address === 'string') return address;
+  const country = typeof address?.addressCountry === 'object' ? address.addressCountry?.name : address?.addressCountry;
+  const parts = [address?.addressLocality, address?.addressRegion, country].filter(
+    (part) => typeof part === 'string' && part.trim()
+  );
+  return parts.join(', ') || place?.name;
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { USD: '$', CAD: 'CA$', AUD: 'A$', EUR: '€', GBP: '£', INR: '₹' };
+const SALARY_UNITS: Record<string, string> = { HOUR: 'hour', DAY: 'day', WEEK: 'week', MONTH: 'month', YEAR: 'year' };
+
+const formatAmount = (amount: unknown, currency?: string) => {
+  const number = typeof amount === 'string' ? parseFloat(amount.replace(/[^0-9.]/g, '')) : Number(amount);
+  if (!Number.isFinite(number) || number <= 0) return undefined;
+  const formatted = number.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  const symbol = currency ? CURRENCY_SYMBOLS[currency.toUpperCase()] : undefined;
+  return symbol ? `${symbol}${formatted}` : currency ? `${formatted} ${currency}` : formatted;
+};
+
+// "$120,000 - $150,000 / year" from a MonetaryAmount
+const formatSalary = (baseSalary: any) => {
+  if (!baseSalary) return undefined;
+  if (typeof baseSalary === 'string' || typeof baseSalary === 'number') return String(baseSalary);
+
+  const value = baseSalary.value ?? {};
+  const currency = baseSalary.currency ?? value.currency;
+  const single = typeof value === 'object' ? value.value : value;
+  const range = [formatAmount(value.minValue, currency), formatAmount(value.maxValue, currency)].filter(Boolean);
+  const amount = range.length === 2 && range[0] !== range[1] ? range.join(' - ') : range[0] ?? formatAmount(single, currency);
+  if (!amount) return undefined;
+
+  const unit = SALARY_UNITS[String(value.unitText ?? baseSalary.unitText ?? '').toUpperCase()];
+  return unit ? `${amount} / ${unit}` : amount;
+};
+
+// Some sites entity-encode the HTML inside JSON-LD descriptions ("&lt;p&gt;")
+const unescapeMarkup = (text: string) => (/&lt;[a-z/]/i.test(text) ? decodeEntities(text) : text);
+
+export const parseJsonLd = (html: string): JobFields => {
+  const scripts = html.matchAll(/<script\b[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+
+  for (const script of scripts) {
+    const source = script[1].replace(/^\s*(<!\[CDATA\[|<!--)/, '').replace(/(\]\]>|-->)\s*$/, '').trim();
+    let posting: any;
+    try {
+      posting = findJobPosting(JSON.parse(source));
+    } catch {
+      // Some sites ship invalid JSON-LD; move on to the next block
+      continue;
+    }
+    if (!posting) continue;
+
+    const organization = asArray(posting.hiringOrganization)[0];
+    const locations = asArray(posting.jobLocation).map(formatPlace).filter(Boolean);
+    const remote = asArray(posting.jobLocationType).includes('TELECOMMUTE');
+
+    return {
+      job_title: clean(posting.title),
+      company: clean(typeof organization === 'string' ? organization : organization?.name),
+      location: locations.length > 0 ? locations.join('; ') + (remote ? ' (Remote)' : '') : remote ? 'Remote' : undefined,
+      job_description: posting.description ? htmlToText(unescapeMarkup(String(posting.description))) || undefined : undefined,
+      salary: formatSalary(posting.baseSalary ?? posting.estimatedSalary),
+    };
+  }
+  return {};
+};
+
+// ---- ATS layouts ----
+
+export const detectAtsLayout = (html: string, url?: string): AtsLayout | undefined => {
+  const host = url ? getHost(url) : null;
+  if (host) {
+    if (/(^|\.)greenhouse\.io$/.test(host)) return 'Greenhouse';
+    if (/(^|\.)lever\.co$/.test(host)) return 'Lever';
+    if (/(^|\.)myworkdayjobs\.com$/.test(host)) return 'Workday';
+  }
+  if (/class=["'][^"']*\bapp-title\b/i.test(html) || /boards\.greenhouse\.io/i.test(html)) return 'Greenhouse';
+  if (/class=["'][^"']*\bposting-headline\b/i.test(html)) return 'Lever';
+  if (/data-automation-id=["']jobPostingHeader["']/i.test(html)) return 'Workday';
+  return undefined;
+};
+
+const titleCase = (slug: string) => slug.replace(/[-_]+/g, ' ').replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+
+const parseGreenhouse = (html: string): JobFields => ({
+  job_title: clean(byClass(html, 'h1', 'app-title') ?? byClass(html, 'h1', 'section-header')),
+  // Rendered as "at Acme"
+  company: clean(byClass(html, 'span', 'company-name'))?.replace(/^at\s+/i, ''),
+  location: clean(byClass(html, 'div', 'location') ?? byClass(html, 'div', 'job__location')),
+  job_description: htmlToText(byAttribute(html, 'div', 'id', 'content') ?? byClass(html, 'div', 'job__description') ?? '') || undefined,
+});
+
+const parseLever = (html: string): JobFields => {
+  const headline = byClass(html, 'div', 'posting-headline') ?? '';
+  // Lever titles read "Acme - Senior Engineer"
+  const pageTitle = clean(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]);
+  const company = pageTitle?.includes(' - ') ? pageTitle.split(' - ')[0] : undefined;
+  const description = byAttribute(html, 'div', 'data-qa', 'job-description') ?? byClass(html, 'div', 'section-wrapper');
+
+  return {
+    job_title: clean(headline.match(/<h2\b[^>]*>([\s\S]*?)<\/h2>/i)?.[1]),
+    company,
+    location: clean(byClass(headline, 'div', 'location') ?? byClass(html, 'div', 'location')),
+    job_description: description ? htmlToText(description) || undefined : undefined,
+  };
+};
+
+const parseWorkday = (html: string, url?: string): JobFields => {
+  // acme.wd5.myworkdayjobs.com -> Acme
+  const tenant = url ? getHost(url)?.match(/^([a-z0-9-]+)\.wd\d*\.myworkdayjobs\.com$/)?.[1] : undefined;
+  return {
+    job_title: clean(byAttribute(html, '[a-z0-9]+', 'data-automation-id', 'jobPostingHeader')),
+    company: tenant ? titleCase(tenant) : undefined,
+    location: clean(byAttribute(html, '[a-z0-9]+', 'data-automation-id', 'locations'))?.replace(/^locations\s*/i, ''),
+    job_description:
+      htmlToText(byAttribute(html, '[a-z0-9]+', 'data-automation-id', 'jobPostingDescription') ?? '') || undefined,
+  };
+};
+
+export const parseAtsLayout = (html: string, url?: string): JobFields => {
+  switch (detectAtsLayout(html, url)) {
+    case 'Greenhouse':
+      return { ...parseGreenhouse(html), job_board: 'Greenhouse' };
+    case 'Lever':
+      return { ...parseLever(html), job_board: 'Lever' };
+    case 'Workday':
+      return { ...parseWorkday(html, url), job_board: 'Workday' };
+    default:
+      return {};
+  }
+};
+
+// ---- OpenGraph / meta ----
+
+export const parseMetaTags = (html: string): JobFields => {
+  const meta: Record<string, string> = {};
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property ?? attributes.name ?? '').toLowerCase();
+    if (key && attributes.content && !(key in meta)) meta[key] = attributes.content;
+  }
+
+  const pageTitle = clean(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]);
+  const description = meta['og:description'] ?? meta['twitter:description'] ?? meta.description;
+
+  return {
+    job_title: clean(meta['og:title'] ?? meta['twitter:title']) ?? pageTitle,
+    company: clean(meta['og:site_name']),
+    job_description: description ? htmlToText(description) || undefined : undefined,
+  };
+};
+
+// Runs every strategy and keeps, per field, the first one that found something
+export const parseJobPostingHtml = (html: string, url?: string): ScrapedJobData => {
+  const results = [parseJsonLd(html), parseAtsLayout(html, url), parseMetaTags(html)];
+  const data: ScrapedJobData = { success: false };
+
+  for (const field of FIELDS) {
+    const value = results.map((result) => result[field]).find((candidate) => candidate && candidate.trim());
+    if (value) data[field] = value.trim();
+  }
+
+  data.success = !!(data.job_title || data.company);
+  if (!data.success) data.error = 'No job details found on this page';
+  return data;
+};
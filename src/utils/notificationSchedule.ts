@@ -0,0 +1,114 @@
+import { CalendarEvent, FollowUp, Task } from '../types';
+
+// Works out which local notifications should be pending right now. The
+// scheduler throws the previous set away and schedules this one whenever the
+// underlying records change, so the plan only needs to be right, not incremental.
+export interface PlannedNotification {
+  key: string;
+  title: string;
+  body: string;
+  date: Date;
+  // Opened through the app's linking config when the notification is tapped
+  url: string;
+}
+
+export interface NotificationSources {
+  events: CalendarEvent[];
+  tasks: Task[];
+  followUps: FollowUp[];
+}
+
+// iOS keeps at most 64 pending local notifications; the soonest win
+export const MAX_SCHEDULED_NOTIFICATIONS = 60;
+
+// Reminder time for things that only have a day: all-day events, tasks without a due time...
+export const DAY_REMINDER_HOUR = 9;
+
+const LINK_PREFIX = 'jobtracker://';
+
+export const applicationLink = (applicationId: number) => `${LINK_PREFIX}applications/${applicationId}`;
+export const calendarLink = (day: string) => `${LINK_PREFIX}calendar?date=${day}`;
+export const tasksLink = () => `${LINK_PREFIX}tasks`;
+
+// Local time on the given YYYY-MM-DD day
+const atLocalTime = (day: string, hours: number, minutes = 0) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date, hours, minutes);
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const describeLead = (minutes: number) => {
+  if (minutes <= 0) return 'Starting now';
+  if (minutes < 60) return `Starts in ${minutes} minutes`;
+  if (minutes % 1440 === 0) return minutes === 1440 ? 'Tomorrow' : `In ${minutes / 1440} days`;
+  const hours = Math.round(minutes / 60);
+  return `Starts in ${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
+
+const planEvent = (event: CalendarEvent): PlannedNotification | null => {
+  if (event.status !== 'scheduled') return null;
+  const start = new Date(event.start_datetime);
+  if (Number.isNaN(start.getTime())) return null;
+
+  const date = event.is_all_day
+    ? atLocalTime(event.start_datetime.slice(0, 10), DAY_REMINDER_HOUR)
+    : new Date(start.getTime() - event.reminder_minutes * 60 * 1000);
+  const details = event.is_all_day
+    ? 'Today'
+    : `${describeLead(event.reminder_minutes)} • ${formatTime(start)}${event.location ? ` • ${event.location}` : ''}`;
+
+  return {
+    key: `event:${event.id}`,
+    title: event.title,
+    body: details,
+    date,
+    url: event.job_application_id
+      ? applicationLink(event.job_application_id)
+      : calendarLink(event.start_datetime.slice(0, 10)),
+  };
+};
+
+const planTask = (task: Task): PlannedNotification | null => {
+  if (!task.due_date || task.status === 'completed' || task.status === 'cancelled') return null;
+
+  // due_time is HH:MM or HH:MM:SS
+  const [hours, minutes] = (task.due_time ?? '').split(':').map(Number);
+  const hasTime = Number.isInteger(hours) && Number.isInteger(minutes);
+  const date = hasTime ? atLocalTime(task.due_date, hours, minutes) : atLocalTime(task.due_date, DAY_REMINDER_HOUR);
+
+  return {
+    key: `task:${task.id}`,
+    title: task.title,
+    body: hasTime ? `Due at ${formatTime(date)}` : 'Due today',
+    date,
+    url: task.job_application_id ? applicationLink(task.job_application_id) : tasksLink(),
+  };
+};
+
+const planFollowUp = (followUp: FollowUp): PlannedNotification | null => {
+  if (followUp.status !== 'Pending' || !followUp.job_application_id) return null;
+  const start = new Date(followUp.date);
+  if (Number.isNaN(start.getTime())) return null;
+
+  // The follow-up form only picks a day, stored as midnight UTC
+  const dayOnly = followUp.date.includes('T00:00:00');
+  const date = dayOnly ? atLocalTime(followUp.date.slice(0, 10), DAY_REMINDER_HOUR) : start;
+
+  return {
+    key: `follow-up:${followUp.id}`,
+    title: followUp.title,
+    body: dayOnly ? `${followUp.follow_up_type} today` : `${followUp.follow_up_type} at ${formatTime(start)}`,
+    date,
+    url: applicationLink(followUp.job_application_id),
+  };
+};
+
+export const planNotifications = (
+  { events, tasks, followUps }: NotificationSources,
+  now = new Date()
+): PlannedNotification[] =>
+  [...events.map(planEvent), ...tasks.map(planTask), ...followUps.map(planFollowUp)]
+    .filter((planned): planned is PlannedNotification => !!planned && planned.date.getTime() > now.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(0, MAX_SCHEDULED_NOTIFICATIONS);
@@ -0,0 +1,194 @@
+import { JobApplication, StatusChangeEvent } from '../types';
+
+// Pipeline analytics computed on the device from the full application list,
+// the status history journal and follow-ups.
+export const FUNNEL_STAGES = ['Applied', 'Screen', 'Technical', 'Onsite', 'Offer'] as const;
+export type FunnelStage = typeof FUNNEL_STAGES[number];
+
+export interface AnalyticsFollowUp {
+  job_application_id?: number;
+  follow_up_type: string;
+  date: string;
+  status: string;
+}
+
+export interface FunnelStep {
+  stage: FunnelStage;
+  count: number;
+  // Share of the previous step that made it this far (0-1); undefined for the first step
+  conversion?: number;
+}
+
+export interface StageDuration {
+  stage: FunnelStage;
+  medianDays: number | null;
+  samples: number;
+}
+
+export interface MonthMetrics {
+  label: string;
+  applications: number;
+  interviews: number;
+  offers: number;
+  rejections: number;
+}
+
+export interface PipelineAnalytics {
+  funnel: FunnelStep[];
+  durations: StageDuration[];
+  currentMonth: MonthMetrics;
+  previousMonth: MonthMetrics;
+}
+
+// Funnel level implied by interview stages, statuses and follow-up types
+const STAGE_LEVELS: Record<string, number> = {
+  'Phone Screen': 1,
+  'Technical Interview': 2,
+  'Behavioral Interview': 2,
+  'System Design': 2,
+  'Coding Challenge': 2,
+  'Onsite': 3,
+  'Final Round': 3,
+};
+
+const STATUS_LEVELS: Record<string, number> = {
+  Interviewing: 1,
+  Offer: 4,
+};
+
+const FOLLOW_UP_LEVELS: Record<string, number> = {
+  ...STAGE_LEVELS,
+  'Interview': 1,
+  'Reference Check': 3,
+  'Background Check': 3,
+  'Offer Discussion': 4,
+};
+
+export const OFFER_LEVEL = FUNNEL_STAGES.length - 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ApplicationProgress {
+  application: JobApplication;
+  level: number;
+  // Earliest recorded date each level was reached (from history or follow-ups)
+  reachedAt: (string | undefined)[];
+  rejectedAt?: string;
+}
+
+const levelFor = (value?: string) => (value ? STAGE_LEVELS[value] ?? STATUS_LEVELS[value] ?? 0 : 0);
+
+const earlier = (a: string | undefined, b: string) => (!a || new Date(b) < new Date(a) ? b : a);
+
+const buildProgress = (
+  application: JobApplication,
+  history: StatusChangeEvent[],
+  followUps: AnalyticsFollowUp[]
+): ApplicationProgress => {
+  const reachedAt: (string | undefined)[] = FUNNEL_STAGES.map(() => undefined);
+  reachedAt[0] = application.date_applied;
+  let rejectedAt: string | undefined;
+
+  const reach = (level: number, date: string) => {
+    for (let index = 1; index <= level; index++) {
+      reachedAt[index] = earlier(reachedAt[index], date);
+    }
+  };
+
+  for (const change of history) {
+    reach(levelFor(change.to_value), change.changed_at);
+    if (change.field === 'application_status' && change.to_value === 'Rejected') {
+      rejectedAt = earlier(rejectedAt, change.changed_at);
+    }
+  }
+  for (const followUp of followUps) {
+    if (followUp.status?.toLowerCase() === 'cancelled') continue;
+    reach(FOLLOW_UP_LEVELS[followUp.follow_up_type] ?? 0, followUp.date);
+  }
+
+  // The current state counts even when we never saw the change happen
+  const recordedLevel = reachedAt.reduce((max, date, index) => (date ? index : max), 0);
+  const level = Math.max(
+    recordedLevel,
+    levelFor(application.interview_stage),
+    levelFor(application.application_status)
+  );
+
+  return { application, level, reachedAt, rejectedAt };
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}`;
+
+const inMonth = (value: string | undefined, key: string) => !!value && monthKey(new Date(value)) === key;
+
+const monthMetrics = (progress: ApplicationProgress[], month: Date): MonthMetrics => {
+  const key = monthKey(month);
+  // Without a recorded date, fall back to the last time the record changed
+  const dateFor = (entry: ApplicationProgress, level: number) =>
+    entry.reachedAt[level] ?? (entry.level >= level ? entry.application.updated_at : undefined);
+
+  return {
+    label: month.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+    applications: progress.filter((entry) => inMonth(entry.application.date_applied, key)).length,
+    interviews: progress.filter((entry) => entry.level >= 1 && inMonth(dateFor(entry, 1), key)).length,
+    offers: progress.filter((entry) => entry.level >= OFFER_LEVEL && inMonth(dateFor(entry, OFFER_LEVEL), key)).length,
+    rejections: progress.filter(
+      (entry) =>
+        entry.application.application_status === 'Rejected' &&
+        inMonth(entry.rejectedAt ?? entry.application.updated_at, key)
+    ).length,
+  };
+};
+
+// Pending applications haven't been sent yet, so they aren't part of the funnel
+export const trackApplicationProgress = (
+  applications: JobApplication[],
+  history: StatusChangeEvent[],
+  followUps: AnalyticsFollowUp[]
+): ApplicationProgress[] =>
+  applications
+    .filter((application) => application.application_status !== 'Pending')
+    .map((application) =>
+      buildProgress(
+        application,
+        history.filter((change) => change.job_application_id === application.id),
+        followUps.filter((followUp) => followUp.job_application_id === application.id)
+      )
+    );
+
+export const computePipelineAnalytics = (
+  progress: ApplicationProgress[],
+  now = new Date()
+): PipelineAnalytics => {
+  const counts = FUNNEL_STAGES.map((_, level) => progress.filter((entry) => entry.level >= level).length);
+  const funnel = FUNNEL_STAGES.map((stage, level) => ({
+    stage,
+    count: counts[level],
+    conversion: level === 0 ? undefined : counts[level - 1] > 0 ? counts[level] / counts[level - 1] : 0,
+  }));
+
+  // Time spent in a stage runs until the next recorded milestone, whichever stage that is
+  const durations = FUNNEL_STAGES.slice(0, OFFER_LEVEL).map((stage, level) => {
+    const samples = progress.flatMap((entry) => {
+      const start = entry.reachedAt[level];
+      const next = entry.reachedAt.slice(level + 1).find(Boolean);
+      if (!start || !next) return [];
+      return [Math.max(0, (new Date(next).getTime() - new Date(start).getTime()) / DAY_MS)];
+    });
+    const value = median(samples);
+    return { stage, medianDays: value === null ? null : Math.round(value), samples: samples.length };
+  });
+
+  return {
+    funnel,
+    durations,
+    currentMonth: monthMetrics(progress, new Date(now.getFullYear(), now.getMonth(), 1)),
+    previousMonth: monthMetrics(progress, new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+  };
+};
@@ -0,0 +1,77 @@
+import { ApplicationStatus, FollowUp, JobApplication, StatusChangeEvent } from '../types';
+
+// An application is stale when it is still waiting on the employer but nothing
+// has happened for a number of weeks: no status change, no follow-up. Stale
+// applications are left out of the active pipeline until they are reviewed.
+export const DEFAULT_STALE_WEEKS = 4;
+
+// Statuses that are still waiting to hear back, and so can go stale
+export const STALE_CANDIDATE_STATUSES: ApplicationStatus[] = ['Applied', 'Interviewing'];
+
+// Everything not yet closed out counts towards the active pipeline
+export const ACTIVE_STATUSES: ApplicationStatus[] = ['Pending', 'Applied', 'Interviewing', 'Offer'];
+
+export interface StaleApplication {
+  application: JobApplication;
+  lastActivity: string;
+  weeksQuiet: number;
+}
+
+export interface StaleInputs {
+  applications: JobApplication[];
+  history: StatusChangeEvent[];
+  followUps: FollowUp[];
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const time = (date: string) => new Date(date).getTime();
+
+// Latest of applying, any status/stage change, any follow-up that has already
+// happened, and the last time the user chose to keep it in review
+export const lastActivityDate = (
+  application: JobApplication,
+  history: StatusChangeEvent[],
+  followUps: FollowUp[],
+  keptAt?: string,
+  now = new Date()
+) => {
+  const dates = [
+    application.date_applied,
+    ...history.filter((event) => event.job_application_id === application.id).map((event) => event.changed_at),
+    ...followUps
+      .filter(
+        (followUp) =>
+          followUp.job_application_id === application.id &&
+          followUp.status !== 'Cancelled' &&
+          time(followUp.date) <= now.getTime()
+      )
+      .map((followUp) => followUp.date),
+    ...(keptAt ? [keptAt] : []),
+  ].filter((date) => !Number.isNaN(time(date)));
+
+  return dates.reduce((max, date) => (time(date) > time(max) ? date : max), dates[0] ?? application.created_at);
+};
+
+export const findStaleApplications = (
+  { applications, history, followUps }: StaleInputs,
+  weeks: number,
+  // Application id -> when it was last kept from the review queue
+  kept: Record<number, string>,
+  now = new Date()
+): StaleApplication[] =>
+  applications
+    .filter((application) => STALE_CANDIDATE_STATUSES.includes(application.application_status))
+    .map((application) => {
+      const lastActivity = lastActivityDate(application, history, followUps, kept[application.id], now);
+      return { application, lastActivity, weeksQuiet: Math.floor((now.getTime() - time(lastActivity)) / WEEK_MS) };
+    })
+    .filter((entry) => entry.weeksQuiet >= weeks)
+    .sort((a, b) => time(a.lastActivity) - time(b.lastActivity));
+
+export const countActivePipeline = (applications: JobApplication[], stale: StaleApplication[]) => {
+  const staleIds = new Set(stale.map((entry) => entry.application.id));
+  return applications.filter(
+    (application) => ACTIVE_STATUSES.includes(application.application_status) && !staleIds.has(application.id)
+  ).length;
+};